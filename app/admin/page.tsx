@@ -6,8 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { DocumentManager } from "@/components/admin/document-manager"
 import { ExampleManager } from "@/components/admin/example-manager"
 import { RAGStats } from "@/components/admin/rag-stats"
+import { UsageStats } from "@/components/admin/usage-stats"
+import { PromptRegistry } from "@/components/admin/prompt-registry"
 import { Button } from "@/components/ui/button"
-import { FileText, Code, BarChart3, Database } from "lucide-react"
+import { FileText, Code, BarChart3, Database, Coins, MessageSquareText } from "lucide-react"
 
 export default function AdminPage() {
   const [activeTab, setActiveTab] = useState("documents")
@@ -39,7 +41,7 @@ export default function AdminPage() {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="documents" className="flex items-center space-x-2">
               <FileText className="h-4 w-4" />
               <span>문서 관리</span>
@@ -52,6 +54,10 @@ export default function AdminPage() {
               <BarChart3 className="h-4 w-4" />
               <span>통계</span>
             </TabsTrigger>
+            <TabsTrigger value="prompts" className="flex items-center space-x-2">
+              <MessageSquareText className="h-4 w-4" />
+              <span>프롬프트</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="documents" className="space-y-6">
@@ -105,6 +111,38 @@ export default function AdminPage() {
                 <RAGStats />
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Coins className="h-5 w-5" />
+                  <span>검증 사용량 및 비용</span>
+                </CardTitle>
+                <CardDescription>
+                  검증별 LLM 토큰과 임베딩 호출 수를 가격표(LLM_PRICE_TABLE) 기준 예상 비용과 함께 일별, 사용자별로 집계합니다.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageStats />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="prompts" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <MessageSquareText className="h-5 w-5" />
+                  <span>프롬프트 레지스트리</span>
+                </CardTitle>
+                <CardDescription>
+                  검증에 사용하는 프롬프트 템플릿의 버전 이력을 확인하고 버전 간 변경 내용을 비교할 수 있습니다.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PromptRegistry />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { knowledgeDocuments } from "@/lib/db/schema"
-import { DocumentProcessor } from "@/lib/knowledge/document-processor"
+import { assertEmbeddingColumns } from "@/lib/db/embeddings"
+import { getEmbeddingProvider } from "@/lib/embeddings"
 import { eq } from "drizzle-orm"
 
 // 특정 문서 조회
@@ -76,14 +77,16 @@ export async function PUT(
     const needsEmbeddingUpdate = existingDocument.content !== content
 
     let embedding = existingDocument.embedding
+    let embeddingModel = existingDocument.embeddingModel
 
     if (needsEmbeddingUpdate) {
-      const documentProcessor = new DocumentProcessor()
+      await assertEmbeddingColumns()
+      const embeddingClient = getEmbeddingProvider()
 
       // 새로운 임베딩 생성
-      const processedContent = documentProcessor['embeddingClient'].preprocessText(content)
-      const newEmbedding = await documentProcessor['embeddingClient'].generateEmbedding(processedContent)
-      embedding = newEmbedding
+      const processedContent = embeddingClient.preprocessText(content)
+      embedding = await embeddingClient.generateEmbedding(processedContent)
+      embeddingModel = embeddingClient.modelId
     }
 
     // 문서 업데이트
@@ -95,6 +98,7 @@ export async function PUT(
         section,
         documentType: documentType || 'rule',
         embedding,
+        embeddingModel,
         metadata: {
           ...existingDocument.metadata,
           ...metadata,
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { codeExamples } from "@/lib/db/schema"
-import { TitanEmbeddingClient } from "@/lib/embeddings/titan-client"
+import { assertEmbeddingColumns } from "@/lib/db/embeddings"
+import { getEmbeddingProvider } from "@/lib/embeddings"
 import { eq } from "drizzle-orm"
 
 // 특정 예제 조회
@@ -84,13 +85,14 @@ export async function PUT(
     const needsEmbeddingUpdate = existingExample.codeContent !== codeContent
 
     let embedding = existingExample.embedding
+    let embeddingModel = existingExample.embeddingModel
+    const embeddingClient = getEmbeddingProvider()
 
     if (needsEmbeddingUpdate) {
-      const embeddingClient = new TitanEmbeddingClient()
+      await assertEmbeddingColumns()
       const processedCode = embeddingClient.preprocessText(codeContent)
-      const rawEmbedding = await embeddingClient.generateEmbedding(processedCode)
-      // Temporary fix: Pad 1024 dimensions to 1536 to match database expectation
-      embedding = [...rawEmbedding, ...new Array(512).fill(0)]
+      embedding = await embeddingClient.generateEmbedding(processedCode)
+      embeddingModel = embeddingClient.modelId
     }
 
     // 예제 업데이트
@@ -99,12 +101,13 @@ export async function PUT(
       .set({
         title,
         codeContent: needsEmbeddingUpdate
-          ? new TitanEmbeddingClient().preprocessText(codeContent)
+          ? embeddingClient.preprocessText(codeContent)
           : codeContent,
         qualityScore,
         category: category || undefined,
         description: description || undefined,
         embedding,
+        embeddingModel,
         tags: tags || undefined
       })
       .where(eq(codeExamples.id, id))
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { codeExamples } from "@/lib/db/schema"
-import { TitanEmbeddingClient } from "@/lib/embeddings/titan-client"
+import { assertEmbeddingColumns } from "@/lib/db/embeddings"
+import { getEmbeddingProvider } from "@/lib/embeddings"
 import { desc, eq, ilike, or, and, gte, lt } from "drizzle-orm"
 
 // 예제 목록 조회
@@ -93,14 +94,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 임베딩 생성
-    const embeddingClient = new TitanEmbeddingClient()
+    // 임베딩 생성 (컬럼 차원이 임베딩 설정과 다르면 저장하지 않음)
+    await assertEmbeddingColumns()
+    const embeddingClient = getEmbeddingProvider()
     const processedCode = embeddingClient.preprocessText(codeContent)
     const embedding = await embeddingClient.generateEmbedding(processedCode)
 
-    // Temporary fix: Pad 1024 dimensions to 1536 to match database expectation
-    const paddedEmbedding = [...embedding, ...new Array(512).fill(0)]
-
     // 예제 저장
     const [savedExample] = await db
       .insert(codeExamples)
@@ -110,7 +109,8 @@ export async function POST(request: NextRequest) {
         qualityScore,
         category: category || undefined,
         description: description || undefined,
-        embedding: paddedEmbedding,
+        embedding,
+        embeddingModel: embeddingClient.modelId,
         tags: tags || undefined
       })
       .returning({
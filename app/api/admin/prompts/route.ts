@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { listPrompts } from "@/lib/prompts/registry"
+
+// 프롬프트 레지스트리의 전체 프롬프트와 버전 이력 조회
+export async function GET() {
+  try {
+    return NextResponse.json({ prompts: listPrompts() })
+  } catch (error) {
+    console.error('Error listing prompts:', error)
+    return NextResponse.json(
+      { error: '프롬프트 목록을 불러오는데 실패했습니다' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
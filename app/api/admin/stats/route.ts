@@ -2,10 +2,26 @@ import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { codeExamples, knowledgeDocuments } from "@/lib/db/schema"
 import { sql } from "drizzle-orm"
+import { getUsageStats } from "@/lib/db/usage"
+import { getBedrockQueueStats } from "@/lib/bedrock/limiter"
+import { countOtherModelEmbeddings, getEmbeddingModelUsage } from "@/lib/db/embeddings"
+import { countStoredEmbeddings, getEmbeddingCacheStats } from "@/lib/embeddings/cache"
+import { getEmbeddingConfig } from "@/lib/embeddings/config"
+import { UsageStatsQuerySchema } from "@/lib/schemas/validation"
 
-// RAG 시스템 통계 조회
+// RAG 시스템 통계 및 검증 사용량·비용 조회 (?days=N, 기본 30일)
 export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url)
+    const query = UsageStatsQuerySchema.safeParse({ days: searchParams.get('days') || undefined })
+
+    if (!query.success) {
+      return NextResponse.json(
+        { error: `잘못된 조회 기간입니다: ${query.error.issues[0].message}` },
+        { status: 400 }
+      )
+    }
+
     // 총 문서 수
     const [{ count: totalDocuments }] = await db
       .select({ count: sql<number>`cast(count(*) as int)` })
@@ -67,12 +83,34 @@ export async function GET(request: NextRequest) {
       .filter(Boolean)
       .sort((a, b) => new Date(b!).getTime() - new Date(a!).getTime())[0]
 
+    // 임베딩 모델별 벡터 수 - 현재 모델이 아닌 벡터와 임베딩이 없는 행은 db:reembed 대상
+    const embeddingConfig = getEmbeddingConfig()
+    const embeddingUsage = await getEmbeddingModelUsage()
+    const staleEmbeddings = Object.values(embeddingUsage).reduce(
+      (sum, usage) => sum + usage.missing + countOtherModelEmbeddings(usage, embeddingConfig.modelId),
+      0
+    )
+
     const stats = {
       totalDocuments,
       totalExamples,
       documentTypes,
       exampleCategories,
-      lastUpdated: lastUpdated || new Date().toISOString()
+      lastUpdated: lastUpdated || new Date().toISOString(),
+      usage: await getUsageStats(query.data.days),
+      bedrockQueue: getBedrockQueueStats(),
+      embeddings: {
+        provider: embeddingConfig.provider,
+        modelId: embeddingConfig.modelId,
+        dimensions: embeddingConfig.dimensions,
+        tables: embeddingUsage,
+        stale: staleEmbeddings,
+        // 이 서버 프로세스가 시작된 뒤의 캐시 적중률과 DB에 저장된 캐시 항목 수
+        cache: {
+          ...getEmbeddingCacheStats(),
+          storedEntries: await countStoredEmbeddings()
+        }
+      }
     }
 
     return NextResponse.json(stats)
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { codeExamples, knowledgeDocuments } from "@/lib/db/schema"
-import { TitanEmbeddingClient } from "@/lib/embeddings/titan-client"
+import { assertEmbeddingColumns } from "@/lib/db/embeddings"
+import { getEmbeddingProvider } from "@/lib/embeddings"
 import { sql } from "drizzle-orm"
 
 // RAG 검색 테스트
@@ -17,10 +18,8 @@ export async function POST(request: NextRequest) {
     }
 
     // 쿼리 임베딩 생성
-    const embeddingClient = new TitanEmbeddingClient()
-    const rawQueryEmbedding = await embeddingClient.generateEmbedding(query)
-    // Temporary fix: Pad 1024 dimensions to 1536 to match database expectation
-    const queryEmbedding = [...rawQueryEmbedding, ...new Array(512).fill(0)]
+    await assertEmbeddingColumns()
+    const queryEmbedding = await getEmbeddingProvider().generateEmbedding(query, 'query')
 
     // Convert array to string format for PostgreSQL vector
     const vectorString = `[${queryEmbedding.join(',')}]`
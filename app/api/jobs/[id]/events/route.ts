@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getValidationJobStatus, isTerminalEvent, listJobEvents } from "@/lib/jobs/validation-jobs"
+
+const POLL_INTERVAL_MS = 500
+const KEEPALIVE_INTERVAL_MS = 15000
+
+/**
+ * 검증 작업의 진행 이벤트를 SSE로 전송
+ * 각 이벤트에는 id가 붙으며, Last-Event-ID 헤더(또는 lastEventId 쿼리)로 재연결하면 그 이후 이벤트부터 이어서 받습니다.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const encoder = new TextEncoder()
+
+  const lastEventId = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId')
+  let cursor = Math.max(0, parseInt(lastEventId || '0') || 0)
+
+  try {
+    if (!await getValidationJobStatus(id)) {
+      return NextResponse.json(
+        { error: '검증 작업을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+  } catch (error) {
+    console.error('Error fetching validation job:', error)
+    return NextResponse.json(
+      { error: '검증 작업 조회 실패' },
+      { status: 500 }
+    )
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastSentAt = Date.now()
+      let jobFinished = false
+
+      try {
+        // 클라이언트가 연결을 끊어도 작업은 워커에서 계속 실행됨
+        while (!request.signal.aborted) {
+          const events = await listJobEvents(id, cursor)
+
+          for (const { id: eventId, event } of events) {
+            controller.enqueue(encoder.encode(`id: ${eventId}\ndata: ${JSON.stringify(event)}\n\n`))
+            cursor = eventId
+            lastSentAt = Date.now()
+
+            if (isTerminalEvent(event)) {
+              controller.close()
+              return
+            }
+          }
+
+          // 종료 이벤트 없이 끝난 작업은 더 기다릴 이벤트가 없음
+          if (jobFinished) break
+
+          if (events.length === 0) {
+            const status = await getValidationJobStatus(id)
+            if (status !== 'queued' && status !== 'running') {
+              // 상태 조회 직전에 기록된 종료 이벤트를 놓치지 않도록 한 번 더 조회
+              jobFinished = true
+              continue
+            }
+          }
+
+          if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'))
+            lastSentAt = Date.now()
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+        }
+      } catch (error) {
+        console.error('Validation job stream error:', error)
+
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            step: 'stream'
+          })}\n\n`))
+        }
+      }
+
+      try {
+        controller.close()
+      } catch {
+        // 클라이언트 연결이 이미 끊긴 경우
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET',
+      'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+    },
+  })
+}
\ No newline at end of file
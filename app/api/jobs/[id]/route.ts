@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getValidationJob } from "@/lib/jobs/validation-jobs"
+
+// 검증 작업 상태 조회 (완료된 경우 결과 포함)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getValidationJob(id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: '검증 작업을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Error fetching validation job:', error)
+    return NextResponse.json(
+      { error: '검증 작업 조회 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
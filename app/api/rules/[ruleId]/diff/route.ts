@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRuleLineage, getRuleVersions } from "@/lib/db/rules"
+
+// 두 규칙 버전의 코드와 스펙 조회 (기본값: 최신 버전과 그 직전 버전)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const ruleKey = decodeURIComponent((await params).ruleId)
+    const { searchParams } = new URL(request.url)
+
+    const lineage = await getRuleLineage(ruleKey)
+    if (!lineage) {
+      return NextResponse.json(
+        { error: '규칙을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    const to = parseInt(searchParams.get('to') || '') || lineage.versions.at(-1)?.version || 0
+    const from = parseInt(searchParams.get('from') || '') || to - 1
+
+    if (from < 1 || to < 1 || from === to) {
+      return NextResponse.json(
+        { error: '비교할 두 버전이 필요합니다' },
+        { status: 400 }
+      )
+    }
+
+    const versions = await getRuleVersions(ruleKey, [from, to])
+    const fromVersion = versions?.find(version => version.version === from)
+    const toVersion = versions?.find(version => version.version === to)
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: '규칙 버전을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ruleId: ruleKey, from: fromVersion, to: toVersion })
+  } catch (error) {
+    console.error('Error fetching rule diff:', error)
+    return NextResponse.json(
+      { error: '규칙 버전 비교 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
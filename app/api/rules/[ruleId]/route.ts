@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRuleLineage } from "@/lib/db/rules"
+
+// 규칙의 버전 목록, 점수 추이, 마지막 통과 버전 조회
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const { ruleId } = await params
+    const lineage = await getRuleLineage(decodeURIComponent(ruleId))
+
+    if (!lineage) {
+      return NextResponse.json(
+        { error: '규칙을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(lineage)
+  } catch (error) {
+    console.error('Error fetching rule lineage:', error)
+    return NextResponse.json(
+      { error: '규칙 조회 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
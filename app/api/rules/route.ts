@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server"
+import { listRules } from "@/lib/db/rules"
+
+// 규칙 목록 조회 (최근 검증순)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500)
+
+    return NextResponse.json(await listRules({ search, limit }))
+  } catch (error) {
+    console.error('Error fetching rules:', error)
+    return NextResponse.json(
+      { error: '규칙 목록 조회 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
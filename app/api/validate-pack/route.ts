@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { extractPackArchive, buildRulePack, MAX_PACK_RULES } from '@/lib/analysis/pack'
+import { validateRulePack } from '@/lib/agents/pack-validator'
+import { DEFAULT_VALIDATION_LANGUAGE, ValidationLanguageSchema } from '@/lib/schemas/validation'
+import { getEvaluationMessages } from '@/lib/i18n/evaluation-messages'
+
+const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024
+
+function jsonError(message: string, status: number) {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  const encoder = new TextEncoder()
+
+  try {
+    // multipart/form-data: pack (zip 또는 tar.gz), userId (선택), force=true (선택, 캐시 무시), language (선택, ko|en)
+    const formData = await request.formData()
+    const archive = formData.get('pack')
+    const userId = z.string().uuid().optional().parse(formData.get('userId') ?? undefined)
+    const force = formData.get('force') === 'true'
+    const language = ValidationLanguageSchema.safeParse(formData.get('language') ?? DEFAULT_VALIDATION_LANGUAGE)
+
+    if (!language.success) {
+      return jsonError("language는 'ko' 또는 'en'이어야 합니다", 400)
+    }
+    if (!(archive instanceof File)) {
+      return jsonError('규칙 팩 파일(pack)이 필요합니다', 400)
+    }
+    if (archive.size > MAX_ARCHIVE_BYTES) {
+      return jsonError(`규칙 팩은 ${MAX_ARCHIVE_BYTES / 1024 / 1024}MB 이하여야 합니다`, 400)
+    }
+
+    const { files, skipped } = await extractPackArchive(Buffer.from(await archive.arrayBuffer()))
+    const pack = buildRulePack(files, skipped)
+
+    if (pack.rules.length === 0) {
+      return jsonError('rules/ 디렉터리에서 검증할 규칙을 찾지 못했습니다', 400)
+    }
+    if (pack.rules.length > MAX_PACK_RULES) {
+      return jsonError(`한 번에 최대 ${MAX_PACK_RULES}개 규칙까지 검증할 수 있습니다 (현재 ${pack.rules.length}개)`, 400)
+    }
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const startTime = Date.now()
+        const progress = getEvaluationMessages(language.data).progress
+
+        const send = (data: Record<string, unknown>) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+        }
+
+        try {
+          send({
+            type: 'progress',
+            step: 'pack',
+            message: progress.pack(pack.rules.length),
+            completed: 0,
+            total: pack.rules.length
+          })
+
+          const result = await validateRulePack(pack, {
+            userId,
+            force,
+            language: language.data,
+            onRuleComplete: (rule, completed, total) => {
+              send({
+                type: 'progress',
+                step: 'rule',
+                message: rule.status === 'validated' ? progress.ruleValidated(rule.path) : progress.ruleFailed(rule.path),
+                completed,
+                total
+              })
+            }
+          })
+
+          send({
+            type: 'complete',
+            result,
+            duration: Date.now() - startTime
+          })
+        } catch (error) {
+          console.error('Pack validation error:', error)
+
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            step: 'pack'
+          })
+        }
+
+        controller.close()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+
+  } catch (error) {
+    console.error('Pack request error:', error)
+    return jsonError(error instanceof Error ? error.message : 'Invalid request format', 400)
+  }
+}
\ No newline at end of file
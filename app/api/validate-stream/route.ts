@@ -1,86 +1,75 @@
 import { NextRequest } from "next/server"
-import { invokeClaudeStream, invokeClaude } from "@/lib/bedrock/client"
-
-interface StreamingValidationStep {
-  step: 'syntax' | 'rules' | 'quality' | 'analysis' | 'complete'
-  data?: any
-  error?: string
+import { streamLLMTool } from "@/lib/llm"
+import { repairStructured, toLLMTool } from "@/lib/llm/structured"
+import { createTopLevelJsonReader } from "@/lib/llm/partial-json"
+import { checkPythonSyntax, buildSyntaxErrorResult } from "@/lib/analysis/syntax"
+import { lintPantherRule, type LintFinding } from "@/lib/analysis/linter"
+import { mergeFindings } from "@/lib/analysis/findings"
+import { applyRubric, buildRubricBreakdown, scoreRubric } from "@/lib/analysis/rubric"
+import {
+  buildFallbackOutput,
+  renderValidationSystemPrompt,
+  renderValidationUserPrompt,
+  VALIDATION_TOOL
+} from "@/lib/agents/validation-tool"
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  LLMValidationOutputSchema,
+  ValidationLanguageSchema,
+  type RubricScore,
+  type ScoredValidationOutput
+} from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+// 도구 입력의 최상위 속성과 스트리밍 단계 대응
+const STEP_FIELDS = {
+  ruleCompliance: 'rules',
+  codeQuality: 'quality',
+  detailedAnalysis: 'analysis',
+} as const
+
+type StepField = keyof typeof STEP_FIELDS
+
+function isStepField(key: string): key is StepField {
+  return key in STEP_FIELDS
 }
 
-// 안전한 JSON 추출 함수
-function extractJSON(content: string): any {
-  console.log('Extracting JSON from content:', content.substring(0, 200) + '...')
-
-  // 첫 번째 { 부터 마지막 } 까지 찾기
-  const start = content.indexOf('{')
-  const end = content.lastIndexOf('}')
-
-  if (start !== -1 && end !== -1 && end > start) {
-    const jsonStr = content.substring(start, end + 1)
-    console.log('Attempting to parse JSON:', jsonStr.substring(0, 100) + '...')
-
-    try {
-      const parsed = JSON.parse(jsonStr)
-      console.log('Successfully parsed JSON:', Object.keys(parsed))
-      return parsed
-    } catch (e) {
-      console.warn('JSON parse failed:', e)
-      console.warn('Failed content:', jsonStr.substring(0, 500))
-
-      // JSON 파싱 실패 시 대안 시도
-      try {
-        // 가능한 JSON 수정 시도 (예: 이스케이프 문제)
-        const escapedJson = jsonStr.replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')
-        return JSON.parse(escapedJson)
-      } catch (e2) {
-        console.warn('Alternative JSON parse also failed:', e2)
-        return null
-      }
+// 단계별 전송 데이터 (rules 단계는 정적 분석 결과를 findings 앞에 병합하고, 점수 단계에는 해당 채점 기준 항목을 포함)
+function toStepData(field: StepField, output: Partial<ScoredValidationOutput>, lintFindings: LintFinding[]) {
+  const rubric = output.rubric?.filter(entry => entry.group === field)
+
+  if (field === 'ruleCompliance' && output.ruleCompliance) {
+    return {
+      ...output.ruleCompliance,
+      findings: mergeFindings(lintFindings, output.ruleCompliance.findings),
+      rubric,
     }
   }
-
-  console.warn('No valid JSON boundaries found in content')
-  return null
+  if (field === 'codeQuality' && output.codeQuality) {
+    return { ...output.codeQuality, rubric }
+  }
+  return output[field]
 }
 
-// 더 강력한 마커 감지 함수
-function findStepMarkers(content: string): { start?: { type: string, index: number }, end?: { type: string, index: number } } {
-  const startMatch = content.match(/==STEP_START:(\w+)==/)
-  const endMatch = content.match(/==STEP_END:(\w+)==/)
+// 채점 기준 항목별 점수로 점수 단계의 최종 점수를 채움
+function withScore(field: StepField, value: unknown, rubric: RubricScore[]): Partial<ScoredValidationOutput> {
+  if (field === 'detailedAnalysis') return { detailedAnalysis: value as string }
+  return { [field]: { ...(value as object), score: scoreRubric(rubric, field) }, rubric }
+}
 
-  return {
-    start: startMatch ? { type: startMatch[1], index: startMatch.index! } : undefined,
-    end: endMatch ? { type: endMatch[1], index: endMatch.index! } : undefined
+function parseToolText(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
   }
 }
 
-const PANTHER_RULES_CONTEXT = `
-You are a Python code validator specializing in Panther detection rules. Your task is to evaluate Python code based on the following criteria:
-
-## Panther Detection Rules Guidelines:
-1. Must have a \`rule(event)\` function that returns True for suspicious activity
-2. Should include optional alert functions: severity(), title(), dedup(), runbook()
-3. Use built-in event object functions: get(), deep_get(), deep_walk()
-4. Avoid external API requests within detections
-5. Complete execution within 15 seconds
-6. Use unified data model (UDM) fields when possible
-7. Handle nested and complex event structures safely
-8. Include comprehensive unit tests
-9. Provide clear, actionable context in alerts
-
-## Evaluation Criteria:
-- Precision and targeting of detection logic
-- Performance and efficiency
-- Code readability and maintainability
-- Proper error handling
-- Documentation and comments
-- Security best practices
-`
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { code, action = "validate" } = body
+    const language = ValidationLanguageSchema.safeParse(body.language ?? DEFAULT_VALIDATION_LANGUAGE)
 
     if (!code) {
       return new Response(
@@ -92,158 +81,151 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!language.success) {
+      return new Response(
+        JSON.stringify({ error: "Invalid language. Use 'ko' or 'en'" }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder()
+        const messages = getEvaluationMessages(language.data)
 
         try {
           // Send initial step
           controller.enqueue(
             encoder.encode(`data: ${JSON.stringify({
               step: 'syntax',
-              data: { message: '통합 분석을 시작합니다...' }
+              data: { message: messages.progress.start }
             })}\n\n`)
           )
 
-          // Create a unified prompt for streaming analysis
-          const unifiedPrompt = {
-            messages: [
-              {
-                role: "user" as const,
-                content: `Analyze the following Python detection rule code step by step. Provide a streaming response that includes each analysis step clearly marked.
-
-For each step, output the result in this exact format:
-==STEP_START:syntax==
-{"syntaxCheck": {"isValid": boolean, "errors": ["array of error messages if any"]}}
-==STEP_END:syntax==
-
-==STEP_START:rules==
-{"ruleCompliance": {"score": number (0-100), "findings": ["array of issues"], "suggestions": ["array of improvements"]}}
-==STEP_END:rules==
+          // 구문 검사는 로컬 Python 파서로 수행
+          const syntaxResult = await checkPythonSyntax(code, language.data)
+          const syntaxCheck = {
+            isValid: syntaxResult.isValid,
+            errors: syntaxResult.errors,
+          }
 
-==STEP_START:quality==
-{"codeQuality": {"score": number (0-100), "feedback": "markdown formatted feedback"}}
-==STEP_END:quality==
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({
+              step: 'syntax',
+              data: syntaxCheck
+            })}\n\n`)
+          )
 
-==STEP_START:analysis==
-{"detailedAnalysis": "comprehensive markdown analysis"}
-==STEP_END:analysis==
+          if (!syntaxResult.isValid) {
+            // 파싱되지 않는 코드는 Claude에 보내지 않고 나머지 단계를 즉시 채움
+            const syntaxErrorResult = buildSyntaxErrorResult(syntaxResult, language.data)
+            const remainingSteps = [
+              { step: 'rules', data: syntaxErrorResult.ruleCompliance },
+              { step: 'quality', data: syntaxErrorResult.codeQuality },
+              { step: 'analysis', data: syntaxErrorResult.detailedAnalysis },
+              { step: 'complete', data: { message: messages.progress.syntaxStopped } },
+            ]
+
+            for (const event of remainingSteps) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+            }
 
-Please provide all text content (error messages, findings, suggestions, feedback, analysis) in Korean language.
+            controller.close()
+            return
+          }
 
-Code to analyze:
-\`\`\`python
-${code}
-\`\`\`
+          // AST 기반 Panther 린터 (결정적 결과는 rules 단계 findings 앞에 병합)
+          const lintFindings = await lintPantherRule(code, language.data)
 
-Begin the analysis now, providing each step's result as you complete it.`,
+          // Create a unified prompt for streaming analysis
+          const unifiedPrompt = {
+            messages: [
+              {
+                role: "user" as const,
+                content: renderValidationUserPrompt(code, lintFindings),
               },
             ],
-            system: PANTHER_RULES_CONTEXT,
+            system: renderValidationSystemPrompt(language.data),
             temperature: 0.3,
             max_tokens: 8192,
           }
 
-          let currentStep = ''
-          let streamingContent = ''
-          let processedSteps = new Set<string>()
+          const reader = createTopLevelJsonReader()
+          const sentFields = new Set<StepField>()
+          // 점수 단계는 rubric이 도착해야 점수를 계산할 수 있으므로 그 전에 완성된 속성은 보류
+          const pendingFields = new Map<StepField, unknown>()
+          let rubric: RubricScore[] | null = null
 
-          try {
-            for await (const chunk of invokeClaudeStream(unifiedPrompt)) {
-              streamingContent += chunk
-              console.log('Current streaming content length:', streamingContent.length)
-
-              // 현재 스트림에서 마커들 찾기
-              const markers = findStepMarkers(streamingContent)
-
-              // 새로운 단계 시작 감지
-              if (markers.start && !currentStep && !processedSteps.has(markers.start.type)) {
-                currentStep = markers.start.type
-                console.log(`Starting step: ${currentStep}`)
-
-                // Send step start notification
-                controller.enqueue(
-                  encoder.encode(`data: ${JSON.stringify({
-                    step: currentStep,
-                    data: { message: getStepMessage(currentStep) }
-                  })}\n\n`)
-                )
-
-                // 시작 마커 제거
-                streamingContent = streamingContent.substring(markers.start.index + `==STEP_START:${currentStep}==`.length)
-              }
+          const sendStep = (field: StepField, output: Partial<ScoredValidationOutput>) => {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify({
+                step: STEP_FIELDS[field],
+                data: toStepData(field, output, lintFindings)
+              })}\n\n`)
+            )
+            sentFields.add(field)
+          }
 
-              // 단계 완료 감지
-              if (markers.end && currentStep && markers.end.type === currentStep) {
-                console.log(`Ending step: ${currentStep}`)
-
-                // 마커 전까지의 내용 추출
-                const endMarkerIndex = streamingContent.indexOf(`==STEP_END:${currentStep}==`)
-                const stepContent = streamingContent.substring(0, endMarkerIndex).trim()
-                console.log(`Step ${currentStep} content:`, stepContent.substring(0, 200) + '...')
-
-                // JSON 추출 및 파싱
-                const stepData = extractJSON(stepContent)
-
-                if (stepData) {
-                  // Send the parsed data for this step
-                  if (currentStep === 'syntax' && stepData.syntaxCheck) {
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({
-                        step: currentStep,
-                        data: stepData.syntaxCheck
-                      })}\n\n`)
-                    )
-                  } else if (currentStep === 'rules' && stepData.ruleCompliance) {
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({
-                        step: currentStep,
-                        data: stepData.ruleCompliance
-                      })}\n\n`)
-                    )
-                  } else if (currentStep === 'quality' && stepData.codeQuality) {
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({
-                        step: currentStep,
-                        data: stepData.codeQuality
-                      })}\n\n`)
-                    )
-                  } else if (currentStep === 'analysis' && stepData.detailedAnalysis) {
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({
-                        step: currentStep,
-                        data: stepData.detailedAnalysis
-                      })}\n\n`)
-                    )
-                  } else {
-                    console.warn(`No expected data field found for step ${currentStep}:`, Object.keys(stepData))
-
-                    // 복구 시도: raw 데이터 전송
-                    controller.enqueue(
-                      encoder.encode(`data: ${JSON.stringify({
-                        step: currentStep,
-                        data: stepData,
-                        fallback: true
-                      })}\n\n`)
-                    )
+          try {
+            // 도구 입력 JSON이 도착하는 대로 완성된 속성을 단계 결과로 전송
+            for await (const chunk of streamLLMTool(unifiedPrompt, toLLMTool(VALIDATION_TOOL))) {
+              for (const event of reader.push(chunk)) {
+                if (event.key === 'rubric' && event.type === 'value' && !rubric) {
+                  const field = LLMValidationOutputSchema.shape.rubric.safeParse(event.value)
+                  if (field.success) {
+                    rubric = buildRubricBreakdown(field.data, undefined, language.data)
+                    for (const [pending, value] of pendingFields) {
+                      sendStep(pending, withScore(pending, value, rubric))
+                    }
+                    pendingFields.clear()
                   }
-                } else {
-                  console.warn(`Failed to extract JSON for step ${currentStep}, sending raw content`)
+                  continue
+                }
+
+                if (!isStepField(event.key) || sentFields.has(event.key)) continue
 
-                  // JSON 파싱 실패 시 원본 텍스트 전송
+                if (event.type === 'key') {
+                  const step = STEP_FIELDS[event.key]
                   controller.enqueue(
                     encoder.encode(`data: ${JSON.stringify({
-                      step: currentStep,
-                      data: stepContent,
-                      raw: true
+                      step,
+                      data: { message: messages.streaming.stepDescriptions[step] }
                     })}\n\n`)
                   )
+                  continue
+                }
+
+                const field = LLMValidationOutputSchema.shape[event.key].safeParse(event.value)
+                if (!field.success) continue
+                if (rubric || event.key === 'detailedAnalysis') {
+                  sendStep(event.key, withScore(event.key, field.data, rubric ?? []))
+                } else {
+                  pendingFields.set(event.key, field.data)
                 }
+              }
+            }
+
+            // 형식이 맞지 않아 보내지 못한 단계는 한 번 복구를 요청하고, 그래도 실패하면 정적 분석 기반 결과로 채움
+            const missingFields = (Object.keys(STEP_FIELDS) as StepField[]).filter(field => !sentFields.has(field))
+            if (missingFields.length > 0) {
+              const toolInput = parseToolText(reader.text)
+              const parsed = VALIDATION_TOOL.schema.safeParse(toolInput)
+              let output: ScoredValidationOutput
+
+              if (parsed.success) {
+                output = applyRubric(parsed.data, undefined, language.data)
+              } else {
+                const repaired = await repairStructured(unifiedPrompt, VALIDATION_TOOL, toolInput, parsed.error)
+                output = repaired.success
+                  ? applyRubric(repaired.data, undefined, language.data)
+                  : buildFallbackOutput(lintFindings, repaired.error, language.data)
+              }
 
-                // 단계 완료 처리
-                processedSteps.add(currentStep)
-                streamingContent = streamingContent.substring(endMarkerIndex + `==STEP_END:${currentStep}==`.length)
-                currentStep = ''
+              for (const field of missingFields) {
+                sendStep(field, output)
               }
             }
 
@@ -251,7 +233,7 @@ Begin the analysis now, providing each step's result as you complete it.`,
             controller.enqueue(
               encoder.encode(`data: ${JSON.stringify({
                 step: 'complete',
-                data: { message: '분석이 완료되었습니다.' }
+                data: { message: messages.streaming.stepDescriptions.complete }
               })}\n\n`)
             )
 
@@ -310,14 +292,4 @@ Begin the analysis now, providing each step's result as you complete it.`,
       }
     )
   }
-}
-
-function getStepMessage(step: string): string {
-  const messages = {
-    syntax: '구문 검사를 수행하고 있습니다...',
-    rules: 'Panther 규칙 준수성을 분석하고 있습니다...',
-    quality: '코드 품질을 평가하고 있습니다...',
-    analysis: '상세 분석을 수행하고 있습니다...'
-  }
-  return messages[step as keyof typeof messages] || '분석 중입니다...'
 }
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { validatePythonCode, generateImprovedCode } from "@/lib/agents/python-validator"
+import { DEFAULT_VALIDATION_LANGUAGE, ValidationLanguageSchema } from "@/lib/schemas/validation"
+import { toLegacyValidationResult } from "@/lib/analysis/findings"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { code, action = "validate" } = body
+    const language = ValidationLanguageSchema.safeParse(body.language ?? DEFAULT_VALIDATION_LANGUAGE)
 
     if (!code) {
       return NextResponse.json(
@@ -13,14 +16,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!language.success) {
+      return NextResponse.json(
+        { error: "Invalid language. Use 'ko' or 'en'" },
+        { status: 400 }
+      )
+    }
+
     if (action === "validate") {
-      const result = await validatePythonCode(code)
-      return NextResponse.json(result)
+      // 기존 클라이언트 호환을 위해 findings는 문자열 배열로 반환
+      const result = await validatePythonCode(code, language.data)
+      return NextResponse.json(toLegacyValidationResult(result, language.data))
     } else if (action === "improve") {
-      const validationResult = await validatePythonCode(code)
-      const improvedCode = await generateImprovedCode(code, validationResult)
+      const validationResult = await validatePythonCode(code, language.data)
+      const improvedCode = await generateImprovedCode(code, validationResult, language.data)
       return NextResponse.json({
-        validationResult,
+        validationResult: toLegacyValidationResult(validationResult, language.data),
         improvedCode,
       })
     } else {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getValidationRecord } from "@/lib/db/validations"
+
+// 검증 기록 상세 조회 (코드, 결과, RAG 문서·예제 참조 포함)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const record = await getValidationRecord(id)
+
+    if (!record) {
+      return NextResponse.json(
+        { error: '검증 기록을 찾을 수 없습니다' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    console.error('Error fetching validation:', error)
+    return NextResponse.json(
+      { error: '검증 기록 조회 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
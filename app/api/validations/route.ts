@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ValidationHistoryQuerySchema } from "@/lib/schemas/validation"
+import { listValidationRecords } from "@/lib/db/validations"
+
+// 검증 기록 목록 조회 (사용자, 점수 범위, 기간 필터 및 페이징)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = ValidationHistoryQuerySchema.safeParse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ''))
+    )
+
+    if (!query.success) {
+      const issue = query.error.issues[0]
+      return NextResponse.json(
+        { error: `잘못된 조회 조건입니다 (${issue.path.join('.')}): ${issue.message}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await listValidationRecords(query.data))
+  } catch (error) {
+    console.error('Error fetching validations:', error)
+    return NextResponse.json(
+      { error: '검증 기록 조회 실패' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
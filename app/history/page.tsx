@@ -0,0 +1,303 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ChevronLeft, ChevronRight, Code, ExternalLink, GitBranch, History, RefreshCw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { ValidationHistoryItem } from "@/lib/db/validations"
+
+const PAGE_SIZE = 20
+
+interface HistoryFilters {
+  userId: string
+  ruleId: string
+  minScore: string
+  maxScore: string
+  dateFrom: string // YYYY-MM-DD
+  dateTo: string
+}
+
+const EMPTY_FILTERS: HistoryFilters = { userId: '', ruleId: '', minScore: '', maxScore: '', dateFrom: '', dateTo: '' }
+
+interface HistoryPage {
+  items: Array<Omit<ValidationHistoryItem, 'createdAt'> & { createdAt: string }>
+  total: number
+}
+
+// 날짜 입력은 로컬 시간 기준 하루 전체를 포함하도록 ISO 문자열로 변환
+function buildQuery(filters: HistoryFilters, offset: number) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+  if (filters.userId.trim()) params.set('userId', filters.userId.trim())
+  if (filters.ruleId.trim()) params.set('ruleId', filters.ruleId.trim())
+  if (filters.minScore) params.set('minScore', filters.minScore)
+  if (filters.maxScore) params.set('maxScore', filters.maxScore)
+  if (filters.dateFrom) params.set('dateFrom', new Date(`${filters.dateFrom}T00:00:00`).toISOString())
+  if (filters.dateTo) params.set('dateTo', new Date(`${filters.dateTo}T23:59:59.999`).toISOString())
+  return params.toString()
+}
+
+function scoreClassName(score: number) {
+  return score >= 70 ? "text-green-600" : "text-red-600"
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('ko-KR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// 미리보기에서 빈 줄·주석이 아닌 첫 줄을 표시
+function firstCodeLine(preview: string) {
+  const line = preview.split('\n').find(line => line.trim() && !line.trim().startsWith('#'))
+  return line?.trim() ?? preview.trim()
+}
+
+export default function HistoryPage() {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<HistoryFilters>(EMPTY_FILTERS)
+  const [offset, setOffset] = useState(0)
+  const [page, setPage] = useState<HistoryPage | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/validations?${buildQuery(appliedFilters, offset)}`)
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body?.error || '검증 기록 조회 실패')
+      }
+
+      setPage(body)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '검증 기록 조회 실패')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [appliedFilters, offset])
+
+  // 규칙 버전 이력 페이지에서 ?ruleId=로 연 경우 해당 규칙만 조회
+  useEffect(() => {
+    const ruleId = new URLSearchParams(window.location.search).get('ruleId')
+    if (ruleId) {
+      setFilters(prev => ({ ...prev, ruleId }))
+      setAppliedFilters(prev => ({ ...prev, ruleId }))
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const updateFilter = (key: keyof HistoryFilters) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFilters(prev => ({ ...prev, [key]: e.target.value }))
+  }
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setOffset(0)
+    setAppliedFilters(filters)
+  }
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    setOffset(0)
+    setAppliedFilters(EMPTY_FILTERS)
+  }
+
+  const total = page?.total ?? 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">검증 기록</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                저장된 검증 결과를 조회하고 편집기에서 다시 열 수 있습니다
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" asChild>
+                <a href="/rules" className="flex items-center space-x-2">
+                  <GitBranch className="h-4 w-4" />
+                  <span>규칙 버전 이력</span>
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/validator" className="flex items-center space-x-2">
+                  <Code className="h-4 w-4" />
+                  <span>검증 페이지로</span>
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* 필터 */}
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg">조회 조건</CardTitle>
+            <CardDescription>점수 범위는 규칙 준수성 점수 기준입니다.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="userId">사용자 ID</Label>
+                <Input id="userId" placeholder="UUID" value={filters.userId} onChange={updateFilter('userId')} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ruleId">규칙 ID</Label>
+                <Input id="ruleId" placeholder="RuleID" value={filters.ruleId} onChange={updateFilter('ruleId')} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="minScore">최소 점수</Label>
+                <Input id="minScore" type="number" min={0} max={100} value={filters.minScore} onChange={updateFilter('minScore')} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxScore">최대 점수</Label>
+                <Input id="maxScore" type="number" min={0} max={100} value={filters.maxScore} onChange={updateFilter('maxScore')} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dateFrom">시작일</Label>
+                <Input id="dateFrom" type="date" value={filters.dateFrom} onChange={updateFilter('dateFrom')} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dateTo">종료일</Label>
+                <Input id="dateTo" type="date" value={filters.dateTo} onChange={updateFilter('dateTo')} />
+              </div>
+              <div className="flex gap-2 md:col-span-6 justify-end">
+                <Button type="button" variant="outline" onClick={resetFilters}>초기화</Button>
+                <Button type="submit" disabled={isLoading}>조회</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* 목록 */}
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <History className="h-5 w-5" />
+                검증 결과 ({total})
+              </CardTitle>
+              <Button variant="outline" size="sm" onClick={fetchHistory} disabled={isLoading}>
+                <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {page && page.items.length === 0 ? (
+              <p className="px-6 py-12 text-center text-gray-500">조건에 맞는 검증 기록이 없습니다</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2">일시</th>
+                    <th className="px-2 py-2">코드</th>
+                    <th className="px-2 py-2">구문</th>
+                    <th className="px-2 py-2">준수성</th>
+                    <th className="px-2 py-2">품질</th>
+                    <th className="px-2 py-2">발견 항목</th>
+                    <th className="px-2 py-2">테스트</th>
+                    <th className="px-2 py-2">소요 시간</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {page?.items.map(item => (
+                    <tr key={item.id} className="border-b last:border-0 hover:bg-gray-50">
+                      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-600">{formatDate(item.createdAt)}</td>
+                      <td className="px-2 py-2">
+                        {item.ruleId && (
+                          <a href={`/rules?rule=${encodeURIComponent(item.ruleId)}`} className="text-xs text-blue-600 hover:underline">
+                            {item.ruleId} v{item.ruleVersion}
+                          </a>
+                        )}
+                        <div className="font-mono text-xs truncate max-w-xs">{firstCodeLine(item.codePreview)}</div>
+                        {item.userId && <div className="text-xs text-gray-400 truncate max-w-xs">{item.userId}</div>}
+                      </td>
+                      <td className="px-2 py-2">
+                        <Badge variant={item.syntaxIsValid ? "secondary" : "destructive"}>
+                          {item.syntaxIsValid ? "유효" : "오류"}
+                        </Badge>
+                      </td>
+                      <td className={cn("px-2 py-2 font-semibold", scoreClassName(item.ruleComplianceScore))}>
+                        {item.ruleComplianceScore}
+                      </td>
+                      <td className={cn("px-2 py-2 font-semibold", scoreClassName(item.codeQualityScore))}>
+                        {item.codeQualityScore}
+                      </td>
+                      <td className="px-2 py-2 text-xs">{item.findingCount}</td>
+                      <td className="px-2 py-2 text-xs">
+                        {item.testsTotal !== null ? `${item.testsPassed}/${item.testsTotal}` : "-"}
+                      </td>
+                      <td className="px-2 py-2 text-xs">{(item.totalDurationMs / 1000).toFixed(1)}초</td>
+                      <td className="px-4 py-2 text-right">
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={`/validator?validation=${item.id}`} className="flex items-center gap-1">
+                            <ExternalLink className="h-3 w-3" />
+                            편집기에서 열기
+                          </a>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 페이지 이동 */}
+        {total > 0 && (
+          <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+            <span>
+              {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} / {total}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={isLoading || offset === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={isLoading || offset + PAGE_SIZE >= total}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
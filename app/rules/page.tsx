@@ -0,0 +1,286 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScoreTrajectory, type ScoreTrajectoryPoint } from "@/components/ui/score-trajectory"
+import { RuleVersionDiff, type RuleVersionContent } from "@/components/ui/rule-version-diff"
+import { CheckCircle2, Code, GitCompare, History, RefreshCw, Search } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { RuleSummary, RuleVersionSummary } from "@/lib/db/rules"
+
+type Serialized<T> = Omit<T, 'createdAt' | 'updatedAt'> & { createdAt: string, updatedAt?: string }
+
+interface RuleLineageResponse {
+  ruleId: string
+  versions: Serialized<RuleVersionSummary>[]
+  trajectory: ScoreTrajectoryPoint[]
+  lastPassingVersion: number | null
+  passingScore: number
+}
+
+interface RuleDiffResponse {
+  from: RuleVersionContent
+  to: RuleVersionContent
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  const body = await response.json()
+  if (!response.ok) throw new Error(body?.error || `HTTP error! status: ${response.status}`)
+  return body
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('ko-KR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export default function RulesPage() {
+  const [search, setSearch] = useState('')
+  const [rules, setRules] = useState<Serialized<RuleSummary>[]>([])
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null)
+  const [lineage, setLineage] = useState<RuleLineageResponse | null>(null)
+  const [diff, setDiff] = useState<RuleDiffResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async (term: string) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams(term ? { search: term } : {})
+      setRules(await fetchJson(`/api/rules?${params}`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '규칙 목록 조회 실패')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // 검증 결과 등에서 ?rule=<RuleID>로 연 경우 해당 규칙을 선택
+  useEffect(() => {
+    fetchRules('')
+    const ruleId = new URLSearchParams(window.location.search).get('rule')
+    if (ruleId) setSelectedRuleId(ruleId)
+  }, [fetchRules])
+
+  useEffect(() => {
+    if (!selectedRuleId) return
+
+    setLineage(null)
+    setDiff(null)
+    fetchJson<RuleLineageResponse>(`/api/rules/${encodeURIComponent(selectedRuleId)}`)
+      .then(setLineage)
+      .catch(err => setError(err instanceof Error ? err.message : '규칙 조회 실패'))
+  }, [selectedRuleId])
+
+  const compareWithPrevious = async (version: number) => {
+    if (!selectedRuleId) return
+
+    try {
+      const params = new URLSearchParams({ from: String(version - 1), to: String(version) })
+      setDiff(await fetchJson(`/api/rules/${encodeURIComponent(selectedRuleId)}/diff?${params}`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '규칙 버전 비교 실패')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">규칙 버전 이력</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                RuleID 또는 지정한 규칙 ID별로 버전, 점수 추이, 마지막 통과 버전을 확인합니다
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" asChild>
+                <a href="/history" className="flex items-center space-x-2">
+                  <History className="h-4 w-4" />
+                  <span>검증 기록</span>
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/validator" className="flex items-center space-x-2">
+                  <Code className="h-4 w-4" />
+                  <span>검증 페이지로</span>
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {error && (
+          <Alert variant="destructive" className="lg:col-span-3">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* 규칙 목록 */}
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader className="pb-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                fetchRules(search.trim())
+              }}
+            >
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="규칙 ID 검색..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Button type="submit" variant="outline" size="sm" disabled={isLoading}>
+                <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent className="p-0">
+            {rules.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">
+                규칙 ID 또는 RuleID가 있는 스펙과 함께 검증하면 여기에 표시됩니다
+              </p>
+            ) : (
+              <ul>
+                {rules.map(rule => (
+                  <li key={rule.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedRuleId(rule.ruleId)}
+                      className={cn(
+                        "w-full text-left px-6 py-3 border-t hover:bg-gray-50",
+                        rule.ruleId === selectedRuleId && "bg-blue-50"
+                      )}
+                    >
+                      <div className="font-mono text-sm break-all">{rule.ruleId}</div>
+                      <div className="text-xs text-gray-500">
+                        v{rule.latestVersion ?? 0} · 검증 {rule.validationCount}회 · {formatDate(rule.updatedAt ?? rule.createdAt)}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 규칙 상세 */}
+        <div className="lg:col-span-2 space-y-6">
+          {!selectedRuleId && (
+            <p className="text-center text-gray-500 py-12">왼쪽 목록에서 규칙을 선택하세요</p>
+          )}
+
+          {lineage && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-mono break-all">{lineage.ruleId}</CardTitle>
+                  <CardDescription className="flex flex-wrap gap-2 pt-1">
+                    <Badge variant="outline">버전 {lineage.versions.length}개</Badge>
+                    <Badge variant="outline">검증 {lineage.trajectory.length}회</Badge>
+                    {lineage.lastPassingVersion !== null ? (
+                      <Badge className="bg-green-100 text-green-800">마지막 통과 버전: v{lineage.lastPassingVersion}</Badge>
+                    ) : (
+                      <Badge variant="destructive">통과한 버전 없음</Badge>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScoreTrajectory points={lineage.trajectory} passingScore={lineage.passingScore} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">버전</CardTitle>
+                  <CardDescription>
+                    통과 기준: 구문 오류·error 항목·실패한 테스트가 없고 규칙 준수성 {lineage.passingScore}점 이상
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-gray-50 text-left text-xs text-gray-500">
+                      <tr>
+                        <th className="px-4 py-2">버전</th>
+                        <th className="px-2 py-2">내용 해시</th>
+                        <th className="px-2 py-2">검증</th>
+                        <th className="px-2 py-2">최근 준수성</th>
+                        <th className="px-2 py-2">생성</th>
+                        <th className="px-4 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...lineage.versions].reverse().map(version => (
+                        <tr key={version.version} className="border-b last:border-0">
+                          <td className="px-4 py-2 font-semibold">
+                            v{version.version}
+                            {version.version === lineage.lastPassingVersion && (
+                              <CheckCircle2 className="inline h-4 w-4 ml-1 text-green-600" />
+                            )}
+                          </td>
+                          <td className="px-2 py-2 font-mono text-xs text-gray-500">
+                            {version.contentHash.slice(0, 12)}
+                            {version.hasSpec && <Badge variant="outline" className="ml-2">YAML</Badge>}
+                          </td>
+                          <td className="px-2 py-2 text-xs">{version.validationCount}회</td>
+                          <td className={cn(
+                            "px-2 py-2 font-semibold",
+                            version.latestScore === null ? "text-gray-400" :
+                            version.latestScore >= lineage.passingScore ? "text-green-600" : "text-red-600"
+                          )}>
+                            {version.latestScore ?? "-"}
+                          </td>
+                          <td className="px-2 py-2 text-xs text-gray-600">{formatDate(version.createdAt)}</td>
+                          <td className="px-4 py-2 text-right">
+                            {version.version > 1 && (
+                              <Button variant="outline" size="sm" onClick={() => compareWithPrevious(version.version)}>
+                                <GitCompare className="h-3 w-3 mr-1" />
+                                이전 버전과 비교
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+
+              {diff && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">버전 비교</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <RuleVersionDiff from={diff.from} to={diff.to} />
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
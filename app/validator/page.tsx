@@ -1,15 +1,25 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useEffect, useMemo, useRef, useState } from "react"
 import { SplitView } from "@/components/ui/split-view"
-import { CodeEditor } from "@/components/ui/code-editor"
+import { CodeEditor, type CodeEditorHandle } from "@/components/ui/code-editor"
+import { TestCasesEditor, SAMPLE_TEST_CASES, parseTestCases } from "@/components/ui/test-cases-editor"
+import { SpecEditor } from "@/components/ui/spec-editor"
+import { PackUpload } from "@/components/ui/pack-upload"
+import { PackResultsPanel } from "@/components/ui/pack-results-panel"
 import { EvaluationPanel } from "@/components/ui/evaluation-panel"
 import { StreamingEvaluationPanel } from "@/components/ui/streaming-evaluation-panel"
 import { StructuredEvaluationPanel } from "@/components/ui/structured-evaluation-panel"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useStreamingValidation } from "@/lib/hooks/useStreamingValidation"
 import { useStructuredValidation } from "@/lib/hooks/useStructuredValidation"
+import { usePackValidation } from "@/lib/hooks/usePackValidation"
+import { DEFAULT_VALIDATION_LANGUAGE, normalizeFindings, type Finding, type ValidationLanguage } from "@/lib/schemas/validation"
+import type { ValidationRecordDetail } from "@/lib/db/validations"
+import { History } from "lucide-react"
 
 const SAMPLE_CODE = `def rule(event):
     """
@@ -37,23 +47,106 @@ def severity(event):
     return "MEDIUM"
 `
 
+type ValidationMode = 'streaming' | 'structured' | 'legacy' | 'pack'
+
 export default function ValidatorPage() {
   const [code, setCode] = useState(SAMPLE_CODE)
   const [isValidating, setIsValidating] = useState(false)
   const [validationResult, setValidationResult] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
-  const [validationMode, setValidationMode] = useState<'streaming' | 'structured' | 'legacy'>('structured')
+  const [validationMode, setValidationMode] = useState<ValidationMode>('structured')
+  const [testCasesText, setTestCasesText] = useState(SAMPLE_TEST_CASES)
+  const [specText, setSpecText] = useState("")
+  const [ruleId, setRuleId] = useState("")
+  const [editorTab, setEditorTab] = useState('code')
+  const [packFile, setPackFile] = useState<File | null>(null)
+  const [selectedPackRule, setSelectedPackRule] = useState<string | null>(null)
+  const [language, setLanguage] = useState<ValidationLanguage>(DEFAULT_VALIDATION_LANGUAGE)
+  const [samples, setSamples] = useState(1)
+  const testCases = useMemo(() => parseTestCases(testCasesText), [testCasesText])
 
   const streamingValidation = useStreamingValidation()
   const structuredValidation = useStructuredValidation()
+  const packValidation = usePackValidation()
+  const editorRef = useRef<CodeEditorHandle>(null)
+
+  // 현재 모드의 검증 결과를 편집기 마커로 표시 (legacy 모드는 줄 정보가 없음)
+  const structuredFindings = structuredValidation.result?.ruleCompliance.findings
+  const streamingFindings = streamingValidation.steps.rules?.findings
+  const packRule = packValidation.result?.rules.find(rule => rule.path === selectedPackRule)
+  const packFindings = packRule?.result?.ruleCompliance.findings
+  const editorFindings = useMemo<Finding[]>(() => {
+    if (validationMode === 'structured') return structuredFindings ?? []
+    if (validationMode === 'streaming') return normalizeFindings(streamingFindings ?? [])
+    if (validationMode === 'pack') return packFindings ?? []
+    return []
+  }, [validationMode, structuredFindings, streamingFindings, packFindings])
+
+  const isBusy =
+    validationMode === 'streaming' ? streamingValidation.isStreaming :
+    validationMode === 'structured' ? structuredValidation.isValidating :
+    validationMode === 'pack' ? packValidation.isValidating :
+    isValidating
+
+  // 검증 기록 페이지에서 연 경우 (?validation=<id>) 저장된 코드와 결과를 불러옴
+  const { loadRecord } = structuredValidation
+  useEffect(() => {
+    const validationId = new URLSearchParams(window.location.search).get('validation')
+    if (!validationId) return
+
+    fetch(`/api/validations/${validationId}`)
+      .then(async response => {
+        const body = await response.json()
+        if (!response.ok) throw new Error(body?.error || '검증 기록 조회 실패')
+        return body as ValidationRecordDetail
+      })
+      .then(record => {
+        setValidationMode('structured')
+        setCode(record.code)
+        setLanguage(record.language)
+        if (record.rule) {
+          setRuleId(record.rule.ruleId)
+          setSpecText(record.rule.spec ?? "")
+        }
+        loadRecord({ result: record.result, recordId: record.id, duration: record.totalDurationMs })
+      })
+      .catch(err => setError(err instanceof Error ? err.message : '검증 기록 조회 실패'))
+  }, [loadRecord])
+
+  const handleFindingClick = (finding: Finding) => {
+    if (finding.startLine) {
+      setEditorTab('code')
+      editorRef.current?.revealLines(finding.startLine, finding.endLine)
+    }
+  }
+
+  const startStructuredValidation = async (force = false) => {
+    if (testCases.error) {
+      setError(testCases.error)
+      return
+    }
+    setError(null)
+    structuredValidation.reset()
+    await structuredValidation.startValidation(code, "validate", {
+      tests: testCases.tests,
+      spec: specText.trim() ? specText : undefined,
+      ruleId: ruleId.trim() || undefined,
+      force,
+      language,
+      samples,
+    })
+  }
 
   const handleValidate = async () => {
-    if (validationMode === 'streaming') {
+    if (validationMode === 'pack') {
+      if (!packFile) return
+      setSelectedPackRule(null)
+      await packValidation.startValidation(packFile, { language })
+    } else if (validationMode === 'streaming') {
       streamingValidation.reset()
-      await streamingValidation.startValidation(code, "validate")
+      await streamingValidation.startValidation(code, "validate", language)
     } else if (validationMode === 'structured') {
-      structuredValidation.reset()
-      await structuredValidation.startValidation(code, "validate")
+      await startStructuredValidation()
     } else {
       setIsValidating(true)
       setError(null)
@@ -64,7 +157,7 @@ export default function ValidatorPage() {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ code, action: "validate" }),
+          body: JSON.stringify({ code, action: "validate", language }),
         })
 
         if (!response.ok) {
@@ -91,7 +184,7 @@ export default function ValidatorPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ code, action: "improve" }),
+        body: JSON.stringify({ code, action: "improve", language }),
       })
 
       if (!response.ok) {
@@ -116,31 +209,65 @@ export default function ValidatorPage() {
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold">Python Detection Rule Validator</h1>
           <div className="flex gap-2 items-center">
+            <Button variant="ghost" size="sm" asChild>
+              <a href="/history" className="flex items-center gap-1">
+                <History className="h-4 w-4" />
+                검증 기록
+              </a>
+            </Button>
+            {validationMode === 'structured' && (
+              <Input
+                value={ruleId}
+                onChange={(e) => setRuleId(e.target.value)}
+                placeholder="규칙 ID (선택, 기본값: RuleID)"
+                title="같은 규칙 ID로 검증한 결과는 버전 이력으로 묶입니다"
+                className="h-8 w-56 text-sm"
+              />
+            )}
+            {validationMode === 'structured' && (
+              <select
+                value={samples}
+                onChange={(e) => setSamples(Number(e.target.value))}
+                title="여러 번 평가해 점수의 중앙값과 범위를 표시합니다"
+                className="text-sm border rounded px-2 py-1"
+              >
+                <option value={1}>단일 평가</option>
+                <option value={3}>3회 평가</option>
+                <option value={5}>5회 평가</option>
+              </select>
+            )}
             <select
               value={validationMode}
-              onChange={(e) => setValidationMode(e.target.value as 'streaming' | 'structured' | 'legacy')}
+              onChange={(e) => setValidationMode(e.target.value as ValidationMode)}
               className="text-sm border rounded px-2 py-1"
             >
               <option value="structured">Structured (DB저장)</option>
               <option value="streaming">Streaming</option>
               <option value="legacy">Legacy</option>
+              <option value="pack">Rule Pack (일괄)</option>
+            </select>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as ValidationLanguage)}
+              title="검증 결과 언어"
+              className="text-sm border rounded px-2 py-1"
+            >
+              <option value="ko">한국어</option>
+              <option value="en">English</option>
             </select>
             <Button
               onClick={handleValidate}
-              disabled={
-                (validationMode === 'streaming' ? streamingValidation.isStreaming :
-                 validationMode === 'structured' ? structuredValidation.isValidating :
-                 isValidating) || !code
-              }
+              disabled={isBusy || (validationMode === 'pack' ? !packFile : !code)}
             >
-              {(validationMode === 'streaming' ? streamingValidation.isStreaming :
-                validationMode === 'structured' ? structuredValidation.isValidating :
-                isValidating) ? "Validating..." : "Validate Code"}
+              {isBusy ? "Validating..." : "Validate Code"}
             </Button>
-            {((validationMode === 'streaming' && streamingValidation.isStreaming) ||
-              (validationMode === 'structured' && structuredValidation.isValidating)) && (
+            {validationMode !== 'legacy' && isBusy && (
               <Button
-                onClick={validationMode === 'streaming' ? streamingValidation.cancelValidation : structuredValidation.cancelValidation}
+                onClick={
+                  validationMode === 'streaming' ? streamingValidation.cancelValidation :
+                  validationMode === 'pack' ? packValidation.cancelValidation :
+                  structuredValidation.cancelValidation
+                }
                 variant="outline"
                 size="sm"
               >
@@ -149,16 +276,10 @@ export default function ValidatorPage() {
             )}
             <Button
               onClick={handleImprove}
-              disabled={
-                (validationMode === 'streaming' ? streamingValidation.isStreaming :
-                 validationMode === 'structured' ? structuredValidation.isValidating :
-                 isValidating) || !code
-              }
+              disabled={isBusy || validationMode === 'pack' || !code}
               variant="outline"
             >
-              {(validationMode === 'streaming' ? streamingValidation.isStreaming :
-                validationMode === 'structured' ? structuredValidation.isValidating :
-                isValidating) ? "Improving..." : "Improve Code"}
+              {isBusy ? "Improving..." : "Improve Code"}
             </Button>
           </div>
         </div>
@@ -172,15 +293,60 @@ export default function ValidatorPage() {
       <div className="flex-1 p-6">
         <SplitView
           left={
-            <CodeEditor
-              value={code}
-              onChange={(value) => setCode(value || "")}
-            />
+            validationMode === 'pack' ? (
+              packRule ? (
+                <CodeEditor
+                  ref={editorRef}
+                  value={packRule.code}
+                  findings={editorFindings}
+                  onChange={() => {}}
+                  readOnly
+                  messageLanguage={language}
+                />
+              ) : (
+                <PackUpload
+                  file={packFile}
+                  onFileChange={setPackFile}
+                  disabled={packValidation.isValidating}
+                />
+              )
+            ) : (
+              <Tabs value={editorTab} onValueChange={setEditorTab} className="h-full">
+                <TabsList>
+                  <TabsTrigger value="code">코드</TabsTrigger>
+                  <TabsTrigger value="tests">
+                    테스트 이벤트 ({testCases.tests.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="spec">YAML 스펙</TabsTrigger>
+                </TabsList>
+                {/* 마커와 줄 이동이 유지되도록 편집기는 탭 전환 시에도 마운트 상태 유지 */}
+                <TabsContent value="code" forceMount className="data-[state=inactive]:hidden">
+                  <CodeEditor
+                    ref={editorRef}
+                    value={code}
+                    findings={editorFindings}
+                    onChange={(value) => setCode(value || "")}
+                    messageLanguage={language}
+                  />
+                </TabsContent>
+                <TabsContent value="tests">
+                  <TestCasesEditor
+                    value={testCasesText}
+                    onChange={setTestCasesText}
+                    error={testCases.error}
+                  />
+                </TabsContent>
+                <TabsContent value="spec">
+                  <SpecEditor value={specText} onChange={setSpecText} />
+                </TabsContent>
+              </Tabs>
+            )
           }
           right={
             validationMode === 'streaming' ? (
               <StreamingEvaluationPanel
                 streamingState={streamingValidation}
+                language={language}
               />
             ) : validationMode === 'structured' ? (
               <StructuredEvaluationPanel
@@ -191,11 +357,24 @@ export default function ValidatorPage() {
                 recordId={structuredValidation.recordId}
                 duration={structuredValidation.duration}
                 error={structuredValidation.error}
+                cache={structuredValidation.cache}
+                onFindingClick={handleFindingClick}
+                onRevalidate={() => startStructuredValidation(true)}
+                language={language}
+              />
+            ) : validationMode === 'pack' ? (
+              <PackResultsPanel
+                state={packValidation}
+                selectedPath={selectedPackRule}
+                onSelectRule={setSelectedPackRule}
+                onFindingClick={handleFindingClick}
+                language={language}
               />
             ) : (
               <EvaluationPanel
                 result={validationResult}
                 isLoading={isValidating}
+                language={language}
               />
             )
           }
@@ -0,0 +1,195 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { DiffEditor } from "@monaco-editor/react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { FileCode, GitCompare, RefreshCw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { PromptSummary, PromptVersion } from "@/lib/prompts/registry"
+
+interface VersionDiff {
+  from: PromptVersion
+  to: PromptVersion
+}
+
+export function PromptRegistry() {
+  const [prompts, setPrompts] = useState<PromptSummary[]>([])
+  const [selectedName, setSelectedName] = useState<string | null>(null)
+  const [viewedVersion, setViewedVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPrompts = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/prompts')
+      const body = await response.json()
+      if (!response.ok) throw new Error(body?.error || '프롬프트 목록을 불러오는데 실패했습니다')
+
+      setPrompts(body.prompts)
+      setSelectedName(current => current ?? body.prompts[0]?.name ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '프롬프트 목록 로드 실패')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPrompts()
+  }, [loadPrompts])
+
+  const selected = prompts.find(prompt => prompt.name === selectedName)
+  const viewed = selected?.versions.find(version => version.version === viewedVersion) ?? selected?.versions.at(-1)
+
+  const selectPrompt = (name: string) => {
+    setSelectedName(name)
+    setViewedVersion(null)
+    setDiff(null)
+  }
+
+  const compareWithPrevious = (version: PromptVersion) => {
+    const index = selected?.versions.indexOf(version) ?? -1
+    if (!selected || index < 1) return
+    setDiff({ from: selected.versions[index - 1], to: version })
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          프롬프트는 lib/prompts/templates.ts에서 관리하며, 검증 기록에는 사용한 프롬프트의 &quot;이름@버전&quot;이 저장됩니다.
+        </p>
+        <Button variant="outline" size="sm" onClick={loadPrompts} disabled={isLoading}>
+          <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* 프롬프트 목록 */}
+        <ul className="lg:col-span-1 border rounded-md h-fit">
+          {prompts.map(prompt => (
+            <li key={prompt.name}>
+              <button
+                type="button"
+                onClick={() => selectPrompt(prompt.name)}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b last:border-0 hover:bg-gray-50",
+                  prompt.name === selectedName && "bg-blue-50"
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-sm">{prompt.name}</span>
+                  <Badge variant="outline">v{prompt.currentVersion}</Badge>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">{prompt.description}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* 프롬프트 상세 */}
+        {selected && viewed && (
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {selected.variables.map(variable => (
+                <Badge key={variable} variant="outline" className="font-mono">{`{{${variable}}}`}</Badge>
+              ))}
+              {selected.includes.map(name => (
+                <Badge key={name} className="bg-purple-100 text-purple-800 font-mono">{`{{>${name}}}`}</Badge>
+              ))}
+              {selected.variables.length === 0 && selected.includes.length === 0 && (
+                <span className="text-gray-500">변수 없음</span>
+              )}
+            </div>
+
+            <table className="w-full text-sm border rounded-md">
+              <thead className="border-b bg-gray-50 text-left text-xs text-gray-500">
+                <tr>
+                  <th className="px-4 py-2">버전</th>
+                  <th className="px-2 py-2">변경 내용</th>
+                  <th className="px-2 py-2">생성</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {[...selected.versions].reverse().map(version => (
+                  <tr
+                    key={version.version}
+                    className={cn("border-b last:border-0", version === viewed && "bg-blue-50")}
+                  >
+                    <td className="px-4 py-2 font-semibold">
+                      v{version.version}
+                      {version.version === selected.currentVersion && (
+                        <Badge className="ml-2 bg-green-100 text-green-800">현재</Badge>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-xs">{version.changelog}</td>
+                    <td className="px-2 py-2 text-xs text-gray-600">{version.createdAt}</td>
+                    <td className="px-4 py-2 text-right space-x-1 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => setViewedVersion(version.version)}>
+                        <FileCode className="h-3 w-3 mr-1" />
+                        보기
+                      </Button>
+                      {version !== selected.versions[0] && (
+                        <Button variant="outline" size="sm" onClick={() => compareWithPrevious(version)}>
+                          <GitCompare className="h-3 w-3 mr-1" />
+                          이전 버전과 비교
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {diff ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span className="font-mono">
+                    {selected.name}@{diff.from.version} → {selected.name}@{diff.to.version}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setDiff(null)}>닫기</Button>
+                </div>
+                <DiffEditor
+                  height="420px"
+                  language="markdown"
+                  theme="vs-dark"
+                  original={diff.from.template}
+                  modified={diff.to.template}
+                  options={{
+                    readOnly: true,
+                    renderSideBySide: true,
+                    minimap: { enabled: false },
+                    fontSize: 13,
+                    wordWrap: "on",
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                  }}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-600 font-mono">{selected.name}@{viewed.version}</div>
+                <pre className="bg-gray-50 border rounded-md p-4 text-xs whitespace-pre-wrap max-h-[420px] overflow-auto">
+                  {viewed.template}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
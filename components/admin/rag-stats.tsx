@@ -25,6 +25,18 @@ interface RAGStatsData {
   documentTypes: Record<string, number>
   exampleCategories: Record<string, number>
   lastUpdated?: string
+  embeddings?: {
+    provider: string
+    modelId: string
+    dimensions: number
+    stale: number // 임베딩이 없거나 다른 모델로 만든 행
+    cache?: {
+      memoryHits: number
+      databaseHits: number
+      misses: number
+      hitRate: number // 0-1, 서버 프로세스 시작 이후
+    }
+  }
 }
 
 interface SearchTestResult {
@@ -126,6 +138,16 @@ export function RAGStats() {
         </Alert>
       )}
 
+      {/* 다른 모델로 만든 벡터가 섞여 있으면 검색 점수를 비교할 수 없음 */}
+      {stats?.embeddings && stats.embeddings.stale > 0 && (
+        <Alert>
+          <AlertDescription>
+            현재 임베딩 모델({stats.embeddings.modelId})로 만들지 않았거나 임베딩이 없는 문서·예제가 {stats.embeddings.stale}개 있습니다.
+            <code className="mx-1">pnpm run db:reembed</code>로 다시 임베딩하세요.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* 상단 액션 바 */}
       <div className="flex justify-between items-center">
         <div className="flex items-center space-x-2">
@@ -133,6 +155,17 @@ export function RAGStats() {
           <span className="text-sm text-gray-600">
             마지막 업데이트: {stats?.lastUpdated ? new Date(stats.lastUpdated).toLocaleString('ko-KR') : '알 수 없음'}
           </span>
+          {stats?.embeddings && (
+            <Badge variant="outline">
+              {stats.embeddings.provider} · {stats.embeddings.modelId} ({stats.embeddings.dimensions}차원)
+            </Badge>
+          )}
+          {stats?.embeddings?.cache && (
+            <Badge variant="outline">
+              임베딩 캐시 적중률 {Math.round(stats.embeddings.cache.hitRate * 100)}%
+              ({stats.embeddings.cache.memoryHits + stats.embeddings.cache.databaseHits}/{stats.embeddings.cache.memoryHits + stats.embeddings.cache.databaseHits + stats.embeddings.cache.misses})
+            </Badge>
+          )}
         </div>
         <Button
           variant="outline"
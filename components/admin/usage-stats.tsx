@@ -0,0 +1,194 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Calendar, Coins, Cpu, RefreshCw, Users } from "lucide-react"
+import type { UsageStats as UsageStatsData, UsageTotals } from "@/lib/db/usage"
+
+const PERIODS = [7, 30, 90]
+
+function formatNumber(value: number) {
+  return value.toLocaleString('ko-KR')
+}
+
+function formatCost(value: number) {
+  return `$${value.toFixed(value >= 1 ? 2 : 4)}`
+}
+
+function UsageRow({ label, usage }: { label: React.ReactNode, usage: UsageTotals }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="px-4 py-2">{label}</td>
+      <td className="px-2 py-2 text-right">{formatNumber(usage.validations)}</td>
+      <td className="px-2 py-2 text-right">{formatNumber(usage.llmCalls)}</td>
+      <td className="px-2 py-2 text-right">{formatNumber(usage.inputTokens)}</td>
+      <td className="px-2 py-2 text-right">{formatNumber(usage.outputTokens)}</td>
+      <td className="px-2 py-2 text-right">{formatNumber(usage.embeddingCalls)}</td>
+      <td className="px-4 py-2 text-right font-semibold">{formatCost(usage.estimatedCostUsd)}</td>
+    </tr>
+  )
+}
+
+function UsageTable({ firstColumn, children }: { firstColumn: string, children: React.ReactNode }) {
+  return (
+    <table className="w-full text-sm">
+      <thead className="border-b bg-gray-50 text-xs text-gray-500">
+        <tr>
+          <th className="px-4 py-2 text-left">{firstColumn}</th>
+          <th className="px-2 py-2 text-right">검증</th>
+          <th className="px-2 py-2 text-right">LLM 호출</th>
+          <th className="px-2 py-2 text-right">입력 토큰</th>
+          <th className="px-2 py-2 text-right">출력 토큰</th>
+          <th className="px-2 py-2 text-right">임베딩 호출</th>
+          <th className="px-4 py-2 text-right">예상 비용</th>
+        </tr>
+      </thead>
+      <tbody>{children}</tbody>
+    </table>
+  )
+}
+
+export function UsageStats() {
+  const [days, setDays] = useState(30)
+  const [usage, setUsage] = useState<UsageStatsData | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/stats?days=${days}`)
+      const body = await response.json()
+      if (!response.ok) throw new Error(body?.error || '사용량 통계를 불러오는데 실패했습니다')
+
+      setUsage(body.usage)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '사용량 통계 로드 실패')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    loadUsage()
+  }, [loadUsage])
+
+  const totals = usage?.totals
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div className="flex space-x-2">
+          {PERIODS.map(period => (
+            <Button
+              key={period}
+              variant={period === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDays(period)}
+            >
+              최근 {period}일
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" onClick={loadUsage} disabled={isLoading} className="flex items-center space-x-2">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>새로고침</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">예상 비용</CardTitle>
+            <Coins className="h-4 w-4 text-orange-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{formatCost(totals?.estimatedCostUsd ?? 0)}</div>
+            <p className="text-xs text-gray-600 mt-1">검증 {formatNumber(totals?.validations ?? 0)}건</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">LLM 토큰</CardTitle>
+            <Cpu className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">
+              {formatNumber((totals?.inputTokens ?? 0) + (totals?.outputTokens ?? 0))}
+            </div>
+            <p className="text-xs text-gray-600 mt-1">
+              입력 {formatNumber(totals?.inputTokens ?? 0)} · 출력 {formatNumber(totals?.outputTokens ?? 0)} · 호출 {formatNumber(totals?.llmCalls ?? 0)}회
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">임베딩</CardTitle>
+            <Cpu className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatNumber(totals?.embeddingCalls ?? 0)}회</div>
+            <p className="text-xs text-gray-600 mt-1">토큰 {formatNumber(totals?.embeddingTokens ?? 0)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Calendar className="h-5 w-5" />
+            <span>일별 사용량</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {usage && usage.byDay.length > 0 ? (
+            <UsageTable firstColumn="날짜">
+              {usage.byDay.map(row => <UsageRow key={row.date} label={row.date} usage={row} />)}
+            </UsageTable>
+          ) : (
+            <p className="text-gray-500 text-center py-4">기간 내 검증 기록이 없습니다</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>사용자별 사용량</span>
+          </CardTitle>
+          <CardDescription>예상 비용이 큰 순서로 최대 50명</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {usage && usage.byUser.length > 0 ? (
+            <UsageTable firstColumn="사용자">
+              {usage.byUser.map(row => (
+                <UsageRow
+                  key={row.userId ?? 'anonymous'}
+                  label={row.userId
+                    ? <span className="font-mono text-xs">{row.userId}</span>
+                    : <span className="text-gray-500">(사용자 ID 없음)</span>}
+                  usage={row}
+                />
+              ))}
+            </UsageTable>
+          ) : (
+            <p className="text-gray-500 text-center py-4">기간 내 검증 기록이 없습니다</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,16 +1,110 @@
 "use client"
 
-import React from "react"
-import Editor from "@monaco-editor/react"
+import React, { useEffect, useImperativeHandle, useRef, useState } from "react"
+import Editor, { type Monaco, type OnMount } from "@monaco-editor/react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { type Finding, type FindingSeverity, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+type MonacoEditorInstance = Parameters<OnMount>[0]
+
+export interface CodeEditorHandle {
+  revealLines: (startLine: number, endLine?: number) => void
+}
 
 interface CodeEditorProps {
   value: string
   onChange: (value: string | undefined) => void
   className?: string
+  findings?: Finding[]
+  readOnly?: boolean
+  ref?: React.Ref<CodeEditorHandle>
+  messageLanguage?: ValidationLanguage // 마커에 표시할 출처 이름의 언어
+}
+
+const MARKER_OWNER = "panther-validator"
+
+function toMarkerSeverity(monaco: Monaco, severity: FindingSeverity) {
+  switch (severity) {
+    case "error":
+      return monaco.MarkerSeverity.Error
+    case "warning":
+      return monaco.MarkerSeverity.Warning
+    case "info":
+      return monaco.MarkerSeverity.Info
+  }
 }
 
-export function CodeEditor({ value, onChange, className }: CodeEditorProps) {
+export function CodeEditor({ value, onChange, className, findings = [], readOnly = false, ref, messageLanguage }: CodeEditorProps) {
+  const editorRef = useRef<MonacoEditorInstance | null>(null)
+  const monacoRef = useRef<Monaco | null>(null)
+  const decorationsRef = useRef<ReturnType<MonacoEditorInstance['createDecorationsCollection']> | null>(null)
+  const [isMounted, setIsMounted] = useState(false)
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor
+    monacoRef.current = monaco
+    decorationsRef.current = editor.createDecorationsCollection()
+    setIsMounted(true)
+  }
+
+  useImperativeHandle(ref, () => ({
+    revealLines: (startLine, endLine = startLine) => {
+      const editor = editorRef.current
+      const model = editor?.getModel()
+      if (!editor || !model) return
+
+      const lineCount = model.getLineCount()
+      const start = Math.min(Math.max(startLine, 1), lineCount)
+      const end = Math.min(Math.max(endLine, start), lineCount)
+
+      editor.revealLinesInCenter(start, end)
+      editor.setSelection({
+        startLineNumber: start,
+        startColumn: 1,
+        endLineNumber: end,
+        endColumn: model.getLineMaxColumn(end),
+      })
+      editor.focus()
+    },
+  }), [])
+
+  // 줄 정보가 있는 finding을 마커(물결 밑줄 + 호버)와 거터 아이콘으로 표시
+  useEffect(() => {
+    const editor = editorRef.current
+    const monaco = monacoRef.current
+    const model = editor?.getModel()
+    if (!isMounted || !editor || !monaco || !model) return
+
+    const sourceLabels = getEvaluationMessages(messageLanguage).findings.source
+    const lineCount = model.getLineCount()
+    const located = findings
+      .filter(finding => finding.startLine)
+      .map(finding => {
+        const startLine = Math.min(finding.startLine!, lineCount)
+        const endLine = Math.min(Math.max(finding.endLine ?? startLine, startLine), lineCount)
+        return { finding, startLine, endLine }
+      })
+
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, located.map(({ finding, startLine, endLine }) => ({
+      severity: toMarkerSeverity(monaco, finding.severity),
+      message: finding.message,
+      source: `${sourceLabels[finding.source]}${finding.ruleCode ? ` ${finding.ruleCode}` : ''}`,
+      startLineNumber: startLine,
+      startColumn: model.getLineFirstNonWhitespaceColumn(startLine) || 1,
+      endLineNumber: endLine,
+      endColumn: model.getLineMaxColumn(endLine),
+    })))
+
+    decorationsRef.current?.set(located.map(({ finding, startLine }) => ({
+      range: new monaco.Range(startLine, 1, startLine, 1),
+      options: {
+        glyphMarginClassName: `finding-glyph finding-glyph-${finding.severity}`,
+        glyphMarginHoverMessage: { value: finding.message },
+      },
+    })))
+  }, [findings, isMounted, messageLanguage])
+
   return (
     <Card className={className}>
       <CardHeader>
@@ -23,10 +117,13 @@ export function CodeEditor({ value, onChange, className }: CodeEditorProps) {
           theme="vs-dark"
           value={value}
           onChange={onChange}
+          onMount={handleMount}
           options={{
             minimap: { enabled: false },
+            readOnly,
             fontSize: 14,
             lineNumbers: "on",
+            glyphMargin: true,
             roundedSelection: false,
             scrollBeyondLastLine: false,
             automaticLayout: true,
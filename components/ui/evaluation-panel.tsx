@@ -8,6 +8,8 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { cn } from "@/lib/utils"
+import type { ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
 
 interface EvaluationResult {
   syntaxCheck: {
@@ -30,18 +32,21 @@ interface EvaluationPanelProps {
   result: EvaluationResult | null
   isLoading?: boolean
   className?: string
+  language?: ValidationLanguage
 }
 
-export function EvaluationPanel({ result, isLoading, className }: EvaluationPanelProps) {
+export function EvaluationPanel({ result, isLoading, className, language }: EvaluationPanelProps) {
+  const messages = getEvaluationMessages(language).legacy
+
   if (isLoading) {
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle>Evaluation Results</CardTitle>
+          <CardTitle>{messages.title}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-center h-96">
-            <div className="animate-pulse text-muted-foreground">Analyzing code...</div>
+            <div className="animate-pulse text-muted-foreground">{messages.analyzing}</div>
           </div>
         </CardContent>
       </Card>
@@ -52,11 +57,11 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle>Evaluation Results</CardTitle>
+          <CardTitle>{messages.title}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="text-muted-foreground">
-            Enter Python code and click "Validate" to see evaluation results.
+            {messages.empty}
           </div>
         </CardContent>
       </Card>
@@ -73,13 +78,13 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
     <Card className={className}>
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
-          <span>Evaluation Results</span>
+          <span>{messages.title}</span>
           <div className="flex gap-2">
             <Badge className={cn(getScoreBadgeColor(result.ruleCompliance.score))}>
-              Rules: {result.ruleCompliance.score}%
+              {messages.rules}: {result.ruleCompliance.score}%
             </Badge>
             <Badge className={cn(getScoreBadgeColor(result.codeQuality.score))}>
-              Quality: {result.codeQuality.score}%
+              {messages.quality}: {result.codeQuality.score}%
             </Badge>
           </div>
         </CardTitle>
@@ -87,25 +92,25 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
       <CardContent>
         <Tabs defaultValue="overview" className="w-full">
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="syntax">Syntax</TabsTrigger>
-            <TabsTrigger value="rules">Rules</TabsTrigger>
-            <TabsTrigger value="analysis">Analysis</TabsTrigger>
+            <TabsTrigger value="overview">{messages.overview}</TabsTrigger>
+            <TabsTrigger value="syntax">{messages.syntax}</TabsTrigger>
+            <TabsTrigger value="rules">{messages.rules}</TabsTrigger>
+            <TabsTrigger value="analysis">{messages.analysis}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
             <div className="space-y-4">
               <Alert className={result.syntaxCheck.isValid ? "border-green-500" : "border-red-500"}>
-                <AlertTitle>Syntax Check</AlertTitle>
+                <AlertTitle>{messages.syntaxCheck}</AlertTitle>
                 <AlertDescription>
                   {result.syntaxCheck.isValid
-                    ? "✓ No syntax errors found"
-                    : `✗ ${result.syntaxCheck.errors?.length} syntax errors found`}
+                    ? messages.noSyntaxErrors
+                    : messages.syntaxErrorCount(result.syntaxCheck.errors?.length ?? 0)}
                 </AlertDescription>
               </Alert>
 
               <div className="space-y-2">
-                <h3 className="font-semibold">Code Quality Feedback</h3>
+                <h3 className="font-semibold">{messages.qualityFeedback}</h3>
                 <div className="text-sm text-muted-foreground">
                   <ReactMarkdown remarkPlugins={[remarkGfm]}>
                     {result.codeQuality.feedback}
@@ -119,7 +124,7 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
             <div className="space-y-2">
               {result.syntaxCheck.isValid ? (
                 <Alert className="border-green-500">
-                  <AlertDescription>All syntax checks passed</AlertDescription>
+                  <AlertDescription>{messages.syntaxPassed}</AlertDescription>
                 </Alert>
               ) : (
                 <div className="space-y-2">
@@ -136,7 +141,7 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
           <TabsContent value="rules">
             <div className="space-y-4">
               <div className="space-y-2">
-                <h3 className="font-semibold">Panther Rules Findings</h3>
+                <h3 className="font-semibold">{messages.rulesFindings}</h3>
                 {result.ruleCompliance.findings.length > 0 ? (
                   <ul className="list-disc list-inside space-y-1 text-sm">
                     {result.ruleCompliance.findings.map((finding, idx) => (
@@ -144,12 +149,12 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
                     ))}
                   </ul>
                 ) : (
-                  <p className="text-sm text-muted-foreground">No issues found</p>
+                  <p className="text-sm text-muted-foreground">{messages.noIssues}</p>
                 )}
               </div>
 
               <div className="space-y-2">
-                <h3 className="font-semibold">Improvement Suggestions</h3>
+                <h3 className="font-semibold">{messages.suggestions}</h3>
                 {result.ruleCompliance.suggestions.length > 0 ? (
                   <ul className="list-disc list-inside space-y-1 text-sm">
                     {result.ruleCompliance.suggestions.map((suggestion, idx) => (
@@ -157,7 +162,7 @@ export function EvaluationPanel({ result, isLoading, className }: EvaluationPane
                     ))}
                   </ul>
                 ) : (
-                  <p className="text-sm text-muted-foreground">Code follows best practices</p>
+                  <p className="text-sm text-muted-foreground">{messages.noSuggestions}</p>
                 )}
               </div>
             </div>
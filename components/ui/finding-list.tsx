@@ -0,0 +1,93 @@
+"use client"
+
+import React from "react"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, AlertTriangle, Info } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { type Finding, type FindingSeverity, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages, type EvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+interface FindingListProps {
+  findings: Finding[]
+  className?: string
+  onFindingClick?: (finding: Finding) => void
+  sampleCount?: number // 여러 샘플로 검증한 경우 샘플 수 (발견 항목의 agreement와 함께 표시)
+  language?: ValidationLanguage
+}
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+}
+
+const severityStyles: Record<FindingSeverity, { icon: typeof AlertCircle, className: string }> = {
+  error: { icon: AlertCircle, className: "text-red-600" },
+  warning: { icon: AlertTriangle, className: "text-amber-600" },
+  info: { icon: Info, className: "text-blue-600" },
+}
+
+function formatLineRange(finding: Finding, messages: EvaluationMessages['findings']): string | null {
+  if (!finding.startLine) return null
+  return messages.lineRange(finding.startLine, finding.endLine)
+}
+
+export function FindingList({ findings, className, onFindingClick, sampleCount, language }: FindingListProps) {
+  const messages = getEvaluationMessages(language).findings
+  // 심각도 순 정렬 (동일 심각도는 줄 번호 순)
+  const sortedFindings = [...findings].sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    (a.startLine ?? Number.MAX_SAFE_INTEGER) - (b.startLine ?? Number.MAX_SAFE_INTEGER)
+  )
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {sortedFindings.map((finding) => {
+        const { icon: Icon, className: severityClassName } = severityStyles[finding.severity]
+        const label = messages.severity[finding.severity]
+        const lineRange = formatLineRange(finding, messages)
+        // 줄 정보가 있는 항목만 편집기로 이동 가능
+        const isClickable = Boolean(onFindingClick && finding.startLine)
+
+        return (
+          <li
+            key={finding.id}
+            className={cn("rounded-md border p-2 text-sm", isClickable && "cursor-pointer hover:bg-gray-50")}
+            onClick={isClickable ? () => onFindingClick!(finding) : undefined}
+            title={isClickable ? messages.jumpToLine : undefined}
+          >
+            <div className="flex items-start gap-2">
+              <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", severityClassName)} aria-label={label} />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-1">
+                  {lineRange && (
+                    <span className="font-mono text-xs text-gray-500">{lineRange}</span>
+                  )}
+                  <Badge variant="outline" className="text-xs">{finding.category}</Badge>
+                  <Badge variant={finding.source === 'llm' ? "secondary" : "outline"} className="text-xs">
+                    {messages.source[finding.source]}{finding.ruleCode ? ` ${finding.ruleCode}` : ''}
+                  </Badge>
+                  {finding.agreement && sampleCount && sampleCount > 1 && (
+                    <Badge
+                      variant="outline"
+                      className={cn("text-xs", finding.agreement < sampleCount / 2 && "text-gray-400")}
+                      title={messages.agreementTitle(finding.agreement, sampleCount)}
+                    >
+                      {messages.agreement(finding.agreement, sampleCount)}
+                    </Badge>
+                  )}
+                </div>
+                <p className={severityClassName}>{finding.message}</p>
+                {finding.suggestedReplacement && (
+                  <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">
+                    <code>{finding.suggestedReplacement}</code>
+                  </pre>
+                )}
+              </div>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
\ No newline at end of file
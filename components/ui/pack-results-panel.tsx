@@ -0,0 +1,236 @@
+"use client"
+
+import React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { StructuredEvaluationPanel } from "@/components/ui/structured-evaluation-panel"
+import { AlertCircle, ArrowLeft, Loader2, Package } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { type PackValidationState } from "@/lib/hooks/usePackValidation"
+import { type Finding, type PackRuleResult, type ValidationLanguage } from "@/lib/schemas/validation"
+
+interface PackResultsPanelProps {
+  state: PackValidationState
+  selectedPath: string | null
+  onSelectRule: (path: string | null) => void
+  onFindingClick?: (finding: Finding) => void
+  language?: ValidationLanguage // 규칙 상세 패널의 표시 언어
+}
+
+function scoreClassName(score: number | undefined | null) {
+  if (score === undefined || score === null) return "text-gray-400"
+  return score >= 70 ? "text-green-600" : "text-red-600"
+}
+
+function countErrors(rule: PackRuleResult) {
+  return rule.result?.ruleCompliance.findings.filter(finding => finding.severity === "error").length ?? 0
+}
+
+export function PackResultsPanel({ state, selectedPath, onSelectRule, onFindingClick, language }: PackResultsPanelProps) {
+  const { isValidating, message, completed, total, result, duration, error } = state
+  const selectedRule = result?.rules.find(rule => rule.path === selectedPath)
+
+  // 규칙 상세 - 단일 규칙 검증과 동일한 패널로 표시
+  if (selectedRule) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="flex items-center gap-2 px-6 pt-6">
+          <Button variant="outline" size="sm" onClick={() => onSelectRule(null)}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            팩 결과
+          </Button>
+          <span className="font-mono text-sm truncate">{selectedRule.path}</span>
+          {selectedRule.ruleId && <Badge variant="outline">{selectedRule.ruleId}</Badge>}
+          {selectedRule.cached && <Badge variant="secondary">캐시된 결과</Badge>}
+        </div>
+        <div className="flex-1 min-h-0">
+          <StructuredEvaluationPanel
+            isValidating={false}
+            currentStep="complete"
+            progressSteps={[]}
+            result={selectedRule.result ?? null}
+            recordId={selectedRule.recordId ?? null}
+            duration={selectedRule.durationMs}
+            error={selectedRule.error ?? null}
+            onFindingClick={onFindingClick}
+            language={language}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  if (!isValidating && !result && !error) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-500">
+        <div className="text-center">
+          <Package className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+          <p>rules/, global_helpers/, data_models/ 구조의 zip 또는 tar.gz 규칙 팩을 업로드하세요</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      {error && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              오류 발생
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {isValidating && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+              규칙 팩 검증 중 ({completed}/{total})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Progress value={total > 0 ? (completed / total) * 100 : 0} className="mb-2" />
+            {message && <p className="text-sm text-gray-600">{message}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>규칙 팩 요약</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  규칙 준수성 평균:{" "}
+                  <span className={cn("font-semibold", scoreClassName(result.summary.averageRuleComplianceScore))}>
+                    {result.summary.averageRuleComplianceScore ?? "-"}
+                  </span>
+                </div>
+                <div>
+                  코드 품질 평균:{" "}
+                  <span className={cn("font-semibold", scoreClassName(result.summary.averageCodeQualityScore))}>
+                    {result.summary.averageCodeQualityScore ?? "-"}
+                  </span>
+                </div>
+                <div>검증된 규칙: {result.summary.validatedRules}/{result.summary.totalRules}</div>
+                <div>단위 테스트: {result.summary.testsPassed}/{result.summary.testsTotal} 통과</div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {result.summary.failedRules > 0 && (
+                  <Badge variant="destructive">검증 실패 {result.summary.failedRules}</Badge>
+                )}
+                {result.summary.syntaxErrorRules > 0 && (
+                  <Badge variant="destructive">구문 오류 {result.summary.syntaxErrorRules}</Badge>
+                )}
+                <Badge variant="outline">오류 {result.summary.findingCounts.error}</Badge>
+                <Badge variant="outline">경고 {result.summary.findingCounts.warning}</Badge>
+                <Badge variant="outline">정보 {result.summary.findingCounts.info}</Badge>
+                {duration && <Badge variant="secondary">{Math.round(duration / 1000)}초</Badge>}
+              </div>
+              {(result.helpers.length > 0 || result.dataModels.length > 0) && (
+                <p className="text-xs text-gray-500">
+                  global_helpers {result.helpers.length}개, data_models {result.dataModels.length}개 포함
+                  {result.helpers.length > 0 && " (global_helpers는 실행하지 않고 정적 검사만 합니다)"}
+                </p>
+              )}
+              {result.helperChecks.some(check => check.findings.length > 0) && (
+                <details className="text-xs text-gray-500">
+                  <summary className="cursor-pointer">
+                    global_helpers 발견 항목 {result.helperChecks.reduce((sum, check) => sum + check.findings.length, 0)}개
+                  </summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {result.helperChecks.flatMap(check => check.findings.map(finding => (
+                      <li key={`${check.name}-${finding.id}`}>
+                        <span className="font-mono">{check.name}{finding.startLine ? `:${finding.startLine}` : ""}</span> - {finding.message}
+                      </li>
+                    )))}
+                  </ul>
+                </details>
+              )}
+              {result.skipped.length > 0 && (
+                <details className="text-xs text-gray-500">
+                  <summary className="cursor-pointer">건너뛴 파일 {result.skipped.length}개</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {result.skipped.map(file => (
+                      <li key={file.path}>
+                        <span className="font-mono">{file.path}</span> - {file.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>규칙별 결과</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2">규칙</th>
+                    <th className="px-2 py-2">구문</th>
+                    <th className="px-2 py-2">준수성</th>
+                    <th className="px-2 py-2">품질</th>
+                    <th className="px-2 py-2">테스트</th>
+                    <th className="px-2 py-2">오류</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rules.map(rule => (
+                    <tr
+                      key={rule.path}
+                      className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                      onClick={() => onSelectRule(rule.path)}
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-mono text-xs break-all">{rule.path}</div>
+                        {rule.ruleId && <div className="text-xs text-gray-500">{rule.ruleId}</div>}
+                        {rule.error && <div className="text-xs text-red-600">{rule.error}</div>}
+                      </td>
+                      <td className="px-2 py-2">
+                        {rule.result ? (
+                          <Badge variant={rule.result.syntaxCheck.isValid ? "secondary" : "destructive"}>
+                            {rule.result.syntaxCheck.isValid ? "유효" : "오류"}
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">실패</Badge>
+                        )}
+                      </td>
+                      <td className={cn("px-2 py-2 font-semibold", scoreClassName(rule.result?.ruleCompliance.score))}>
+                        {rule.result?.ruleCompliance.score ?? "-"}
+                      </td>
+                      <td className={cn("px-2 py-2 font-semibold", scoreClassName(rule.result?.codeQuality.score))}>
+                        {rule.result?.codeQuality.score ?? "-"}
+                      </td>
+                      <td className="px-2 py-2 text-xs">
+                        {rule.result?.testResults && !rule.result.testResults.skipped
+                          ? `${rule.result.testResults.passed}/${rule.result.testResults.total}`
+                          : "-"}
+                      </td>
+                      <td className="px-2 py-2 text-xs">{countErrors(rule)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+"use client"
+
+import React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { FileArchive } from "lucide-react"
+
+interface PackUploadProps {
+  file: File | null
+  onFileChange: (file: File | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function PackUpload({ file, onFileChange, disabled, className }: PackUploadProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Rule Pack Upload</CardTitle>
+        <CardDescription>
+          panther-analysis 저장소와 같은 구조(rules/, global_helpers/, data_models/)의 zip 또는 tar.gz 파일을 선택한 뒤 Validate Code를 누르세요.
+          각 규칙은 같은 디렉터리의 .yml 스펙과 함께 검증되며, global_helpers는 실행하지 않고 구문 검사와 정적 분석만 합니다 (helper를 import하는 규칙의 테스트는 건너뜁니다).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          type="file"
+          accept=".zip,.tar,.tar.gz,.tgz"
+          disabled={disabled}
+          onChange={(e) => onFileChange(e.target.files?.[0] ?? null)}
+        />
+        {file && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <FileArchive className="h-4 w-4" />
+            <span className="font-mono">{file.name}</span>
+            <span className="text-gray-400">({Math.ceil(file.size / 1024)}KB)</span>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          결과 목록에서 규칙을 선택하면 해당 규칙의 코드와 상세 결과를 볼 수 있습니다.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
\ No newline at end of file
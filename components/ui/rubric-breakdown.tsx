@@ -0,0 +1,53 @@
+"use client"
+
+import React from "react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { RUBRIC_MAX_POINTS, type RubricScore, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+interface RubricBreakdownProps {
+  rubric: RubricScore[] // 한 점수(규칙 준수성 또는 코드 품질)에 해당하는 항목
+  className?: string
+  language?: ValidationLanguage
+}
+
+function pointsColor(points: number) {
+  if (points >= 8) return "bg-green-500"
+  if (points >= 5) return "bg-amber-500"
+  return "bg-red-500"
+}
+
+/**
+ * 채점 기준 항목별 점수 - 점수는 이 항목들의 가중 평균으로 계산됨
+ */
+export function RubricBreakdown({ rubric, className, language }: RubricBreakdownProps) {
+  const messages = getEvaluationMessages(language).rubric
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <h4 className="font-medium">{messages.title}</h4>
+      <ul className="space-y-2">
+        {rubric.map(entry => (
+          <li key={entry.criterion} className="rounded-md border p-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{messages.criteria[entry.criterion]}</span>
+              <span className="text-xs text-gray-400">{messages.weight(entry.weight)}</span>
+              {entry.source === "test" && (
+                <Badge variant="outline" className="text-xs">{messages.fromTests}</Badge>
+              )}
+              <span className="ml-auto font-semibold">{entry.points}/{RUBRIC_MAX_POINTS}</span>
+            </div>
+            <div className="mt-1 h-1.5 rounded bg-gray-100" aria-hidden>
+              <div
+                className={cn("h-full rounded", pointsColor(entry.points))}
+                style={{ width: `${entry.points / RUBRIC_MAX_POINTS * 100}%` }}
+              />
+            </div>
+            {entry.rationale && <p className="mt-1 text-xs text-gray-600">{entry.rationale}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+"use client"
+
+import React, { useState } from "react"
+import { DiffEditor } from "@monaco-editor/react"
+import { Button } from "@/components/ui/button"
+
+export interface RuleVersionContent {
+  version: number
+  contentHash: string
+  code: string
+  spec: string | null
+}
+
+interface RuleVersionDiffProps {
+  from: RuleVersionContent
+  to: RuleVersionContent
+}
+
+export function RuleVersionDiff({ from, to }: RuleVersionDiffProps) {
+  const [target, setTarget] = useState<"code" | "spec">("code")
+  const hasSpec = from.spec !== null || to.spec !== null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          v{from.version} <span className="font-mono text-xs text-gray-400">({from.contentHash.slice(0, 8)})</span>
+          {" → "}
+          v{to.version} <span className="font-mono text-xs text-gray-400">({to.contentHash.slice(0, 8)})</span>
+        </span>
+        {hasSpec && (
+          <div className="flex gap-1">
+            <Button size="sm" variant={target === "code" ? "default" : "outline"} onClick={() => setTarget("code")}>
+              코드
+            </Button>
+            <Button size="sm" variant={target === "spec" ? "default" : "outline"} onClick={() => setTarget("spec")}>
+              YAML 스펙
+            </Button>
+          </div>
+        )}
+      </div>
+      <DiffEditor
+        height="480px"
+        language={target === "code" ? "python" : "yaml"}
+        theme="vs-dark"
+        original={target === "code" ? from.code : from.spec ?? ""}
+        modified={target === "code" ? to.code : to.spec ?? ""}
+        options={{
+          readOnly: true,
+          renderSideBySide: true,
+          minimap: { enabled: false },
+          fontSize: 14,
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+        }}
+      />
+    </div>
+  )
+}
\ No newline at end of file
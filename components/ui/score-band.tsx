@@ -0,0 +1,47 @@
+"use client"
+
+import React from "react"
+import { Badge } from "@/components/ui/badge"
+import { type ScoreConsistency, type ScoreStats, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+interface ScoreBandProps {
+  score: number
+  stats?: ScoreStats // 여러 샘플로 검증한 경우의 점수 분포
+  consistency?: ScoreConsistency
+  language?: ValidationLanguage
+}
+
+function scoreVariant(score: number) {
+  return score >= 70 ? "secondary" : "destructive"
+}
+
+/**
+ * 점수 표시 - 여러 샘플로 검증한 경우 중앙값과 최솟값~최댓값 범위를 0-100 막대 위에 표시
+ */
+export function ScoreBand({ score, stats, consistency, language }: ScoreBandProps) {
+  if (!stats || !consistency) {
+    return <Badge variant={scoreVariant(score)}>{score}/100</Badge>
+  }
+
+  const messages = getEvaluationMessages(language).common
+
+  return (
+    <div className="flex-1 max-w-sm space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant={scoreVariant(score)}>{score}/100</Badge>
+        <span className="text-xs text-gray-500">
+          {messages.scoreRange(stats.min, stats.max)} · {messages.scoreStddev(stats.stddev)}
+        </span>
+      </div>
+      <div className="relative h-2 rounded bg-gray-100" aria-hidden>
+        <div
+          className="absolute inset-y-0 rounded bg-blue-200"
+          style={{ left: `${stats.min}%`, width: `${Math.max(stats.max - stats.min, 1)}%` }}
+        />
+        <div className="absolute -inset-y-0.5 w-0.5 bg-blue-600" style={{ left: `${stats.median}%` }} />
+      </div>
+      <div className="text-xs text-gray-400">{messages.sampleCount(consistency.samples, consistency.requested)}</div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+"use client"
+
+import React from "react"
+
+export interface ScoreTrajectoryPoint {
+  validationId: string
+  version: number
+  ruleComplianceScore: number
+  codeQualityScore: number
+  passed: boolean
+  createdAt: string
+}
+
+interface ScoreTrajectoryProps {
+  points: ScoreTrajectoryPoint[]
+  passingScore: number
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 24
+
+function toY(score: number) {
+  return PADDING + (HEIGHT - PADDING * 2) * (1 - score / 100)
+}
+
+export function ScoreTrajectory({ points, passingScore }: ScoreTrajectoryProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">아직 이 규칙의 검증 기록이 없습니다</p>
+  }
+
+  // 검증 순서대로 같은 간격으로 배치 (검증이 하나면 가운데)
+  const step = points.length > 1 ? (WIDTH - PADDING * 2) / (points.length - 1) : 0
+  const toX = (index: number) => points.length > 1 ? PADDING + index * step : WIDTH / 2
+  const line = (score: (point: ScoreTrajectoryPoint) => number) =>
+    points.map((point, index) => `${toX(index)},${toY(score(point))}`).join(" ")
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48">
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={toY(passingScore)}
+          y2={toY(passingScore)}
+          className="stroke-gray-300"
+          strokeDasharray="4 4"
+        />
+        <text x={WIDTH - PADDING} y={toY(passingScore) - 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+          통과 기준 {passingScore}
+        </text>
+        <polyline points={line(point => point.codeQualityScore)} fill="none" className="stroke-purple-400" strokeWidth={2} />
+        <polyline points={line(point => point.ruleComplianceScore)} fill="none" className="stroke-blue-500" strokeWidth={2} />
+        {points.map((point, index) => (
+          <g key={point.validationId}>
+            <circle
+              cx={toX(index)}
+              cy={toY(point.ruleComplianceScore)}
+              r={5}
+              className={point.passed ? "fill-green-500" : "fill-red-500"}
+            >
+              <title>
+                {`v${point.version} · ${new Date(point.createdAt).toLocaleString('ko-KR')} · 준수성 ${point.ruleComplianceScore} / 품질 ${point.codeQualityScore}${point.passed ? " · 통과" : ""}`}
+              </title>
+            </circle>
+            <text x={toX(index)} y={HEIGHT - 4} textAnchor="middle" className="fill-gray-400 text-[10px]">
+              v{point.version}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-4 bg-blue-500" />규칙 준수성</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-4 bg-purple-400" />코드 품질</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-green-500" />통과</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-red-500" />미통과</span>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+"use client"
+
+import React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+
+interface SpecEditorProps {
+  value: string
+  onChange: (value: string) => void
+  className?: string
+}
+
+const SPEC_PLACEHOLDER = `AnalysisType: rule
+Filename: suspicious_login.py
+RuleID: Custom.SuspiciousLogin
+Enabled: true
+LogTypes:
+  - Okta.SystemLog
+Severity: Medium
+Tests:
+  - Name: 업무 시간 외 로그인
+    ExpectedResult: true
+    Log:
+      hour: 3`
+
+export function SpecEditor({ value, onChange, className }: SpecEditorProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Rule Spec (YAML)</CardTitle>
+        <CardDescription>
+          선택 사항입니다. Panther 규칙 .yml 내용을 입력하면 Structured 모드에서 스키마 검증 후 코드와 교차 검사하고, Tests 항목도 함께 실행합니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={SPEC_PLACEHOLDER}
+          className="font-mono text-sm h-[calc(100vh-320px)]"
+          spellCheck={false}
+        />
+      </CardContent>
+    </Card>
+  )
+}
\ No newline at end of file
@@ -8,9 +8,14 @@ import { Loader2, CheckCircle, AlertCircle, Clock } from "lucide-react"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { StreamingValidationState } from "@/lib/hooks/useStreamingValidation"
+import { FindingList } from "@/components/ui/finding-list"
+import { RubricBreakdown } from "@/components/ui/rubric-breakdown"
+import { normalizeFindings, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
 
 interface StreamingEvaluationPanelProps {
   streamingState: StreamingValidationState
+  language?: ValidationLanguage
 }
 
 // 안전한 문자열 추출 헬퍼 함수
@@ -70,7 +75,7 @@ function isValidMarkdown(content: string): boolean {
 }
 
 // 안전한 ReactMarkdown 래퍼 컴포넌트
-function SafeReactMarkdown({ children, fallback = "내용을 표시할 수 없습니다." }: { children: string, fallback?: string }) {
+function SafeReactMarkdown({ children, fallback, errorMessage }: { children: string, fallback: string, errorMessage: string }) {
   try {
     if (!isValidMarkdown(children)) {
       return <div className="text-gray-500 italic">{fallback}</div>
@@ -83,26 +88,10 @@ function SafeReactMarkdown({ children, fallback = "내용을 표시할 수 없
     )
   } catch (error) {
     console.warn('ReactMarkdown rendering error:', error)
-    return <div className="text-red-500 italic">마크다운 렌더링 중 오류가 발생했습니다.</div>
+    return <div className="text-red-500 italic">{errorMessage}</div>
   }
 }
 
-const stepTitles = {
-  syntax: "구문 검사",
-  rules: "규칙 준수성",
-  quality: "코드 품질",
-  analysis: "상세 분석",
-  complete: "완료"
-}
-
-const stepDescriptions = {
-  syntax: "Python 구문 오류를 검사하고 있습니다...",
-  rules: "Panther 탐지 규칙 준수성을 분석하고 있습니다...",
-  quality: "코드 품질과 모범 사례를 평가하고 있습니다...",
-  analysis: "종합적인 코드 분석을 수행하고 있습니다...",
-  complete: "모든 분석이 완료되었습니다."
-}
-
 function getStepProgress(currentStep: string | null): number {
   const steps = ['syntax', 'rules', 'quality', 'analysis', 'complete']
   const currentIndex = currentStep ? steps.indexOf(currentStep) : -1
@@ -119,8 +108,10 @@ function getStepIcon(step: string, currentStep: string | null, isCompleted: bool
   }
 }
 
-export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluationPanelProps) {
+export function StreamingEvaluationPanel({ streamingState, language }: StreamingEvaluationPanelProps) {
   const { isStreaming, currentStep, steps, finalResult, error, isFallback } = streamingState
+  const messages = getEvaluationMessages(language)
+  const { common, streaming } = messages
 
   const progress = getStepProgress(currentStep)
 
@@ -131,7 +122,7 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-red-600">
               <AlertCircle className="h-5 w-5" />
-              오류 발생
+              {common.errorTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -147,7 +138,7 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
       <div className="h-full flex items-center justify-center text-gray-500">
         <div className="text-center">
           <Clock className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-          <p>Streaming 모드로 코드 분석을 시작하세요</p>
+          <p>{streaming.empty}</p>
         </div>
       </div>
     )
@@ -159,15 +150,15 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>분석 진행상황</span>
+            <span>{streaming.progressTitle}</span>
             <div className="flex gap-2">
               {isFallback && (
                 <Badge variant="outline">
-                  일반 모드
+                  {streaming.fallbackMode}
                 </Badge>
               )}
               <Badge variant={isStreaming ? "default" : "secondary"}>
-                {isStreaming ? "진행 중" : "완료"}
+                {isStreaming ? common.inProgress : common.done}
               </Badge>
             </div>
           </CardTitle>
@@ -175,7 +166,7 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
         <CardContent>
           <Progress value={progress} className="mb-4" />
           <div className="space-y-3">
-            {Object.entries(stepTitles).map(([step, title]) => {
+            {Object.entries(streaming.stepTitles).map(([step, title]) => {
               const isCompleted = steps[step] && step !== currentStep
               const isCurrent = step === currentStep
 
@@ -190,7 +181,7 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
                   </span>
                   {isCurrent && (
                     <span className="text-xs text-gray-500 ml-auto">
-                      {stepDescriptions[step as keyof typeof stepDescriptions]}
+                      {streaming.stepDescriptions[step as keyof typeof streaming.stepDescriptions]}
                     </span>
                   )}
                 </div>
@@ -206,23 +197,23 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-500" />
-              구문 검사 결과
+              {common.syntaxTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2">
               <Badge variant={steps.syntax.isValid ? "secondary" : "destructive"}>
-                {steps.syntax.isValid ? "유효" : "오류"}
+                {steps.syntax.isValid ? common.syntaxValid : common.syntaxInvalid}
               </Badge>
               {steps.syntax.isValid ? (
-                <span className="text-green-600">구문 오류가 없습니다</span>
+                <span className="text-green-600">{common.noSyntaxErrors}</span>
               ) : (
-                <span className="text-red-600">구문 오류 발견</span>
+                <span className="text-red-600">{common.syntaxErrorsFound}</span>
               )}
             </div>
             {steps.syntax.errors && steps.syntax.errors.length > 0 && (
               <div className="mt-3">
-                <h4 className="font-medium text-red-600 mb-2">오류 목록:</h4>
+                <h4 className="font-medium text-red-600 mb-2">{common.errorList}</h4>
                 <ul className="list-disc list-inside space-y-1">
                   {steps.syntax.errors.map((error: string, index: number) => (
                     <li key={index} className="text-sm text-red-600">{error}</li>
@@ -240,31 +231,32 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-500" />
-              규칙 준수성 분석
+              {common.complianceTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2 mb-4">
-              <span className="text-sm font-medium">점수:</span>
+              <span className="text-sm font-medium">{common.score}</span>
               <Badge variant={steps.rules.score >= 70 ? "secondary" : "destructive"}>
                 {steps.rules.score}/100
               </Badge>
             </div>
 
+            {steps.rules.rubric && steps.rules.rubric.length > 0 && (
+              <RubricBreakdown rubric={steps.rules.rubric} className="mb-4" language={language} />
+            )}
+
             {steps.rules.findings && steps.rules.findings.length > 0 && (
               <div className="mb-4">
-                <h4 className="font-medium mb-2">발견된 문제:</h4>
-                <ul className="list-disc list-inside space-y-1">
-                  {steps.rules.findings.map((finding: string, index: number) => (
-                    <li key={index} className="text-sm text-amber-600">{finding}</li>
-                  ))}
-                </ul>
+                <h4 className="font-medium mb-2">{common.findings}</h4>
+                {/* 폴백(/api/validate) 응답은 레거시 문자열 배열이므로 정규화 */}
+                <FindingList findings={normalizeFindings(steps.rules.findings)} language={language} />
               </div>
             )}
 
             {steps.rules.suggestions && steps.rules.suggestions.length > 0 && (
               <div>
-                <h4 className="font-medium mb-2">개선 제안:</h4>
+                <h4 className="font-medium mb-2">{common.suggestions}</h4>
                 <ul className="list-disc list-inside space-y-1">
                   {steps.rules.suggestions.map((suggestion: string, index: number) => (
                     <li key={index} className="text-sm text-blue-600">{suggestion}</li>
@@ -282,22 +274,24 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-500" />
-              코드 품질 평가
+              {common.qualityTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2 mb-4">
-              <span className="text-sm font-medium">점수:</span>
+              <span className="text-sm font-medium">{common.score}</span>
               <Badge variant={steps.quality.score >= 70 ? "secondary" : "destructive"}>
                 {steps.quality.score}/100
               </Badge>
             </div>
 
+            {steps.quality.rubric && steps.quality.rubric.length > 0 && (
+              <RubricBreakdown rubric={steps.quality.rubric} className="mb-4" language={language} />
+            )}
+
             {steps.quality.feedback && (
               <div className="prose prose-sm max-w-none">
-                <SafeReactMarkdown
-                  fallback="품질 분석 데이터를 불러오는 중입니다..."
-                >
+                <SafeReactMarkdown fallback={common.qualityLoading} errorMessage={common.markdownError}>
                   {getMarkdownContent(steps.quality.feedback)}
                 </SafeReactMarkdown>
               </div>
@@ -312,14 +306,12 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <CheckCircle className="h-5 w-5 text-green-500" />
-              상세 분석
+              {common.analysisTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="prose prose-sm max-w-none">
-              <SafeReactMarkdown
-                fallback="분석 데이터를 불러오는 중입니다..."
-              >
+              <SafeReactMarkdown fallback={common.analysisLoading} errorMessage={common.markdownError}>
                 {getMarkdownContent(steps.analysis)}
               </SafeReactMarkdown>
             </div>
@@ -333,7 +325,7 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-green-600">
               <CheckCircle className="h-5 w-5" />
-              분석 완료
+              {common.completeTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -342,23 +334,23 @@ export function StreamingEvaluationPanel({ streamingState }: StreamingEvaluation
                 <div className="text-2xl font-bold text-green-600">
                   {finalResult.syntaxCheck?.isValid ? "✓" : "✗"}
                 </div>
-                <div className="text-sm text-gray-600">구문 검사</div>
+                <div className="text-sm text-gray-600">{common.summarySyntax}</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-blue-600">
                   {finalResult.ruleCompliance?.score || 0}
                 </div>
-                <div className="text-sm text-gray-600">규칙 준수</div>
+                <div className="text-sm text-gray-600">{common.summaryCompliance}</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">
                   {finalResult.codeQuality?.score || 0}
                 </div>
-                <div className="text-sm text-gray-600">코드 품질</div>
+                <div className="text-sm text-gray-600">{common.summaryQuality}</div>
               </div>
             </div>
             <p className="text-sm text-gray-600 text-center">
-              모든 분석이 완료되었습니다. 위의 결과를 참고하여 코드를 개선해보세요.
+              {streaming.completeDescription}
             </p>
           </CardContent>
         </Card>
@@ -4,10 +4,16 @@ import React from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import { Loader2, CheckCircle, AlertCircle, Clock, Database } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Loader2, CheckCircle, AlertCircle, Clock, Database, RefreshCw } from "lucide-react"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
-import { type ValidationResult } from "@/lib/schemas/validation"
+import { FindingList } from "@/components/ui/finding-list"
+import { TestResultList } from "@/components/ui/test-result-list"
+import { ScoreBand } from "@/components/ui/score-band"
+import { RubricBreakdown } from "@/components/ui/rubric-breakdown"
+import { type Finding, type ValidationCacheInfo, type ValidationLanguage, type ValidationResult } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
 
 interface ProgressStep {
   key: string
@@ -23,9 +29,13 @@ interface StructuredEvaluationPanelProps {
   recordId: string | null
   duration: number | null
   error: string | null
+  cache?: ValidationCacheInfo | null
+  onFindingClick?: (finding: Finding) => void
+  onRevalidate?: () => void // 캐시를 무시하고 다시 검증
+  language?: ValidationLanguage
 }
 
-function SafeReactMarkdown({ children, fallback = "내용을 표시할 수 없습니다." }: { children: string, fallback?: string }) {
+function SafeReactMarkdown({ children, fallback, errorMessage }: { children: string, fallback: string, errorMessage: string }) {
   try {
     if (!children || typeof children !== 'string' || children.trim().length === 0) {
       return <div className="text-gray-500 italic">{fallback}</div>
@@ -38,7 +48,7 @@ function SafeReactMarkdown({ children, fallback = "내용을 표시할 수 없
     )
   } catch (error) {
     console.warn('ReactMarkdown rendering error:', error)
-    return <div className="text-red-500 italic">마크다운 렌더링 중 오류가 발생했습니다.</div>
+    return <div className="text-red-500 italic">{errorMessage}</div>
   }
 }
 
@@ -49,8 +59,17 @@ export function StructuredEvaluationPanel({
   result,
   recordId,
   duration,
-  error
+  error,
+  cache,
+  onFindingClick,
+  onRevalidate,
+  language
 }: StructuredEvaluationPanelProps) {
+  const messages = getEvaluationMessages(language)
+  const { common } = messages
+  const ruleComplianceRubric = result?.rubric?.filter(entry => entry.group === "ruleCompliance") ?? []
+  const codeQualityRubric = result?.rubric?.filter(entry => entry.group === "codeQuality") ?? []
+
   if (error) {
     return (
       <div className="h-full p-6">
@@ -58,7 +77,7 @@ export function StructuredEvaluationPanel({
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-red-600">
               <AlertCircle className="h-5 w-5" />
-              오류 발생
+              {common.errorTitle}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -74,14 +93,14 @@ export function StructuredEvaluationPanel({
       <div className="h-full flex items-center justify-center text-gray-500">
         <div className="text-center">
           <Database className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-          <p>구조화된 검증을 시작하여 결과를 DB에 저장하세요</p>
+          <p>{messages.structured.empty}</p>
         </div>
       </div>
     )
   }
 
   const progressPercent = progressSteps.length > 0 ?
-    (currentStep === 'complete' ? 100 : (progressSteps.length / 5) * 100) : 0
+    (currentStep === 'complete' ? 100 : Math.min((progressSteps.length / 5) * 100, 100)) : 0
 
   return (
     <div className="h-full overflow-auto p-6 space-y-6">
@@ -89,14 +108,14 @@ export function StructuredEvaluationPanel({
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>구조화된 검증 진행상황</span>
+            <span>{messages.structured.progressTitle}</span>
             <div className="flex gap-2">
               <Badge variant="outline" className="flex items-center gap-1">
                 <Database className="h-3 w-3" />
-                DB 저장
+                {messages.structured.savedToDb}
               </Badge>
               <Badge variant={isValidating ? "default" : "secondary"}>
-                {isValidating ? "진행 중" : "완료"}
+                {isValidating ? common.inProgress : common.done}
               </Badge>
             </div>
           </CardTitle>
@@ -115,7 +134,7 @@ export function StructuredEvaluationPanel({
                 )}
                 <span className="text-sm text-gray-700">{step.message}</span>
                 <span className="text-xs text-gray-400 ml-auto">
-                  {new Date(step.timestamp).toLocaleTimeString('ko-KR')}
+                  {new Date(step.timestamp).toLocaleTimeString(messages.locale)}
                 </span>
               </div>
             ))}
@@ -124,7 +143,7 @@ export function StructuredEvaluationPanel({
               <div className="flex items-center gap-3">
                 <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
                 <span className="text-sm text-blue-600 font-medium">
-                  {currentStep === 'analysis' ? '상세 분석을 수행하고 있습니다...' : '처리 중...'}
+                  {currentStep === 'analysis' ? messages.structured.analyzing : messages.structured.processing}
                 </span>
               </div>
             )}
@@ -144,6 +163,23 @@ export function StructuredEvaluationPanel({
                   </span>
                 )}
               </div>
+              {cache?.hit && (
+                <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                  <Badge variant="secondary">{messages.structured.cachedBadge}</Badge>
+                  <span>
+                    {messages.structured.cachedDescription(
+                      cache.cachedAt ? new Date(cache.cachedAt).toLocaleString(messages.locale) : null,
+                      cache.promptVersion
+                    )}
+                  </span>
+                  {onRevalidate && (
+                    <Button variant="outline" size="sm" className="ml-auto" onClick={onRevalidate}>
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                      {messages.structured.revalidate}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -157,23 +193,23 @@ export function StructuredEvaluationPanel({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="h-5 w-5 text-green-500" />
-                구문 검사 결과
+                {common.syntaxTitle}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2">
                 <Badge variant={result.syntaxCheck.isValid ? "secondary" : "destructive"}>
-                  {result.syntaxCheck.isValid ? "유효" : "오류"}
+                  {result.syntaxCheck.isValid ? common.syntaxValid : common.syntaxInvalid}
                 </Badge>
                 {result.syntaxCheck.isValid ? (
-                  <span className="text-green-600">구문 오류가 없습니다</span>
+                  <span className="text-green-600">{common.noSyntaxErrors}</span>
                 ) : (
-                  <span className="text-red-600">구문 오류 발견</span>
+                  <span className="text-red-600">{common.syntaxErrorsFound}</span>
                 )}
               </div>
               {result.syntaxCheck.errors && result.syntaxCheck.errors.length > 0 && (
                 <div className="mt-3">
-                  <h4 className="font-medium text-red-600 mb-2">오류 목록:</h4>
+                  <h4 className="font-medium text-red-600 mb-2">{common.errorList}</h4>
                   <ul className="list-disc list-inside space-y-1">
                     {result.syntaxCheck.errors.map((error, index) => (
                       <li key={index} className="text-sm text-red-600">{error}</li>
@@ -189,31 +225,39 @@ export function StructuredEvaluationPanel({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="h-5 w-5 text-green-500" />
-                규칙 준수성 분석
+                {common.complianceTitle}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2 mb-4">
-                <span className="text-sm font-medium">점수:</span>
-                <Badge variant={result.ruleCompliance.score >= 70 ? "secondary" : "destructive"}>
-                  {result.ruleCompliance.score}/100
-                </Badge>
+                <span className="text-sm font-medium">{common.score}</span>
+                <ScoreBand
+                  score={result.ruleCompliance.score}
+                  stats={result.consistency?.ruleCompliance}
+                  consistency={result.consistency}
+                  language={language}
+                />
               </div>
 
+              {ruleComplianceRubric.length > 0 && (
+                <RubricBreakdown rubric={ruleComplianceRubric} className="mb-4" language={language} />
+              )}
+
               {result.ruleCompliance.findings && result.ruleCompliance.findings.length > 0 && (
                 <div className="mb-4">
-                  <h4 className="font-medium mb-2">발견된 문제:</h4>
-                  <ul className="list-disc list-inside space-y-1">
-                    {result.ruleCompliance.findings.map((finding, index) => (
-                      <li key={index} className="text-sm text-amber-600">{finding}</li>
-                    ))}
-                  </ul>
+                  <h4 className="font-medium mb-2">{common.findings}</h4>
+                  <FindingList
+                    findings={result.ruleCompliance.findings}
+                    onFindingClick={onFindingClick}
+                    sampleCount={result.consistency?.samples}
+                    language={language}
+                  />
                 </div>
               )}
 
               {result.ruleCompliance.suggestions && result.ruleCompliance.suggestions.length > 0 && (
                 <div>
-                  <h4 className="font-medium mb-2">개선 제안:</h4>
+                  <h4 className="font-medium mb-2">{common.suggestions}</h4>
                   <ul className="list-disc list-inside space-y-1">
                     {result.ruleCompliance.suggestions.map((suggestion, index) => (
                       <li key={index} className="text-sm text-blue-600">{suggestion}</li>
@@ -224,26 +268,52 @@ export function StructuredEvaluationPanel({
             </CardContent>
           </Card>
 
+          {/* Unit Test Results */}
+          {result.testResults && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {result.testResults.skipped ? (
+                    <AlertCircle className="h-5 w-5 text-gray-400" />
+                  ) : result.testResults.failed === 0 ? (
+                    <CheckCircle className="h-5 w-5 text-green-500" />
+                  ) : (
+                    <AlertCircle className="h-5 w-5 text-red-500" />
+                  )}
+                  {common.testsTitle}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TestResultList summary={result.testResults} language={language} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Code Quality Results */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="h-5 w-5 text-green-500" />
-                코드 품질 평가
+                {common.qualityTitle}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2 mb-4">
-                <span className="text-sm font-medium">점수:</span>
-                <Badge variant={result.codeQuality.score >= 70 ? "secondary" : "destructive"}>
-                  {result.codeQuality.score}/100
-                </Badge>
+                <span className="text-sm font-medium">{common.score}</span>
+                <ScoreBand
+                  score={result.codeQuality.score}
+                  stats={result.consistency?.codeQuality}
+                  consistency={result.consistency}
+                  language={language}
+                />
               </div>
 
+              {codeQualityRubric.length > 0 && (
+                <RubricBreakdown rubric={codeQualityRubric} className="mb-4" language={language} />
+              )}
+
               <div className="prose prose-sm max-w-none">
-                <SafeReactMarkdown
-                  fallback="품질 분석 데이터를 불러오는 중입니다..."
-                >
+                <SafeReactMarkdown fallback={common.qualityLoading} errorMessage={common.markdownError}>
                   {result.codeQuality.feedback}
                 </SafeReactMarkdown>
               </div>
@@ -255,14 +325,12 @@ export function StructuredEvaluationPanel({
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="h-5 w-5 text-green-500" />
-                상세 분석
+                {common.analysisTitle}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="prose prose-sm max-w-none">
-                <SafeReactMarkdown
-                  fallback="분석 데이터를 불러오는 중입니다..."
-                >
+                <SafeReactMarkdown fallback={common.analysisLoading} errorMessage={common.markdownError}>
                   {result.detailedAnalysis}
                 </SafeReactMarkdown>
               </div>
@@ -274,7 +342,7 @@ export function StructuredEvaluationPanel({
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-green-600">
                 <CheckCircle className="h-5 w-5" />
-                분석 완료
+                {common.completeTitle}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -283,19 +351,29 @@ export function StructuredEvaluationPanel({
                   <div className="text-2xl font-bold text-green-600">
                     {result.syntaxCheck.isValid ? "✓" : "✗"}
                   </div>
-                  <div className="text-sm text-gray-600">구문 검사</div>
+                  <div className="text-sm text-gray-600">{common.summarySyntax}</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-blue-600">
                     {result.ruleCompliance.score}
                   </div>
-                  <div className="text-sm text-gray-600">규칙 준수</div>
+                  {result.consistency && (
+                    <div className="text-xs text-gray-400">
+                      {common.scoreRange(result.consistency.ruleCompliance.min, result.consistency.ruleCompliance.max)}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-600">{common.summaryCompliance}</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-purple-600">
                     {result.codeQuality.score}
                   </div>
-                  <div className="text-sm text-gray-600">코드 품질</div>
+                  {result.consistency && (
+                    <div className="text-xs text-gray-400">
+                      {common.scoreRange(result.consistency.codeQuality.min, result.consistency.codeQuality.max)}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-600">{common.summaryQuality}</div>
                 </div>
               </div>
             </CardContent>
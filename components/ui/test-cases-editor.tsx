@@ -0,0 +1,73 @@
+"use client"
+
+import React from "react"
+import { z } from "zod"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { RuleTestCaseSchema, type RuleTestCase } from "@/lib/schemas/validation"
+
+interface TestCasesEditorProps {
+  value: string
+  onChange: (value: string) => void
+  error?: string | null
+  className?: string
+}
+
+export const SAMPLE_TEST_CASES = `[
+  {
+    "name": "업무 시간 외 로그인",
+    "expectedResult": true,
+    "log": { "user": "alice", "hour": 3, "location": { "country": "US" } }
+  },
+  {
+    "name": "정상 로그인",
+    "expectedResult": false,
+    "log": { "user": "bob", "hour": 10, "location": { "country": "US" } }
+  }
+]`
+
+/**
+ * 테스트 이벤트 JSON을 검증 (빈 입력은 테스트 없음)
+ */
+export function parseTestCases(text: string): { tests: RuleTestCase[], error: string | null } {
+  if (!text.trim()) {
+    return { tests: [], error: null }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { tests: [], error: "테스트 이벤트가 올바른 JSON이 아닙니다." }
+  }
+
+  const parsed = z.array(RuleTestCaseSchema).safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { tests: [], error: `테스트 형식 오류 (${issue.path.join(".") || "root"}): ${issue.message}` }
+  }
+
+  return { tests: parsed.data, error: null }
+}
+
+export function TestCasesEditor({ value, onChange, error, className }: TestCasesEditorProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Test Events</CardTitle>
+        <CardDescription>
+          name, expectedResult, log 필드를 가진 테스트 배열입니다. Structured 모드로 검증하면 샌드박스에서 rule()을 실행합니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="font-mono text-sm h-[calc(100vh-320px)]"
+          spellCheck={false}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+"use client"
+
+import React from "react"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, XCircle } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { type TestRunSummary, type ValidationLanguage } from "@/lib/schemas/validation"
+import { getEvaluationMessages } from "@/lib/i18n/evaluation-messages"
+
+interface TestResultListProps {
+  summary: TestRunSummary
+  className?: string
+  language?: ValidationLanguage
+}
+
+function formatPythonBool(value: boolean | null): string {
+  return value === null ? "None" : value ? "True" : "False"
+}
+
+export function TestResultList({ summary, className, language }: TestResultListProps) {
+  const messages = getEvaluationMessages(language).tests
+
+  // 샌드박스가 없어 실행하지 않은 경우 안내만 표시
+  if (summary.skipped) {
+    return <p className={cn("text-sm text-gray-600", className)}>{summary.skipped}</p>
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-2">
+        <Badge variant={summary.failed === 0 ? "secondary" : "destructive"}>
+          {messages.passedCount(summary.passed, summary.total)}
+        </Badge>
+        {summary.error && (
+          <span className="text-sm text-red-600">{summary.error}</span>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {summary.results.map((result, index) => (
+          <li key={`${result.name}-${index}`} className="rounded-md border p-2 text-sm">
+            <div className="flex items-start gap-2">
+              {result.passed ? (
+                <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" aria-label={messages.passed} />
+              ) : (
+                <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" aria-label={messages.failed} />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="font-medium">{result.name}</span>
+                  <span className="font-mono text-xs text-gray-500">
+                    {messages.expectedActual(formatPythonBool(result.expectedResult), formatPythonBool(result.actualResult))}
+                  </span>
+                  <span className="text-xs text-gray-400 ml-auto">{result.durationMs}ms</span>
+                </div>
+                {result.error && (
+                  <p className="text-red-600 font-mono text-xs break-all">
+                    {result.errorLine ? messages.errorLine(result.errorLine) : ""}{result.error}
+                  </p>
+                )}
+                {(result.title || result.severity || result.dedup) && (
+                  <div className="flex flex-wrap gap-1">
+                    {result.severity && <Badge variant="outline" className="text-xs">{result.severity}</Badge>}
+                    {result.title && <span className="text-xs text-gray-700">{result.title}</span>}
+                    {result.dedup && <span className="font-mono text-xs text-gray-500">dedup: {result.dedup}</span>}
+                  </div>
+                )}
+                {result.alertContext && (
+                  <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">
+                    <code>{JSON.stringify(result.alertContext, null, 2)}</code>
+                  </pre>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
\ No newline at end of file
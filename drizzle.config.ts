@@ -1,4 +1,8 @@
 import type { Config } from 'drizzle-kit'
+import { getEmbeddingConfig } from './lib/embeddings/config'
+
+// 스키마는 잘못된 임베딩 설정에서도 기본 차원으로 만들어지므로, 그 차원으로 마이그레이션하기 전에 설정 오류를 보고
+getEmbeddingConfig()
 
 export default {
   schema: './lib/db/schema.ts',
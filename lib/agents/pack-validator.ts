@@ -0,0 +1,139 @@
+import { runStructuredValidation } from '@/lib/agents/structured-validator'
+import { withBedrockPriority } from '@/lib/bedrock/limiter'
+import { checkPythonSyntax, syntaxDiagnosticsToFindings } from '@/lib/analysis/syntax'
+import { lintHelperModule, toFindings } from '@/lib/analysis/linter'
+import type { RulePack } from '@/lib/analysis/pack'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  type PackHelperCheck,
+  type PackRuleResult,
+  type PackSummary,
+  type PackValidationResult,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+export interface PackValidationOptions {
+  userId?: string
+  force?: boolean // 캐시된 결과를 무시하고 모든 규칙을 다시 검증
+  language?: ValidationLanguage
+  concurrency?: number
+  onRuleComplete?: (rule: PackRuleResult, completed: number, total: number) => void
+}
+
+// Bedrock 호출이 규칙마다 발생하므로 동시 실행 수를 제한
+const DEFAULT_CONCURRENCY = 3
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+/**
+ * 규칙별 결과로 팩 전체 점수와 발견 항목 수를 집계
+ */
+export function summarizePackResults(rules: PackRuleResult[]): PackSummary {
+  const results = rules.flatMap(rule => rule.result ? [rule.result] : [])
+  const findings = results.flatMap(result => result.ruleCompliance.findings)
+
+  return {
+    totalRules: rules.length,
+    validatedRules: results.length,
+    failedRules: rules.length - results.length,
+    syntaxErrorRules: results.filter(result => !result.syntaxCheck.isValid).length,
+    averageRuleComplianceScore: average(results.map(result => result.ruleCompliance.score)),
+    averageCodeQualityScore: average(results.map(result => result.codeQuality.score)),
+    testsPassed: results.reduce((sum, result) => sum + (result.testResults?.passed ?? 0), 0),
+    testsTotal: results.reduce((sum, result) => sum + (result.testResults?.total ?? 0), 0),
+    findingCounts: {
+      error: findings.filter(finding => finding.severity === 'error').length,
+      warning: findings.filter(finding => finding.severity === 'warning').length,
+      info: findings.filter(finding => finding.severity === 'info').length,
+    },
+  }
+}
+
+/**
+ * global_helpers 정적 검사 - 업로드된 helper 코드는 서버에서 실행하지 않고 구문 검사와 린터만 적용
+ */
+export async function checkPackHelpers(
+  helpers: Record<string, string>,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<PackHelperCheck[]> {
+  const checks: PackHelperCheck[] = []
+
+  for (const name of Object.keys(helpers).sort()) {
+    const syntax = await checkPythonSyntax(helpers[name], language)
+    const findings = syntax.isValid
+      ? toFindings(await lintHelperModule(helpers[name], language))
+      : syntaxDiagnosticsToFindings(syntax.diagnostics)
+    checks.push({ name, findings })
+  }
+
+  return checks
+}
+
+/**
+ * 규칙 팩의 모든 규칙을 구조화된 검증 파이프라인으로 검증
+ * 개별 규칙의 실패는 전체 작업을 중단하지 않고 해당 규칙의 error로 기록합니다.
+ * Bedrock 호출은 batch 우선순위로 실행되어 대화형 검증을 막지 않습니다.
+ */
+export async function validateRulePack(pack: RulePack, options: PackValidationOptions = {}): Promise<PackValidationResult> {
+  const { userId, force, language, concurrency = DEFAULT_CONCURRENCY, onRuleComplete } = options
+  const results: PackRuleResult[] = new Array(pack.rules.length)
+  let nextIndex = 0
+  let completed = 0
+
+  const worker = async () => {
+    while (nextIndex < pack.rules.length) {
+      const index = nextIndex++
+      const rule = pack.rules[index]
+      const startTime = Date.now()
+      const base = { path: rule.path, specPath: rule.specPath, ruleId: rule.ruleId, code: rule.code }
+
+      try {
+        const { result, recordId, cache } = await runStructuredValidation({
+          code: rule.code,
+          userId,
+          spec: rule.spec,
+          helperModules: Object.keys(pack.helpers),
+          force,
+          language,
+        })
+        results[index] = {
+          ...base,
+          status: 'validated',
+          result,
+          recordId,
+          cached: cache.hit,
+          durationMs: Date.now() - startTime,
+        }
+      } catch (error) {
+        console.error(`Pack rule validation error (${rule.path}):`, error)
+        results[index] = {
+          ...base,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          durationMs: Date.now() - startTime,
+        }
+      }
+
+      completed++
+      onRuleComplete?.(results[index], completed, pack.rules.length)
+    }
+  }
+
+  const helperChecks = await checkPackHelpers(pack.helpers, language)
+
+  await withBedrockPriority('batch', () =>
+    Promise.all(Array.from({ length: Math.min(concurrency, pack.rules.length) }, worker))
+  )
+
+  return {
+    rules: results,
+    summary: summarizePackResults(results),
+    helpers: Object.keys(pack.helpers).sort(),
+    helperChecks,
+    dataModels: pack.dataModels,
+    skipped: pack.skipped,
+  }
+}
\ No newline at end of file
@@ -1,126 +1,54 @@
-import { invokeClaude } from "@/lib/bedrock/client"
-
-export interface ValidationResult {
-  syntaxCheck: {
-    isValid: boolean
-    errors?: string[]
-  }
-  ruleCompliance: {
-    score: number
-    findings: string[]
-    suggestions: string[]
-  }
-  codeQuality: {
-    score: number
-    feedback: string
-  }
-  detailedAnalysis: string
-}
-
-const PANTHER_RULES_CONTEXT = `
-You are a Python code validator specializing in Panther detection rules. Your task is to evaluate Python code based on the following criteria:
-
-## Panther Detection Rules Guidelines:
-1. Must have a \`rule(event)\` function that returns True for suspicious activity
-2. Should include optional alert functions: severity(), title(), dedup(), runbook()
-3. Use built-in event object functions: get(), deep_get(), deep_walk()
-4. Avoid external API requests within detections
-5. Complete execution within 15 seconds
-6. Use unified data model (UDM) fields when possible
-7. Handle nested and complex event structures safely
-8. Include comprehensive unit tests
-9. Provide clear, actionable context in alerts
-
-## Evaluation Criteria:
-- Precision and targeting of detection logic
-- Performance and efficiency
-- Code readability and maintainability
-- Proper error handling
-- Documentation and comments
-- Security best practices
-`
-
-export async function validatePythonCode(code: string): Promise<ValidationResult> {
+import { invokeLLM } from "@/lib/llm"
+import { checkPythonSyntax, buildSyntaxErrorResult } from "@/lib/analysis/syntax"
+import { lintPantherRule } from "@/lib/analysis/linter"
+import { mergeFindings } from "@/lib/analysis/findings"
+import {
+  RESPONSE_LANGUAGE_NAMES,
+  renderValidationSystemPrompt,
+  renderValidationUserPrompt,
+  requestValidationOutput
+} from "@/lib/agents/validation-tool"
+import { renderPrompt } from "@/lib/prompts/registry"
+import { DEFAULT_VALIDATION_LANGUAGE, type ValidationLanguage, type ValidationResult } from "@/lib/schemas/validation"
+
+export async function validatePythonCode(
+  code: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<ValidationResult> {
   try {
-    const syntaxCheckPrompt = {
-      messages: [
-        {
-          role: "user" as const,
-          content: `Check the following Python code for syntax errors. Return a JSON object with format:
-{
-  "isValid": boolean,
-  "errors": string[] // if any
-}
-
-Please provide all error messages in Korean language.
-
-Code:
-\`\`\`python
-${code}
-\`\`\``,
-        },
-      ],
-      system: "You are a Python syntax checker. Return only valid JSON.",
-      temperature: 0,
+    // 구문 검사는 로컬 Python 파서로 수행하고, 통과한 코드만 Claude에 전달
+    const syntaxResult = await checkPythonSyntax(code, language)
+    if (!syntaxResult.isValid) {
+      return buildSyntaxErrorResult(syntaxResult, language)
     }
 
-    const syntaxResponse = await invokeClaude(syntaxCheckPrompt)
-
-    // Extract JSON from code block if present
-    let syntaxResponseText = syntaxResponse
-    const jsonMatch = syntaxResponse.match(/```json\n([\s\S]*?)\n```/)
-    if (jsonMatch) {
-      syntaxResponseText = jsonMatch[1]
+    const syntaxCheck = {
+      isValid: syntaxResult.isValid,
+      errors: syntaxResult.errors,
     }
 
-    const syntaxCheck = JSON.parse(syntaxResponseText)
+    const lintFindings = await lintPantherRule(code, language)
 
     const validationPrompt = {
       messages: [
         {
           role: "user" as const,
-          content: `Analyze the following Python code as a Panther detection rule and provide a comprehensive evaluation.
-
-Return a JSON object with this exact format:
-{
-  "ruleCompliance": {
-    "score": number (0-100),
-    "findings": ["string array of issues found"],
-    "suggestions": ["string array of improvements"]
-  },
-  "codeQuality": {
-    "score": number (0-100),
-    "feedback": "markdown formatted feedback string"
-  },
-  "detailedAnalysis": "comprehensive markdown analysis"
-}
-
-Please provide all text content (findings, suggestions, feedback, detailedAnalysis) in Korean language.
-
-Code to analyze:
-\`\`\`python
-${code}
-\`\`\``,
+          content: renderValidationUserPrompt(code, lintFindings),
         },
       ],
-      system: PANTHER_RULES_CONTEXT,
+      system: renderValidationSystemPrompt(language),
       temperature: 0.3,
     }
 
-    const validationResponse = await invokeClaude(validationPrompt)
-
-    // Extract JSON from code block if present
-    let validationResponseText = validationResponse
-    const validationJsonMatch = validationResponse.match(/```json\n([\s\S]*?)\n```/)
-    if (validationJsonMatch) {
-      validationResponseText = validationJsonMatch[1]
-    }
-
-    const validationResult = JSON.parse(validationResponseText)
+    const { output: validationResult } = await requestValidationOutput(validationPrompt, { lintFindings, language })
 
     return {
       syntaxCheck,
       ...validationResult,
+      ruleCompliance: {
+        ...validationResult.ruleCompliance,
+        findings: mergeFindings(lintFindings, validationResult.ruleCompliance.findings),
+      },
     }
   } catch (error) {
     console.error("Validation error:", error)
@@ -131,7 +59,13 @@ ${code}
       },
       ruleCompliance: {
         score: 0,
-        findings: ["Validation service error"],
+        findings: [{
+          id: "service-error",
+          message: "Validation service error",
+          severity: "error",
+          category: "quality",
+          source: "llm",
+        }],
         suggestions: [],
       },
       codeQuality: {
@@ -145,31 +79,26 @@ ${code}
 
 export async function generateImprovedCode(
   originalCode: string,
-  feedback: ValidationResult
+  feedback: ValidationResult,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
 ): Promise<string> {
   const prompt = {
     messages: [
       {
         role: "user" as const,
-        content: `Based on the following feedback, generate an improved version of this Python detection rule:
-
-Original Code:
-\`\`\`python
-${originalCode}
-\`\`\`
-
-Feedback:
-- Findings: ${feedback.ruleCompliance.findings.join(", ")}
-- Suggestions: ${feedback.ruleCompliance.suggestions.join(", ")}
-
-Generate only the improved code without any explanation. If you include any comments in the code, please write them in Korean language.`,
+        content: renderPrompt("improve-code", {
+          code: originalCode,
+          findings: feedback.ruleCompliance.findings.map(finding => finding.message).join(", "),
+          suggestions: feedback.ruleCompliance.suggestions.join(", "),
+          languageName: RESPONSE_LANGUAGE_NAMES[language],
+        }),
       },
     ],
-    system: PANTHER_RULES_CONTEXT,
+    system: renderPrompt("panther-reviewer"),
     temperature: 0.5,
   }
 
-  const response = await invokeClaude(prompt)
+  const response = await invokeLLM(prompt)
   const codeMatch = response.match(/```python\n([\s\S]*?)\n```/)
   return codeMatch ? codeMatch[1] : response
 }
\ No newline at end of file
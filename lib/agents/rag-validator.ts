@@ -0,0 +1,384 @@
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  EnhancedValidationResultSchema,
+  type EnhancedCodeValidationRequest,
+  type EnhancedValidationResult,
+  type TestRunSummary,
+  type ValidationCacheInfo,
+  type ValidationLanguage,
+  type ValidationResult
+} from '@/lib/schemas/validation'
+import { RAGEngine, type ExampleSearchResult } from '@/lib/knowledge/rag-engine'
+import { db } from '@/lib/db'
+import { getValidationRecord, saveValidationRecord } from '@/lib/db/validations'
+import { lookupValidationCache } from '@/lib/db/validation-cache'
+import { trackUsage } from '@/lib/usage/tracker'
+import { checkPythonSyntax, buildSyntaxErrorResult } from '@/lib/analysis/syntax'
+import { lintPantherRule } from '@/lib/analysis/linter'
+import {
+  renderValidationSystemPrompt,
+  renderValidationUserPrompt,
+  requestValidationOutput
+} from '@/lib/agents/validation-tool'
+import { mergeFindings } from '@/lib/analysis/findings'
+import { runRuleTests, testResultsToFindings } from '@/lib/analysis/test-runner'
+import { checkPantherSpec } from '@/lib/analysis/spec'
+import { promptVersionOf } from '@/lib/prompts/registry'
+import { RUBRIC_VERSION } from '@/lib/analysis/rubric'
+import { getHybridSearchConfig } from '@/lib/knowledge/retrieval'
+import { getRerankConfig } from '@/lib/knowledge/reranker'
+import { getEmbeddingConfig } from '@/lib/embeddings/config'
+import { validationDocumentReferences, validationExampleReferences } from '@/lib/db/schema'
+import type { ValidationProgressCallback } from '@/lib/agents/structured-validator'
+import { getEvaluationMessages } from '@/lib/i18n/evaluation-messages'
+
+export type RagValidationInput = Pick<
+  EnhancedCodeValidationRequest,
+  'code' | 'userId' | 'tests' | 'spec' | 'ruleId' | 'ragEnabled' | 'includeExamples' | 'force'
+> & { language?: ValidationLanguage, samples?: number }
+
+export interface RagValidationOutput {
+  result: EnhancedValidationResult
+  recordId: string
+  durationMs: number
+  cache: ValidationCacheInfo
+}
+
+// RAG를 끄면 구조화된 검증과 같은 시스템 프롬프트를 사용 (LLM 재순위화를 쓰면 그 프롬프트도 포함)
+function ragPromptVersion(ragEnabled: boolean) {
+  if (!ragEnabled) return promptVersionOf('validation-system', 'validation-user')
+  return getRerankConfig().reranker === 'llm'
+    ? promptVersionOf('rag-system', 'rag-checklist', 'validation-user', 'rerank-documents')
+    : promptVersionOf('rag-system', 'rag-checklist', 'validation-user')
+}
+
+// 검색 가중치나 임베딩 모델·차원을 바꾸면 참고 문서가 달라짐 (db:reembed 후 이전 벡터로 만든 결과를 쓰지 않도록)
+function retrievalCacheInput(ragEnabled: boolean) {
+  if (!ragEnabled) return null
+  const { provider, modelId, dimensions } = getEmbeddingConfig()
+  return { ...getHybridSearchConfig(), embedding: { provider, modelId, dimensions } }
+}
+
+// 재순위화를 사용하지 않으면 관련 설정은 결과에 영향을 주지 않음
+function rerankCacheInput(ragEnabled: boolean) {
+  if (!ragEnabled) return null
+  const config = getRerankConfig()
+  return config.reranker === 'none' ? null : config
+}
+
+// 참조 점수는 0-1 범위 (이전에 가중치가 곱해진 채 저장된 기록도 복원할 수 있도록)
+function clampScore(score: number) {
+  return Math.min(Math.max(score, 0), 1)
+}
+
+/**
+ * Panther 문서와 유사 예제를 검색해 프롬프트를 강화한 뒤 검증하고, 결과와 RAG 참조 정보를 저장
+ * /api/validate-rag 작업을 실행하는 워커가 사용합니다.
+ * 같은 입력과 지식 베이스 버전으로 저장된 결과가 있으면 force가 아닌 한 그 기록을 그대로 반환합니다.
+ */
+export async function runRagValidation(
+  input: RagValidationInput,
+  onProgress: ValidationProgressCallback = () => {}
+): Promise<RagValidationOutput> {
+  const { code, spec, tests = [], ruleId, ragEnabled, includeExamples, force, language = DEFAULT_VALIDATION_LANGUAGE, samples = 1 } = input
+  const cache = await lookupValidationCache({
+    pipeline: 'rag',
+    code,
+    spec,
+    inputs: {
+      tests,
+      ruleId,
+      ragEnabled,
+      includeExamples,
+      language,
+      samples,
+      rubric: RUBRIC_VERSION,
+      retrieval: retrievalCacheInput(ragEnabled),
+      rerank: rerankCacheInput(ragEnabled),
+    },
+    promptVersion: ragPromptVersion(ragEnabled),
+    useKnowledgeBase: ragEnabled,
+    force,
+  })
+
+  if (cache.record) {
+    await onProgress('cache', getEvaluationMessages(language).progress.cache)
+    return {
+      result: await restoreCachedResult(cache.record.id, ragEnabled),
+      recordId: cache.record.id,
+      durationMs: cache.record.totalDurationMs,
+      cache: cache.info,
+    }
+  }
+
+  // 이 검증에서 발생한 LLM·임베딩 호출만 집계되도록 검증마다 사용량 컨텍스트를 분리
+  return trackUsage(() => validateWithRag(input, onProgress, cache.info))
+}
+
+// 캐시된 기록과 저장된 RAG 참조로 결과를 복원
+async function restoreCachedResult(recordId: string, ragEnabled: boolean): Promise<EnhancedValidationResult> {
+  const record = await getValidationRecord(recordId)
+  if (!record) throw new Error(`캐시된 검증 기록을 찾을 수 없습니다 (${recordId})`)
+
+  return EnhancedValidationResultSchema.parse({
+    ...record.result,
+    documentReferences: record.documentReferences.map(ref => ({
+      id: ref.documentId,
+      title: ref.title,
+      section: ref.section ?? undefined,
+      relevanceScore: clampScore(ref.relevanceScore),
+      rerankScore: ref.rerankScore ?? undefined,
+      content: ref.content,
+      documentType: ref.documentType
+    })),
+    similarExamples: record.exampleReferences.map(ref => ({
+      id: ref.exampleId,
+      title: ref.title,
+      similarity: clampScore(ref.similarityScore),
+      qualityScore: ref.qualityScore,
+      category: ref.category ?? undefined,
+      improvements: ref.improvements
+    })),
+    ragMetadata: {
+      documentsFound: record.documentReferences.length,
+      examplesFound: record.exampleReferences.length,
+      queryProcessingTime: 0,
+      ragEnabled
+    }
+  })
+}
+
+async function validateWithRag(
+  input: RagValidationInput,
+  onProgress: ValidationProgressCallback,
+  cache: ValidationCacheInfo
+): Promise<RagValidationOutput> {
+  const { code, userId, tests = [], spec, ruleId, ragEnabled, includeExamples, language = DEFAULT_VALIDATION_LANGUAGE, samples = 1 } = input
+  const startTime = Date.now()
+  const progress = getEvaluationMessages(language).progress
+
+  // 1. 로컬 Python 파서로 구문 검사
+  await onProgress('syntax', progress.syntax)
+  const syntaxResult = await checkPythonSyntax(code, language)
+
+  if (!syntaxResult.isValid) {
+    // 파싱되지 않는 코드는 RAG 검색과 Claude 호출을 모두 건너뜀
+    const syntaxErrorResult = EnhancedValidationResultSchema.parse({
+      ...buildSyntaxErrorResult(syntaxResult, language),
+      ragMetadata: {
+        documentsFound: 0,
+        examplesFound: 0,
+        queryProcessingTime: 0,
+        ragEnabled
+      }
+    })
+
+    const durationMs = Date.now() - startTime
+    const savedRecord = await saveValidationRecord(syntaxErrorResult, { code, userId, durationMs, ruleId, spec, cache, language })
+    return { result: syntaxErrorResult, recordId: savedRecord.id, durationMs, cache }
+  }
+
+  // 2. 정적 분석 (AST 기반 Panther 린터)
+  await onProgress('lint', progress.lint)
+  const lintFindings = await lintPantherRule(code, language)
+
+  // YAML 스펙이 주어진 경우 스키마 검증 및 코드와 교차 검사
+  const specCheck = spec ? await checkPantherSpec(spec, code, language) : null
+
+  // 요청의 테스트 이벤트와 스펙의 Tests를 샌드박스에서 실행
+  const allTests = [...tests, ...(specCheck?.tests ?? [])]
+  let testResults: TestRunSummary | undefined
+  if (allTests.length > 0) {
+    await onProgress('tests', progress.tests(allTests.length))
+    testResults = await runRuleTests(code, allTests, { language })
+  }
+
+  // 3. RAG 컨텍스트 구축
+  await onProgress('rag', progress.rag)
+
+  let ragContext = null
+  let enhancedPrompt = ''
+
+  if (ragEnabled) {
+    const ragEngine = new RAGEngine()
+
+    // Panther 규칙 특화 검색 실행
+    ragContext = await ragEngine.buildEnhancedContext(code, language)
+    enhancedPrompt = ragContext.enhancedPrompt
+
+    await onProgress('documents', progress.documents(ragContext.relevantDocuments.length))
+
+    // 규칙 준수성 컨텍스트 구축
+    const complianceContext = ragEngine.buildRuleComplianceContext(lintFindings, ragContext.relevantDocuments, language)
+
+    // 추가 메타데이터 정보 포함
+    ragContext.complianceContext = complianceContext
+
+    if (includeExamples) {
+      await onProgress('examples', progress.examples(ragContext.similarExamples.length))
+    }
+
+    // 규칙 준수성 예상 점수 미리 계산
+    if (complianceContext.complianceScore < 70) {
+      await onProgress('compliance', progress.compliance(complianceContext.complianceScore))
+    }
+  } else {
+    // RAG 비활성화 시 기본 프롬프트 사용
+    enhancedPrompt = renderValidationSystemPrompt(language)
+  }
+
+  // 4. 단계별 분석 진행
+  await onProgress('rules', progress.rules)
+  await onProgress('quality', progress.quality)
+  await onProgress('analysis', progress.ragAnalysis(samples))
+
+  // 5. Claude에게 강화된 프롬프트로 요청
+  // 도구 호출로 구조화된 응답 요청 (형식 오류는 한 번 복구 후 정적 분석 기반 결과로 대체)
+  const { output: llmResult, fallback, consistency } = await requestValidationOutput({
+    messages: [{
+      role: "user",
+      content: renderValidationUserPrompt(code, lintFindings, specCheck, testResults)
+    }],
+    system: enhancedPrompt,
+    temperature: 0.3,
+    max_tokens: 8192
+  }, { lintFindings, testResults, language, samples })
+
+  // 구문 검사 결과는 LLM 응답 대신 파서 결과를 사용하고, 정적 분석 결과를 findings 앞에 병합
+  const baseResult = {
+    ...llmResult,
+    syntaxCheck: {
+      isValid: syntaxResult.isValid,
+      errors: syntaxResult.errors,
+    },
+    ruleCompliance: {
+      ...llmResult.ruleCompliance,
+      findings: mergeFindings(
+        lintFindings,
+        llmResult.ruleCompliance.findings,
+        [
+          ...(specCheck?.findings ?? []),
+          ...(testResults ? testResultsToFindings(testResults, language) : []),
+        ]
+      ),
+    },
+    testResults,
+    consistency,
+  }
+
+  // 6. RAG 정보를 포함한 강화된 결과 구성
+  const enhancedResult: EnhancedValidationResult = {
+    ...baseResult,
+    documentReferences: ragContext?.relevantDocuments.map(doc => ({
+      id: doc.id,
+      title: doc.title,
+      section: doc.section,
+      relevanceScore: clampScore(doc.similarity),
+      rerankScore: doc.rerankScore,
+      content: doc.content.slice(0, 500), // UI 표시용으로 축약
+      documentType: doc.documentType
+    })) || [],
+    similarExamples: ragContext?.similarExamples.map(example => ({
+      id: example.id,
+      title: example.title,
+      similarity: clampScore(example.similarity),
+      qualityScore: example.qualityScore,
+      category: example.category,
+      improvements: generateImprovements(baseResult, example, language),
+      codeSnippet: example.codeContent.slice(0, 300) // UI 표시용으로 축약
+    })) || [],
+    ragMetadata: {
+      documentsFound: ragContext?.relevantDocuments.length || 0,
+      examplesFound: ragContext?.similarExamples.length || 0,
+      queryProcessingTime: ragContext?.searchMetadata.queryProcessingTime || 0,
+      ragEnabled,
+      reranker: ragContext?.searchMetadata.reranker ?? null
+    }
+  }
+
+  // Zod로 결과 검증
+  const validatedResult = EnhancedValidationResultSchema.parse(enhancedResult)
+
+  // 7. 데이터베이스에 저장
+  const durationMs = Date.now() - startTime
+  const savedRecord = await saveValidationRecord(validatedResult, {
+    code,
+    userId,
+    durationMs,
+    ruleId,
+    spec,
+    cache,
+    cacheable: !fallback,
+    language,
+  })
+
+  // 8. RAG 참조 정보 저장
+  if (ragEnabled && validatedResult.documentReferences.length > 0) {
+    const docRefs = validatedResult.documentReferences.map(ref => ({
+      validationId: savedRecord.id,
+      documentId: ref.id,
+      relevanceScore: ref.relevanceScore,
+      rerankScore: ref.rerankScore ?? null,
+      usageContext: 'rag-enhanced-validation'
+    }))
+
+    await db.insert(validationDocumentReferences).values(docRefs)
+  }
+
+  if (ragEnabled && includeExamples && validatedResult.similarExamples.length > 0) {
+    const exampleRefs = validatedResult.similarExamples.map(ref => ({
+      validationId: savedRecord.id,
+      exampleId: ref.id,
+      similarityScore: ref.similarity,
+      improvements: ref.improvements
+    }))
+
+    await db.insert(validationExampleReferences).values(exampleRefs)
+  }
+
+  return { result: validatedResult, recordId: savedRecord.id, durationMs, cache }
+}
+
+const IMPROVEMENT_MESSAGES: Record<ValidationLanguage, {
+  compliance: string
+  quality: string
+  category: (category: string) => string
+  general: string
+}> = {
+  ko: {
+    compliance: '규칙 준수성 개선 필요',
+    quality: '코드 품질 개선 필요',
+    category: category => `${category} 카테고리 모범 사례 참고`,
+    general: '전반적인 구조 개선 참고',
+  },
+  en: {
+    compliance: 'Improve rule compliance',
+    quality: 'Improve code quality',
+    category: category => `See best practices for the ${category} category`,
+    general: 'See the overall structure',
+  },
+}
+
+// 도우미 함수: 예제 기반 개선사항 생성
+function generateImprovements(
+  result: Pick<ValidationResult, 'ruleCompliance' | 'codeQuality'>,
+  example: Pick<ExampleSearchResult, 'qualityScore' | 'category'>,
+  language: ValidationLanguage
+): string[] {
+  const messages = IMPROVEMENT_MESSAGES[language]
+  const improvements: string[] = []
+
+  if (result.ruleCompliance.score < example.qualityScore) {
+    improvements.push(messages.compliance)
+  }
+
+  if (result.codeQuality.score < example.qualityScore) {
+    improvements.push(messages.quality)
+  }
+
+  if (example.category) {
+    improvements.push(messages.category(example.category))
+  }
+
+  return improvements.length > 0 ? improvements : [messages.general]
+}
\ No newline at end of file
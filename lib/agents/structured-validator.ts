@@ -0,0 +1,168 @@
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  ValidationResultSchema,
+  type RuleTestCase,
+  type TestRunSummary,
+  type ValidationCacheInfo,
+  type ValidationLanguage,
+  type ValidationResult
+} from '@/lib/schemas/validation'
+import { saveValidationRecord, toValidationResult } from '@/lib/db/validations'
+import { lookupValidationCache } from '@/lib/db/validation-cache'
+import { trackUsage } from '@/lib/usage/tracker'
+import { checkPythonSyntax, buildSyntaxErrorResult } from '@/lib/analysis/syntax'
+import { lintPantherRule } from '@/lib/analysis/linter'
+import { mergeFindings } from '@/lib/analysis/findings'
+import { runRuleTests, testResultsToFindings } from '@/lib/analysis/test-runner'
+import { checkPantherSpec } from '@/lib/analysis/spec'
+import { promptVersionOf } from '@/lib/prompts/registry'
+import { RUBRIC_VERSION } from '@/lib/analysis/rubric'
+import { getEvaluationMessages } from '@/lib/i18n/evaluation-messages'
+import {
+  renderValidationSystemPrompt,
+  renderValidationUserPrompt,
+  requestValidationOutput
+} from '@/lib/agents/validation-tool'
+
+export interface StructuredValidationInput {
+  code: string
+  userId?: string
+  tests?: RuleTestCase[]
+  spec?: string // Panther 규칙 YAML 스펙
+  ruleId?: string // 버전 이력을 묶을 규칙 ID (없으면 스펙의 RuleID)
+  helperModules?: string[] // 규칙 팩의 global_helpers 모듈명 (실행하지 않음 - import하는 규칙은 테스트를 건너뜀)
+  force?: boolean // 캐시된 결과를 무시하고 다시 검증
+  language?: ValidationLanguage // 결과 언어 (기본값 ko)
+  samples?: number // 자기 일관성 검증 샘플 수 (기본값 1)
+}
+
+export interface StructuredValidationOutput {
+  result: ValidationResult
+  recordId: string
+  durationMs: number
+  cache: ValidationCacheInfo
+}
+
+export type ValidationProgressCallback = (step: string, message: string) => void | Promise<void>
+
+/**
+ * 구문 검사 → 정적 분석 → 스펙 검사 → 단위 테스트 → Claude 분석 순으로 검증하고 결과를 저장
+ * 단일 규칙 검증(/api/validate-structured)과 규칙 팩 일괄 검증이 함께 사용합니다.
+ * 같은 입력으로 저장된 결과가 있으면 force가 아닌 한 그 기록을 그대로 반환합니다.
+ */
+export async function runStructuredValidation(
+  input: StructuredValidationInput,
+  onProgress: ValidationProgressCallback = () => {}
+): Promise<StructuredValidationOutput> {
+  const { code, spec, tests = [], helperModules = [], ruleId, force, language = DEFAULT_VALIDATION_LANGUAGE, samples = 1 } = input
+  const cache = await lookupValidationCache({
+    pipeline: 'structured',
+    code,
+    spec,
+    inputs: { tests, helperModules, ruleId, language, samples, rubric: RUBRIC_VERSION },
+    promptVersion: promptVersionOf('validation-system', 'validation-user'),
+    useKnowledgeBase: false,
+    force,
+  })
+
+  if (cache.record) {
+    await onProgress('cache', getEvaluationMessages(language).progress.cache)
+    return {
+      result: toValidationResult(cache.record),
+      recordId: cache.record.id,
+      durationMs: cache.record.totalDurationMs,
+      cache: cache.info,
+    }
+  }
+
+  // 이 검증에서 발생한 LLM·임베딩 호출만 집계되도록 검증마다 사용량 컨텍스트를 분리
+  return trackUsage(() => validateStructured(input, onProgress, cache.info))
+}
+
+async function validateStructured(
+  input: StructuredValidationInput,
+  onProgress: ValidationProgressCallback,
+  cache: ValidationCacheInfo
+): Promise<StructuredValidationOutput> {
+  const { code, userId, tests = [], spec, ruleId, helperModules, language = DEFAULT_VALIDATION_LANGUAGE, samples = 1 } = input
+  const startTime = Date.now()
+  const progress = getEvaluationMessages(language).progress
+
+  // 구문 검사는 로컬 Python 파서로 수행
+  await onProgress('syntax', progress.syntax)
+  const syntaxResult = await checkPythonSyntax(code, language)
+
+  if (!syntaxResult.isValid) {
+    // 파싱되지 않는 코드는 Claude에 보내지 않음
+    const syntaxErrorResult = ValidationResultSchema.parse(buildSyntaxErrorResult(syntaxResult, language))
+    const durationMs = Date.now() - startTime
+    const savedRecord = await saveValidationRecord(syntaxErrorResult, { code, userId, durationMs, ruleId, spec, cache, language })
+    return { result: syntaxErrorResult, recordId: savedRecord.id, durationMs, cache }
+  }
+
+  // AST 기반 Panther 린터 (결정적 결과)
+  const lintFindings = await lintPantherRule(code, language)
+
+  // YAML 스펙이 주어진 경우 스키마 검증 및 코드와 교차 검사
+  const specCheck = spec ? await checkPantherSpec(spec, code, language) : null
+
+  // 요청의 테스트 이벤트와 스펙의 Tests를 샌드박스에서 실행
+  const allTests = [...tests, ...(specCheck?.tests ?? [])]
+  let testResults: TestRunSummary | undefined
+  if (allTests.length > 0) {
+    await onProgress('tests', progress.tests(allTests.length))
+    testResults = await runRuleTests(code, allTests, { helperModules, language })
+  }
+
+  await onProgress('rules', progress.rules)
+  await onProgress('quality', progress.quality)
+  await onProgress('analysis', progress.analysis(samples))
+
+  // 도구 호출로 구조화된 응답 요청 (형식 오류는 한 번 복구 후 정적 분석 기반 결과로 대체)
+  const { output: llmResult, fallback, consistency } = await requestValidationOutput({
+    messages: [{
+      role: "user",
+      content: renderValidationUserPrompt(code, lintFindings, specCheck, testResults)
+    }],
+    system: renderValidationSystemPrompt(language),
+    temperature: 0.3,
+    max_tokens: 8192
+  }, { lintFindings, testResults, language, samples })
+
+  // 구문 검사 결과는 파서 결과를 사용하고, 정적 분석 결과를 findings 앞에 병합
+  const validatedResult: ValidationResult = ValidationResultSchema.parse({
+    ...llmResult,
+    syntaxCheck: {
+      isValid: syntaxResult.isValid,
+      errors: syntaxResult.errors,
+    },
+    ruleCompliance: {
+      ...llmResult.ruleCompliance,
+      findings: mergeFindings(
+        lintFindings,
+        llmResult.ruleCompliance.findings,
+        [
+          ...(specCheck?.findings ?? []),
+          ...(testResults ? testResultsToFindings(testResults, language) : []),
+        ]
+      ),
+    },
+    testResults,
+    consistency,
+  })
+
+  // 데이터베이스에 저장
+  const durationMs = Date.now() - startTime
+  const savedRecord = await saveValidationRecord(validatedResult, {
+    code,
+    userId,
+    durationMs,
+    ruleId,
+    spec,
+    cache,
+    cacheable: !fallback,
+    language,
+  })
+
+  return { result: validatedResult, recordId: savedRecord.id, durationMs, cache }
+}
\ No newline at end of file
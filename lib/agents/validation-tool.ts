@@ -0,0 +1,143 @@
+import { estimateComplianceScore, summarizeLintFindings, type LintFinding } from '@/lib/analysis/linter'
+import { withLineNumbers } from '@/lib/analysis/findings'
+import { summarizeSpec, type SpecCheckResult } from '@/lib/analysis/spec'
+import { summarizeTestResults } from '@/lib/analysis/test-runner'
+import { combineSamples } from '@/lib/analysis/consistency'
+import { applyRubric } from '@/lib/analysis/rubric'
+import { invokeStructured, type StructuredTool } from '@/lib/llm/structured'
+import { renderPrompt } from '@/lib/prompts/registry'
+import type { LLMRequest } from '@/lib/llm'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  LLMValidationOutputSchema,
+  type LLMValidationOutput,
+  type ScoreConsistency,
+  type ScoredValidationOutput,
+  type TestRunSummary,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+export const VALIDATION_TOOL: StructuredTool<LLMValidationOutput> = {
+  name: 'submit_validation',
+  description: 'Panther 탐지 규칙 코드의 채점 기준 항목별 점수, 규칙 준수성, 코드 품질, 상세 분석 결과를 제출합니다.',
+  schema: LLMValidationOutputSchema,
+}
+
+// response-language 프롬프트의 languageName 값
+export const RESPONSE_LANGUAGE_NAMES: Record<ValidationLanguage, string> = {
+  ko: 'Korean',
+  en: 'English',
+}
+
+/**
+ * validation-system 프롬프트
+ */
+export function renderValidationSystemPrompt(language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE) {
+  return renderPrompt('validation-system', {
+    toolName: VALIDATION_TOOL.name,
+    languageName: RESPONSE_LANGUAGE_NAMES[language],
+  })
+}
+
+/**
+ * validation-user 프롬프트 - 줄 번호가 붙은 코드와 정적 분석·스펙·테스트 결과 요약
+ */
+export function renderValidationUserPrompt(
+  code: string,
+  lintFindings: LintFinding[],
+  specCheck: SpecCheckResult | null = null,
+  testResults?: TestRunSummary
+) {
+  return renderPrompt('validation-user', {
+    toolName: VALIDATION_TOOL.name,
+    code: withLineNumbers(code),
+    lintSummary: summarizeLintFindings(lintFindings),
+    specSummary: summarizeSpec(specCheck),
+    testSummary: summarizeTestResults(testResults),
+  })
+}
+
+/**
+ * 모델 응답을 사용할 수 없을 때의 결과 - 정적 분석 결과로 점수를 추정 (항목별 점수 없음)
+ */
+const FALLBACK_MESSAGES: Record<ValidationLanguage, { message: string, suggestion: string }> = {
+  ko: {
+    message: '모델 응답이 결과 형식에 맞지 않아 LLM 분석 결과를 사용하지 못했습니다. 점수는 정적 분석 결과로 추정한 값입니다.',
+    suggestion: '잠시 후 다시 검증해주세요.',
+  },
+  en: {
+    message: 'The model response did not match the result format, so the LLM analysis could not be used. Scores are estimated from static analysis.',
+    suggestion: 'Please validate again in a moment.',
+  },
+}
+
+export function buildFallbackOutput(
+  lintFindings: LintFinding[],
+  error: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): ScoredValidationOutput {
+  const score = estimateComplianceScore(lintFindings)
+  const { message, suggestion } = FALLBACK_MESSAGES[language]
+
+  return {
+    ruleCompliance: {
+      score,
+      findings: [{ message, severity: 'warning', category: 'quality' }],
+      suggestions: [suggestion],
+    },
+    codeQuality: {
+      score,
+      feedback: message,
+    },
+    detailedAnalysis: `${message}\n\n\`\`\`\n${error}\n\`\`\``,
+  }
+}
+
+export interface ValidationOutputResult {
+  output: ScoredValidationOutput
+  fallback: boolean // 모델 응답 대신 정적 분석 기반 결과를 사용한 경우 (캐시하지 않음)
+  consistency?: ScoreConsistency // 여러 샘플로 검증한 경우 점수 분포
+}
+
+export interface ValidationOutputOptions {
+  lintFindings: LintFinding[]
+  testResults?: TestRunSummary // 있으면 채점 기준의 tests 항목을 통과율로 채점
+  language?: ValidationLanguage
+  samples?: number // 1보다 크면 자기 일관성 검증
+}
+
+/**
+ * submit_validation 도구로 분석 결과를 한 번 요청하고 항목별 점수로 최종 점수를 계산
+ * 복구 후에도 형식이 맞지 않으면 예외 대신 정적 분석 기반 결과를 반환합니다.
+ */
+async function requestSingleOutput(
+  request: LLMRequest,
+  { lintFindings, testResults, language = DEFAULT_VALIDATION_LANGUAGE }: ValidationOutputOptions
+): Promise<ValidationOutputResult> {
+  const outcome = await invokeStructured(request, VALIDATION_TOOL)
+  return outcome.success
+    ? { output: applyRubric(outcome.data, testResults, language), fallback: false }
+    : { output: buildFallbackOutput(lintFindings, outcome.error, language), fallback: true }
+}
+
+/**
+ * 분석 결과 요청 - samples가 1보다 크면 같은 요청으로 여러 결과를 병렬로 받아 하나로 합침 (자기 일관성 검증)
+ * 형식 오류로 실패한 샘플은 제외하고, 모두 실패하면 정적 분석 기반 결과를 반환합니다.
+ */
+export async function requestValidationOutput(
+  request: LLMRequest,
+  options: ValidationOutputOptions
+): Promise<ValidationOutputResult> {
+  const { samples = 1 } = options
+  if (samples <= 1) return requestSingleOutput(request, options)
+
+  // Bedrock 제공자의 호출은 공유 호출 제한(lib/bedrock/limiter)을 거쳐 실행됨
+  const results = await Promise.all(
+    Array.from({ length: samples }, () => requestSingleOutput(request, options))
+  )
+  const succeeded = results.filter(result => !result.fallback).map(result => result.output)
+  if (succeeded.length === 0) return results[0]
+
+  const { output, consistency } = combineSamples(succeeded, samples)
+  return { output, fallback: false, consistency }
+}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { scoreRubric } from '@/lib/analysis/rubric'
+import type {
+  LLMFinding,
+  MergedLLMFinding,
+  RubricScore,
+  ScoreConsistency,
+  ScoreStats,
+  ScoredValidationOutput
+} from '@/lib/schemas/validation'
+
+/**
+ * 자기 일관성 검증 - 같은 요청으로 받은 여러 샘플을 하나의 결과로 합침
+ * 채점 기준 항목은 샘플별 점수의 중앙값을 사용하고, 발견 항목과 개선 제안은 비슷한 항목끼리 묶어 보고한 샘플 수를 셉니다.
+ */
+
+// 줄 범위가 겹치면 더 느슨한 기준으로 같은 항목으로 봄
+const SIMILAR_WITH_LINES = 0.35
+const SIMILAR_WITHOUT_LINES = 0.6
+
+const SEVERITY_RANK: Record<LLMFinding['severity'], number> = { error: 0, warning: 1, info: 2 }
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+export function scoreStats(scores: number[]): ScoreStats {
+  const sorted = [...scores].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  const mean = sorted.reduce((sum, score) => sum + score, 0) / sorted.length
+  const variance = sorted.reduce((sum, score) => sum + (score - mean) ** 2, 0) / sorted.length
+
+  return {
+    median: round(median),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    stddev: round(Math.sqrt(variance)),
+  }
+}
+
+// 한국어 조사·어미 차이에도 비교할 수 있도록 공백을 뺀 문자 bigram 사용
+function bigrams(text: string) {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+  const result = new Set<string>()
+  for (let i = 0; i < normalized.length - 1; i++) result.add(normalized.slice(i, i + 2))
+  if (normalized.length === 1) result.add(normalized)
+  return result
+}
+
+// Dice 계수 (0-1)
+function textSimilarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(gram => {
+    if (b.has(gram)) shared++
+  })
+  return 2 * shared / (a.size + b.size)
+}
+
+// 두 항목 모두 줄 정보가 있을 때만 겹침 여부를 판단 (없으면 null)
+function linesOverlap(a: LLMFinding, b: LLMFinding): boolean | null {
+  if (!a.startLine || !b.startLine) return null
+  return a.startLine <= (b.endLine ?? b.startLine) && b.startLine <= (a.endLine ?? a.startLine)
+}
+
+interface Cluster<T> {
+  members: Array<{ item: T, sample: number, grams: Set<string> }>
+}
+
+/**
+ * 샘플별 항목을 비슷한 것끼리 묶음 - 한 묶음에는 샘플마다 최대 하나의 항목만 들어감
+ */
+function clusterBySimilarity<T>(
+  samples: T[][],
+  textOf: (item: T) => string,
+  isSimilar: (a: T, b: T, similarity: number) => boolean
+): Cluster<T>[] {
+  const clusters: Cluster<T>[] = []
+
+  samples.forEach((items, sample) => {
+    items.forEach(item => {
+      const grams = bigrams(textOf(item))
+      let best: { cluster: Cluster<T>, similarity: number } | null = null
+
+      for (const cluster of clusters) {
+        if (cluster.members.some(member => member.sample === sample)) continue
+        const similarity = Math.max(...cluster.members.map(member => textSimilarity(grams, member.grams)))
+        if (isSimilar(cluster.members[0].item, item, similarity) && (!best || similarity > best.similarity)) {
+          best = { cluster, similarity }
+        }
+      }
+
+      if (best) best.cluster.members.push({ item, sample, grams })
+      else clusters.push({ members: [{ item, sample, grams }] })
+    })
+  })
+
+  // 보고한 샘플이 많은 순 (같으면 처음 나온 순서 유지)
+  return clusters
+    .map((cluster, index) => ({ cluster, index }))
+    .sort((a, b) => b.cluster.members.length - a.cluster.members.length || a.index - b.index)
+    .map(({ cluster }) => cluster)
+}
+
+// 다른 항목들과 가장 비슷한 항목을 대표로 사용
+function representative<T>(cluster: Cluster<T>): T {
+  let best = cluster.members[0]
+  let bestScore = -1
+  for (const member of cluster.members) {
+    const score = cluster.members.reduce((sum, other) => sum + textSimilarity(member.grams, other.grams), 0)
+    if (score > bestScore) {
+      best = member
+      bestScore = score
+    }
+  }
+  return best.item
+}
+
+// 가장 많이 나온 심각도 (같으면 더 심각한 쪽)
+function majoritySeverity(findings: LLMFinding[]): LLMFinding['severity'] {
+  const counts = new Map<LLMFinding['severity'], number>()
+  findings.forEach(finding => counts.set(finding.severity, (counts.get(finding.severity) ?? 0) + 1))
+  return [...counts].sort((a, b) => b[1] - a[1] || SEVERITY_RANK[a[0]] - SEVERITY_RANK[b[0]])[0][0]
+}
+
+export function mergeSampleFindings(samples: LLMFinding[][]): MergedLLMFinding[] {
+  const clusters = clusterBySimilarity(samples, finding => finding.message, (a, b, similarity) => {
+    const overlap = linesOverlap(a, b)
+    if (overlap === false) return false
+    return similarity >= (overlap ? SIMILAR_WITH_LINES : SIMILAR_WITHOUT_LINES)
+  })
+
+  return clusters.map(cluster => {
+    const findings = cluster.members.map(member => member.item)
+    return {
+      ...representative(cluster),
+      severity: majoritySeverity(findings),
+      agreement: findings.length,
+    }
+  })
+}
+
+function mergeSuggestions(samples: string[][]): string[] {
+  return clusterBySimilarity(samples, suggestion => suggestion, (_a, _b, similarity) => similarity >= SIMILAR_WITHOUT_LINES)
+    .map(representative)
+}
+
+// 채점 기준 항목별로 샘플 점수의 중앙값을 사용 (근거는 중앙값에 가장 가까운 샘플의 내용)
+function mergeRubrics(samples: RubricScore[][]): RubricScore[] {
+  const [first = []] = samples
+  return first.map(entry => {
+    const entries = samples.flatMap(rubric => rubric.filter(other => other.criterion === entry.criterion))
+    const { median } = scoreStats(entries.map(other => other.points))
+    const closest = entries.reduce((best, other) =>
+      Math.abs(other.points - median) < Math.abs(best.points - median) ? other : best
+    )
+    return { ...entry, points: median, rationale: closest.rationale }
+  })
+}
+
+/**
+ * 성공한 샘플들을 하나의 결과로 합침
+ * 점수는 항목별 중앙값으로 다시 계산하고, 점수 분포는 샘플별 최종 점수로 보고합니다.
+ * 피드백과 상세 분석은 두 점수가 중앙값에 가장 가까운 샘플의 내용을 사용합니다.
+ */
+export function combineSamples(
+  outputs: ScoredValidationOutput[],
+  requested: number
+): { output: ScoredValidationOutput, consistency: ScoreConsistency } {
+  const ruleCompliance = scoreStats(outputs.map(output => output.ruleCompliance.score))
+  const codeQuality = scoreStats(outputs.map(output => output.codeQuality.score))
+
+  const distance = (output: ScoredValidationOutput) =>
+    Math.abs(output.ruleCompliance.score - ruleCompliance.median) + Math.abs(output.codeQuality.score - codeQuality.median)
+  const closest = outputs.reduce((best, output) => distance(output) < distance(best) ? output : best)
+  const rubric = mergeRubrics(outputs.map(output => output.rubric ?? []))
+
+  return {
+    output: {
+      ruleCompliance: {
+        score: scoreRubric(rubric, 'ruleCompliance'),
+        findings: mergeSampleFindings(outputs.map(output => output.ruleCompliance.findings)),
+        suggestions: mergeSuggestions(outputs.map(output => output.ruleCompliance.suggestions)),
+      },
+      codeQuality: {
+        score: scoreRubric(rubric, 'codeQuality'),
+        feedback: closest.codeQuality.feedback,
+      },
+      detailedAnalysis: closest.detailedAnalysis,
+      rubric,
+    },
+    consistency: { samples: outputs.length, requested, ruleCompliance, codeQuality },
+  }
+}
\ No newline at end of file
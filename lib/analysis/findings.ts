@@ -0,0 +1,58 @@
+import { toFindings, type LintFinding } from '@/lib/analysis/linter'
+import { getEvaluationMessages } from '@/lib/i18n/evaluation-messages'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  parseLLMFindings,
+  type Finding,
+  type LegacyValidationResult,
+  type ValidationLanguage,
+  type ValidationResult
+} from '@/lib/schemas/validation'
+
+/**
+ * LLM이 정확한 startLine/endLine을 반환할 수 있도록 줄 번호를 붙인 코드
+ */
+export function withLineNumbers(code: string): string {
+  const lines = code.split('\n')
+  const width = String(lines.length).length
+  return lines.map((line, index) => `${String(index + 1).padStart(width, ' ')} | ${line}`).join('\n')
+}
+
+/**
+ * 결정적 발견 항목(정적 분석, 스펙 검사, 테스트 실행)을 앞에 두고 LLM 발견 항목을 병합
+ */
+export function mergeFindings(lintFindings: LintFinding[], llmFindings: unknown, deterministicFindings: Finding[] = []): Finding[] {
+  return [
+    ...toFindings(lintFindings),
+    ...deterministicFindings,
+    ...parseLLMFindings(llmFindings),
+  ]
+}
+
+/**
+ * 문자열 형태의 발견 항목 - 결정적 결과(정적 분석, 스펙 검사)는 출처와 규칙 코드를 앞에 표시
+ */
+export function formatFinding(finding: Finding, language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE): string {
+  const messages = getEvaluationMessages(language).findings
+  const location = finding.startLine ? `${messages.lineRange(finding.startLine, finding.endLine)}: ` : ''
+  const label = finding.source === 'linter' || finding.source === 'spec' ? messages.source[finding.source] : null
+  const prefix = label ? `[${label}${finding.ruleCode ? ` ${finding.ruleCode}` : ''}] ` : ''
+  return `${prefix}${location}${finding.message}`
+}
+
+export function toLegacyFindings(findings: Finding[], language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE): string[] {
+  return findings.map(finding => formatFinding(finding, language))
+}
+
+export function toLegacyValidationResult(
+  result: ValidationResult,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): LegacyValidationResult {
+  return {
+    ...result,
+    ruleCompliance: {
+      ...result.ruleCompliance,
+      findings: toLegacyFindings(result.ruleCompliance.findings, language),
+    },
+  }
+}
\ No newline at end of file
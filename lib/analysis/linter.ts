@@ -0,0 +1,278 @@
+import { runPythonJson } from '@/lib/analysis/python'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  type Finding,
+  type FindingCategory,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export type LintRuleCode = 'PNR001' | 'PNR002' | 'PNR003' | 'PNR004'
+
+export interface LintRule {
+  code: LintRuleCode
+  title: string
+  severity: LintSeverity
+  category: FindingCategory
+}
+
+export interface LintFinding {
+  code: LintRuleCode
+  title: string
+  severity: LintSeverity
+  message: string
+  startLine: number
+  endLine: number
+}
+
+// 안정적인 규칙 코드 - 번호는 재사용하지 않고 새 검사는 뒤에 추가
+export const LINT_RULES: Record<LintRuleCode, LintRule> = {
+  PNR001: { code: 'PNR001', title: 'missing rule(event)', severity: 'error', category: 'compliance' },
+  PNR002: { code: 'PNR002', title: 'rule returns non-bool', severity: 'error', category: 'compliance' },
+  PNR003: { code: 'PNR003', title: 'network import', severity: 'error', category: 'security' },
+  PNR004: { code: 'PNR004', title: 'unsafe nested dict access', severity: 'warning', category: 'compliance' },
+}
+
+interface RawLintIssue {
+  code: LintRuleCode
+  line: number
+  endLine: number
+  detail: Record<string, string | number | string[]>
+}
+
+// 탐지 규칙 내에서 외부 통신에 사용되는 모듈 (최상위 패키지 기준)
+const NETWORK_MODULES = [
+  'aiohttp', 'boto3', 'botocore', 'ftplib', 'grpc', 'http', 'httplib', 'httplib2', 'httpx',
+  'paramiko', 'pycurl', 'requests', 'smtplib', 'socket', 'telnetlib', 'urllib', 'urllib2',
+  'urllib3', 'websocket', 'websockets', 'xmlrpc',
+]
+
+const LINT_SCRIPT = `
+import ast, json, sys
+
+NETWORK_MODULES = set(json.loads(sys.argv[1]))
+SAFE_SUBMODULES = {"urllib.parse"}
+tree = ast.parse(sys.stdin.read())
+issues = []
+
+def report(code, node, single_line=False, **detail):
+    issues.append({
+        "code": code,
+        "line": node.lineno,
+        "endLine": node.lineno if single_line else (getattr(node, "end_lineno", None) or node.lineno),
+        "detail": detail,
+    })
+
+# PNR001: 최상위 rule(event) 함수
+rule_fn = next((n for n in tree.body if isinstance(n, ast.FunctionDef) and n.name == "rule"), None)
+if rule_fn is None:
+    issues.append({"code": "PNR001", "line": 1, "endLine": 1, "detail": {"reason": "missing"}})
+else:
+    params = rule_fn.args.posonlyargs + rule_fn.args.args
+    if len(params) != 1 or rule_fn.args.vararg or rule_fn.args.kwonlyargs:
+        report("PNR001", rule_fn, single_line=True, reason="signature", params=[p.arg for p in params])
+
+# PNR002: rule()이 bool이 아닌 값을 반환
+def own_returns(fn):
+    stack = list(fn.body)
+    while stack:
+        node = stack.pop()
+        if isinstance(node, ast.Return):
+            yield node
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.ClassDef)):
+            continue
+        stack.extend(ast.iter_child_nodes(node))
+
+def non_bool_kind(value):
+    if value is None:
+        return "None"
+    if isinstance(value, ast.Constant) and not isinstance(value.value, bool):
+        return type(value.value).__name__
+    if isinstance(value, (ast.JoinedStr, ast.List, ast.Dict, ast.Set, ast.Tuple, ast.ListComp, ast.DictComp, ast.SetComp, ast.Lambda)):
+        return type(value).__name__
+    return None
+
+if rule_fn is not None:
+    returns = list(own_returns(rule_fn))
+    if not returns:
+        report("PNR002", rule_fn, kind="implicit None")
+    for ret in returns:
+        kind = non_bool_kind(ret.value)
+        if kind:
+            report("PNR002", ret, kind=kind)
+
+# PNR003: 네트워크 모듈 import
+for node in ast.walk(tree):
+    if isinstance(node, ast.Import):
+        for alias in node.names:
+            if alias.name.split(".")[0] in NETWORK_MODULES and alias.name not in SAFE_SUBMODULES:
+                report("PNR003", node, module=alias.name)
+    elif isinstance(node, ast.ImportFrom) and node.module and node.level == 0:
+        if node.module.split(".")[0] in NETWORK_MODULES and node.module not in SAFE_SUBMODULES:
+            report("PNR003", node, module=node.module)
+
+# PNR004: event["a"]["b"] 또는 event.get("a").get("b") 형태의 중첩 접근
+def key_of(node):
+    if isinstance(node, ast.Constant) and isinstance(node.value, str):
+        return node.value
+    return "?"
+
+def is_event(node):
+    return isinstance(node, ast.Name) and node.id == "event"
+
+def is_event_get(node):
+    return (isinstance(node, ast.Call) and isinstance(node.func, ast.Attribute)
+            and node.func.attr == "get" and is_event(node.func.value) and node.args)
+
+for node in ast.walk(tree):
+    if isinstance(node, ast.Subscript) and isinstance(node.value, ast.Subscript) and is_event(node.value.value):
+        report("PNR004", node, pattern="subscript", keys=[key_of(node.value.slice), key_of(node.slice)])
+    elif (isinstance(node, ast.Call) and isinstance(node.func, ast.Attribute)
+          and node.func.attr == "get" and is_event_get(node.func.value) and node.args):
+        report("PNR004", node, pattern="get", keys=[key_of(node.func.value.args[0]), key_of(node.args[0])])
+
+issues.sort(key=lambda i: (i["line"], i["code"]))
+print(json.dumps({"issues": issues}))
+`
+
+interface LintMessages {
+  missingRule: string
+  ruleSignature: (params: string) => string
+  implicitNone: string
+  nonBoolReturn: (kind: string) => string
+  networkImport: (module: string) => string
+  unsafeNestedAccess: (keys: string) => string
+}
+
+const LINT_MESSAGES: Record<ValidationLanguage, LintMessages> = {
+  ko: {
+    missingRule: 'rule(event) 함수가 정의되어 있지 않습니다. Panther 규칙은 최상위 rule(event) 함수가 필수입니다.',
+    ruleSignature: params => `rule() 함수는 event 하나만 인자로 받아야 합니다 (현재: ${params || '인자 없음'}).`,
+    implicitNone: 'rule() 함수에 return 문이 없어 None을 반환합니다. True/False를 명시적으로 반환하세요.',
+    nonBoolReturn: kind => `rule() 함수가 bool이 아닌 값(${kind})을 반환합니다. True/False를 반환하세요.`,
+    networkImport: module => `네트워크 모듈 '${module}'을(를) import합니다. 탐지 규칙 내 외부 API 호출은 금지됩니다.`,
+    unsafeNestedAccess: keys => `중첩 필드를 안전하지 않게 접근합니다. 누락된 키에서 예외가 발생할 수 있으므로 deep_get(event, ${keys})을 사용하세요.`,
+  },
+  en: {
+    missingRule: 'No rule(event) function is defined. Panther rules require a top-level rule(event) function.',
+    ruleSignature: params => `rule() must take exactly one argument, event (current: ${params || 'no arguments'}).`,
+    implicitNone: 'rule() has no return statement, so it returns None. Return True or False explicitly.',
+    nonBoolReturn: kind => `rule() returns a non-bool value (${kind}). Return True or False.`,
+    networkImport: module => `Imports the network module '${module}'. External API calls are not allowed in detection rules.`,
+    unsafeNestedAccess: keys => `Accesses a nested field unsafely. A missing key raises an exception, so use deep_get(event, ${keys}).`,
+  },
+}
+
+function describeIssue(issue: RawLintIssue, language: ValidationLanguage): string {
+  const { detail } = issue
+  const messages = LINT_MESSAGES[language]
+
+  switch (issue.code) {
+    case 'PNR001':
+      return detail.reason === 'missing'
+        ? messages.missingRule
+        : messages.ruleSignature((detail.params as string[]).join(', '))
+    case 'PNR002':
+      return detail.kind === 'implicit None'
+        ? messages.implicitNone
+        : messages.nonBoolReturn(String(detail.kind))
+    case 'PNR003':
+      return messages.networkImport(String(detail.module))
+    case 'PNR004': {
+      const keys = (detail.keys as string[]).map(key => `"${key}"`).join(', ')
+      return messages.unsafeNestedAccess(keys)
+    }
+  }
+}
+
+/**
+ * Python AST 기반 Panther 규칙 정적 분석
+ * 구문 검사를 통과한 코드에 대해서만 호출해야 합니다.
+ */
+export async function lintPantherRule(
+  code: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<LintFinding[]> {
+  const { issues } = await runPythonJson<{ issues: RawLintIssue[] }>(
+    LINT_SCRIPT,
+    { input: code, args: [JSON.stringify(NETWORK_MODULES)] }
+  )
+
+  return issues.map(issue => ({
+    code: issue.code,
+    title: LINT_RULES[issue.code].title,
+    severity: LINT_RULES[issue.code].severity,
+    message: describeIssue(issue, language),
+    startLine: issue.line,
+    endLine: issue.endLine,
+  }))
+}
+
+// global_helpers 모듈에 적용하는 검사 (rule() 함수에 대한 PNR001·PNR002 제외)
+const HELPER_LINT_CODES: LintRuleCode[] = ['PNR003', 'PNR004']
+
+/**
+ * 규칙 팩 global_helpers 정적 분석 - helper 코드는 실행하지 않고 AST로만 검사
+ * 구문 검사를 통과한 코드에 대해서만 호출해야 합니다.
+ */
+export async function lintHelperModule(
+  code: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<LintFinding[]> {
+  const findings = await lintPantherRule(code, language)
+  return findings.filter(finding => HELPER_LINT_CODES.includes(finding.code))
+}
+
+// 심각도별 예상 준수성 점수 감점
+const SEVERITY_PENALTY: Record<LintSeverity, number> = {
+  error: 25,
+  warning: 10,
+  info: 3,
+}
+
+/**
+ * 정적 분석 결과만으로 계산한 예상 규칙 준수성 점수 (0-100)
+ */
+export function estimateComplianceScore(findings: LintFinding[]): number {
+  const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0)
+  return Math.max(0, 100 - penalty)
+}
+
+/**
+ * 정적 분석 결과를 구조화된 Finding으로 변환 (source: 'linter')
+ */
+export function toFindings(findings: LintFinding[]): Finding[] {
+  const seen = new Map<string, number>()
+
+  return findings.map(finding => {
+    const baseId = `${finding.code}-L${finding.startLine}`
+    const count = (seen.get(baseId) ?? 0) + 1
+    seen.set(baseId, count)
+
+    return {
+      id: count === 1 ? baseId : `${baseId}-${count}`,
+      message: finding.message,
+      severity: finding.severity,
+      category: LINT_RULES[finding.code].category,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      source: 'linter' as const,
+      ruleCode: finding.code,
+    }
+  })
+}
+
+/**
+ * LLM 프롬프트에 포함할 정적 분석 요약 (중복 보고 방지용)
+ */
+export function summarizeLintFindings(findings: LintFinding[]): string {
+  if (findings.length === 0) {
+    return 'Static analysis (deterministic linter) found no issues.'
+  }
+
+  return [
+    'Static analysis (deterministic linter) already reported the following issues. Do not repeat them in findings:',
+    ...findings.map(finding => `- ${finding.code} (${finding.severity}, line ${finding.startLine}): ${finding.title}`),
+  ].join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { posix } from 'path'
+import { runPythonJson } from '@/lib/analysis/python'
+import { readSpecFields } from '@/lib/analysis/spec'
+
+export interface PackFile {
+  path: string
+  content: string
+}
+
+export interface PackRuleEntry {
+  path: string // rules/ 기준 .py 경로
+  code: string
+  specPath?: string
+  spec?: string
+  ruleId?: string
+}
+
+export interface PackSkippedFile {
+  path: string
+  reason: string
+}
+
+export interface RulePack {
+  rules: PackRuleEntry[]
+  helpers: Record<string, string> // global_helpers 모듈명 → 소스
+  dataModels: string[]
+  skipped: PackSkippedFile[]
+}
+
+// 압축 해제 제한 (압축 폭탄 방지)
+const MAX_FILES = 5000
+const MAX_FILE_BYTES = 1024 * 1024
+const MAX_TOTAL_BYTES = 64 * 1024 * 1024
+export const MAX_PACK_RULES = 500
+
+const PACK_SECTIONS = ['rules', 'global_helpers', 'data_models'] as const
+type PackSection = typeof PACK_SECTIONS[number]
+
+// 파일은 디스크에 쓰지 않고 메모리에서 읽어 .py/.yml만 반환
+const EXTRACT_SCRIPT = `
+import base64, io, json, sys, tarfile, zipfile
+
+limits = json.loads(sys.argv[1])
+data = io.BytesIO(base64.b64decode(sys.stdin.read()))
+EXTENSIONS = (".py", ".yml", ".yaml")
+files, skipped, total = [], [], 0
+
+def accept(name, size):
+    global total
+    if not name.endswith(EXTENSIONS) or "__MACOSX/" in name:
+        return False
+    if size > limits["maxFileBytes"]:
+        skipped.append({"path": name, "reason": "file too large"})
+        return False
+    total += size
+    if len(files) >= limits["maxFiles"] or total > limits["maxTotalBytes"]:
+        raise ValueError("pack exceeds the size limits")
+    return True
+
+def decode(raw):
+    return raw.decode("utf-8", "replace")
+
+try:
+    if zipfile.is_zipfile(data):
+        with zipfile.ZipFile(data) as archive:
+            for info in archive.infolist():
+                if not info.is_dir() and accept(info.filename, info.file_size):
+                    files.append({"path": info.filename, "content": decode(archive.read(info))})
+    else:
+        data.seek(0)
+        with tarfile.open(fileobj=data, mode="r:*") as archive:
+            for member in archive:
+                if member.isfile() and accept(member.name, member.size):
+                    files.append({"path": member.name, "content": decode(archive.extractfile(member).read())})
+except (ValueError, tarfile.TarError, zipfile.BadZipFile, EOFError, OSError) as e:
+    print(json.dumps({"error": (str(e) or type(e).__name__).splitlines()[0]}))
+    sys.exit(0)
+
+print(json.dumps({"files": files, "skipped": skipped}))
+`
+
+/**
+ * zip 또는 tar(.gz) 아카이브에서 .py/.yml 파일을 추출
+ */
+export async function extractPackArchive(archive: Buffer): Promise<{ files: PackFile[], skipped: PackSkippedFile[] }> {
+  const extracted = await runPythonJson<{ files?: PackFile[], skipped?: PackSkippedFile[], error?: string }>(
+    EXTRACT_SCRIPT,
+    {
+      input: archive.toString('base64'),
+      args: [JSON.stringify({ maxFiles: MAX_FILES, maxFileBytes: MAX_FILE_BYTES, maxTotalBytes: MAX_TOTAL_BYTES })],
+      timeoutMs: 30000,
+    }
+  )
+
+  if (extracted.error) {
+    throw new Error(`규칙 팩을 읽을 수 없습니다 (zip 또는 tar.gz만 지원): ${extracted.error}`)
+  }
+
+  return { files: extracted.files ?? [], skipped: extracted.skipped ?? [] }
+}
+
+/**
+ * panther-analysis 구조의 경로를 섹션 기준으로 정규화
+ * (예: panther-analysis-main/rules/aws/x.py → rules, aws/x.py)
+ */
+function locate(path: string): { section: PackSection, relative: string } | null {
+  const segments = path.split('/').filter(Boolean)
+  const index = segments.findIndex(segment => (PACK_SECTIONS as readonly string[]).includes(segment))
+  if (index === -1 || index === segments.length - 1) return null
+
+  return {
+    section: segments[index] as PackSection,
+    relative: segments.slice(index + 1).join('/'),
+  }
+}
+
+/**
+ * 추출된 파일을 규칙(.py + .yml), global_helpers, data_models로 분류
+ */
+export function buildRulePack(files: PackFile[], skipped: PackSkippedFile[] = []): RulePack {
+  const ruleCode = new Map<string, string>()
+  const ruleSpecs: PackFile[] = []
+  const helpers: Record<string, string> = {}
+  const dataModels: string[] = []
+  const skippedFiles = [...skipped]
+
+  for (const file of files) {
+    const location = locate(file.path)
+    if (!location) {
+      skippedFiles.push({ path: file.path, reason: 'rules/, global_helpers/, data_models/ 밖의 파일' })
+      continue
+    }
+
+    const { section, relative } = location
+    const isPython = relative.endsWith('.py')
+
+    if (section === 'rules') {
+      if (isPython) ruleCode.set(relative, file.content)
+      else ruleSpecs.push({ path: relative, content: file.content })
+    } else if (section === 'global_helpers') {
+      if (isPython) helpers[posix.basename(relative, '.py')] = file.content
+    } else {
+      dataModels.push(relative)
+    }
+  }
+
+  const rules: PackRuleEntry[] = []
+  const pairedCode = new Set<string>()
+
+  for (const specFile of ruleSpecs) {
+    const fields = readSpecFields(specFile.content)
+    if (fields.analysisType && !['rule', 'scheduled_rule'].includes(fields.analysisType)) {
+      skippedFiles.push({ path: `rules/${specFile.path}`, reason: `지원하지 않는 AnalysisType (${fields.analysisType})` })
+      continue
+    }
+
+    // Filename이 없으면 같은 이름의 .py와 짝지음
+    const directory = posix.dirname(specFile.path)
+    const codePath = fields.filename
+      ? posix.join(directory, fields.filename)
+      : specFile.path.replace(/\.ya?ml$/, '.py')
+    const code = ruleCode.get(codePath)
+
+    if (code === undefined) {
+      skippedFiles.push({ path: `rules/${specFile.path}`, reason: `짝이 되는 Python 파일이 없습니다 (${codePath})` })
+      continue
+    }
+
+    pairedCode.add(codePath)
+    rules.push({ path: codePath, code, specPath: specFile.path, spec: specFile.content, ruleId: fields.ruleId })
+  }
+
+  // YAML 스펙이 없는 규칙도 코드만으로 검증
+  for (const [path, code] of ruleCode) {
+    if (!pairedCode.has(path)) {
+      rules.push({ path, code })
+    }
+  }
+
+  rules.sort((a, b) => a.path.localeCompare(b.path))
+  return { rules, helpers, dataModels, skipped: skippedFiles }
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { spawn } from 'child_process'
+
+export interface PythonRunOptions {
+  input?: string
+  args?: string[]
+  timeoutMs?: number
+  maxOutputBytes?: number // stdout과 stderr를 합쳐 이 크기를 넘으면 프로세스를 종료
+  sandbox?: string[] // 인터프리터 앞에 붙일 격리 명령 (lib/analysis/sandbox.ts)
+}
+
+export interface PythonRunResult {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  timedOut: boolean
+  outputLimitExceeded: boolean
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024
+
+/**
+ * 로컬 Python 인터프리터 경로 (PYTHON_BIN으로 재정의 가능)
+ */
+export function getPythonBinary(): string {
+  return process.env.PYTHON_BIN || 'python3'
+}
+
+/**
+ * 인라인 Python 스크립트를 격리 모드(-I)로 실행
+ * 분석 대상 코드는 stdin으로 전달하여 셸 이스케이프 문제를 피합니다.
+ * 출력을 계속 쓰는 코드가 서버 메모리를 채우지 않도록, 출력이 maxOutputBytes를 넘으면 바로 종료합니다.
+ */
+export function runPythonScript(script: string, options: PythonRunOptions = {}): Promise<PythonRunResult> {
+  const { input = '', args = [], timeoutMs = DEFAULT_TIMEOUT_MS, maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES, sandbox = [] } = options
+  const [command, ...commandArgs] = [...sandbox, getPythonBinary(), '-I', '-c', script, ...args]
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, commandArgs, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // 서버 환경 변수(자격 증명 등)는 자식 프로세스에 넘기지 않음
+      env: {
+        NODE_ENV: process.env.NODE_ENV,
+        PATH: process.env.PATH,
+        PYTHONIOENCODING: 'utf-8',
+      },
+    })
+
+    let stdout = ''
+    let stderr = ''
+    let outputBytes = 0
+    let timedOut = false
+    let outputLimitExceeded = false
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGKILL')
+    }, timeoutMs)
+
+    child.stdout.setEncoding('utf8')
+    child.stderr.setEncoding('utf8')
+
+    // 한도를 넘은 뒤의 출력은 버림
+    const capture = (stream: 'stdout' | 'stderr') => (chunk: string) => {
+      if (outputLimitExceeded) return
+      outputBytes += Buffer.byteLength(chunk)
+      if (outputBytes > maxOutputBytes) {
+        outputLimitExceeded = true
+        child.kill('SIGKILL')
+        return
+      }
+      if (stream === 'stdout') stdout += chunk
+      else stderr += chunk
+    }
+    child.stdout.on('data', capture('stdout'))
+    child.stderr.on('data', capture('stderr'))
+
+    child.on('error', error => {
+      clearTimeout(timer)
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && sandbox.length > 0) {
+        reject(new Error(`Sandbox launcher not found (${command}). Install nsjail or set RULE_TEST_SANDBOX_BIN.`))
+        return
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error(`Python interpreter not found (${getPythonBinary()}). Set PYTHON_BIN to a Python 3 executable.`))
+        return
+      }
+      reject(new Error(`Failed to start Python interpreter: ${error.message}`))
+    })
+
+    child.on('close', exitCode => {
+      clearTimeout(timer)
+      resolve({ stdout, stderr, exitCode, timedOut, outputLimitExceeded })
+    })
+
+    // 자식 프로세스가 먼저 종료되어도 EPIPE로 서버가 죽지 않도록 처리
+    child.stdin.on('error', () => {})
+    child.stdin.end(input)
+  })
+}
+
+/**
+ * 스크립트를 실행하고 stdout의 JSON 결과를 파싱
+ */
+export async function runPythonJson<T>(script: string, options: PythonRunOptions = {}): Promise<T> {
+  const result = await runPythonScript(script, options)
+
+  if (result.outputLimitExceeded) {
+    throw new Error(`Python analysis output exceeded ${options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES} bytes and was stopped; output was truncated`)
+  }
+
+  if (result.timedOut) {
+    throw new Error(`Python analysis timed out after ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`)
+  }
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Python analysis failed (exit code ${result.exitCode}): ${result.stderr.trim() || 'no output'}`)
+  }
+
+  try {
+    return JSON.parse(result.stdout) as T
+  } catch {
+    throw new Error(`Invalid JSON from Python analysis: ${result.stdout.slice(0, 200)}`)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  RUBRIC_MAX_POINTS,
+  type LLMRubric,
+  type LLMValidationOutput,
+  type RubricCriterion,
+  type RubricScore,
+  type RubricScoreGroup,
+  type ScoredValidationOutput,
+  type TestRunSummary,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+/**
+ * 채점 기준 - 모델이 항목별로 매긴 0-10점을 가중 평균해 규칙 준수성·코드 품질 점수(0-100)를 계산
+ * 기준이나 가중치를 바꾸면 RUBRIC_VERSION을 올리세요 - 결과 캐시 키에 포함됩니다.
+ */
+export const RUBRIC_VERSION = 1
+
+export interface RubricCriterionDefinition {
+  criterion: RubricCriterion
+  group: RubricScoreGroup
+  weight: number // 같은 group 안에서의 비중 (합계 100)
+}
+
+export const RUBRIC: RubricCriterionDefinition[] = [
+  { criterion: 'requiredFunctions', group: 'ruleCompliance', weight: 35 },
+  { criterion: 'safeEventAccess', group: 'ruleCompliance', weight: 25 },
+  { criterion: 'alertQuality', group: 'ruleCompliance', weight: 20 },
+  { criterion: 'performance', group: 'ruleCompliance', weight: 20 },
+  { criterion: 'tests', group: 'codeQuality', weight: 35 },
+  { criterion: 'errorHandling', group: 'codeQuality', weight: 35 },
+  { criterion: 'documentation', group: 'codeQuality', weight: 30 },
+]
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+// 샌드박스에서 테스트를 실행한 경우 tests 항목은 통과율로 채점 (모듈 로드 실패 등 전체 실행 실패는 0점)
+// 샌드박스가 없어 실행하지 않았으면 모델의 점수를 사용
+function testPoints(testResults?: TestRunSummary): number | null {
+  if (!testResults || testResults.skipped) return null
+  if (testResults.error || testResults.total === 0) return 0
+  return round(testResults.passed / testResults.total * RUBRIC_MAX_POINTS)
+}
+
+const TEST_RATIONALES: Record<ValidationLanguage, { passed: (passed: number, total: number) => string, failed: (error: string) => string }> = {
+  ko: {
+    passed: (passed, total) => `단위 테스트 ${total}개 중 ${passed}개 통과`,
+    failed: error => `단위 테스트를 실행하지 못했습니다: ${error}`,
+  },
+  en: {
+    passed: (passed, total) => `${passed} of ${total} unit tests passed`,
+    failed: error => `Unit tests could not run: ${error}`,
+  },
+}
+
+function testRationale(testResults: TestRunSummary, language: ValidationLanguage) {
+  const messages = TEST_RATIONALES[language]
+  return testResults.error ? messages.failed(testResults.error) : messages.passed(testResults.passed, testResults.total)
+}
+
+/**
+ * 모델의 항목별 점수를 가중치와 함께 정리 - 테스트 결과가 있으면 tests 항목은 통과율로 대체
+ */
+export function buildRubricBreakdown(
+  rubric: LLMRubric,
+  testResults?: TestRunSummary,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): RubricScore[] {
+  const passRate = testPoints(testResults)
+
+  return RUBRIC.map(({ criterion, group, weight }) => {
+    if (criterion === 'tests' && passRate !== null && testResults) {
+      return { criterion, group, weight, points: passRate, rationale: testRationale(testResults, language), source: 'test' as const }
+    }
+    const { points, rationale } = rubric[criterion]
+    return { criterion, group, weight, points, rationale, source: 'llm' as const }
+  })
+}
+
+/**
+ * 항목별 점수의 가중 평균을 0-100 정수로 환산
+ */
+export function scoreRubric(breakdown: RubricScore[], group: RubricScoreGroup): number {
+  const entries = breakdown.filter(entry => entry.group === group)
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0)
+  if (totalWeight === 0) return 0
+
+  const weighted = entries.reduce((sum, entry) => sum + entry.weight * entry.points, 0)
+  return Math.round(weighted / totalWeight / RUBRIC_MAX_POINTS * 100)
+}
+
+/**
+ * 도구 입력에 항목별 점수로 계산한 최종 점수를 채움
+ */
+export function applyRubric(
+  output: LLMValidationOutput,
+  testResults?: TestRunSummary,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): ScoredValidationOutput {
+  const { rubric, ...rest } = output
+  const breakdown = buildRubricBreakdown(rubric, testResults, language)
+
+  return {
+    ...rest,
+    ruleCompliance: { ...rest.ruleCompliance, score: scoreRubric(breakdown, 'ruleCompliance') },
+    codeQuality: { ...rest.codeQuality, score: scoreRubric(breakdown, 'codeQuality') },
+    rubric: breakdown,
+  }
+}
\ No newline at end of file
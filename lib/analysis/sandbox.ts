@@ -0,0 +1,118 @@
+import { existsSync } from 'fs'
+import path from 'path'
+import { getPythonBinary } from '@/lib/analysis/python'
+
+/**
+ * 사용자가 제출한 규칙 코드를 실행하기 위한 OS 수준 격리 설정
+ * Python audit hook은 보안 경계가 아니므로, nsjail로 네임스페이스·seccomp·읽기 전용 파일 시스템을
+ * 갖춘 환경에서만 규칙 코드를 실행합니다. 설정하지 않으면(기본값) 테스트를 실행하지 않습니다.
+ */
+
+export type RuleSandboxMode = 'off' | 'nsjail'
+
+export interface RuleSandboxConfig {
+  mode: RuleSandboxMode
+  binary: string // nsjail 실행 파일
+  mounts: string[] // 샌드박스 안에 읽기 전용으로 연결할 경로
+}
+
+export interface RuleSandboxLimits {
+  timeoutMs: number
+  memoryLimitMb: number
+  cpuLimitSeconds: number
+}
+
+export class RuleSandboxConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RuleSandboxConfigError'
+  }
+}
+
+// Python 실행에 필요한 시스템 경로 (없는 경로는 연결하지 않음)
+const DEFAULT_MOUNTS = ['/usr', '/lib', '/lib64', '/bin', '/etc/ld.so.cache']
+
+// nobody:nogroup - 샌드박스 안의 권한 없는 사용자
+const SANDBOX_UID = 65534
+
+// 프로세스 생성(스레드 제외), 네트워크, 다른 프로세스 조작, 네임스페이스·마운트 변경 등을 거부
+// execve는 nsjail이 Python을 시작할 때 필요하므로 허용하지만, fork가 막혀 있어 실행 중인 러너를 대체할 수만 있습니다.
+const SECCOMP_POLICY = `
+ERRNO(1) {
+  fork, vfork, clone(flags) { (flags & 0x10000) == 0 },
+  socket, socketpair, connect, bind, listen, accept, accept4,
+  execveat, ptrace, process_vm_readv, process_vm_writev,
+  mount, umount2, pivot_root, chroot, unshare, setns,
+  bpf, keyctl, add_key, request_key, userfaultfd, perf_event_open,
+  init_module, finit_module, delete_module, kexec_load, reboot, swapon, swapoff
+}
+ERRNO(38) { clone3 }
+DEFAULT ALLOW
+`
+
+/**
+ * RULE_TEST_SANDBOX 설정 (off | nsjail, 기본값 off)
+ * nsjail 모드에서는 PYTHON_BIN이 샌드박스 안에서도 보이는 실제 인터프리터의 절대 경로여야 합니다.
+ */
+export function getRuleSandboxConfig(): RuleSandboxConfig {
+  const mode = (process.env.RULE_TEST_SANDBOX || 'off').toLowerCase()
+  if (mode !== 'off' && mode !== 'nsjail') {
+    throw new RuleSandboxConfigError(`Unknown RULE_TEST_SANDBOX '${mode}'. Use 'off' or 'nsjail'.`)
+  }
+
+  const extraMounts = (process.env.RULE_TEST_SANDBOX_MOUNTS || '')
+    .split(':')
+    .map(mount => mount.trim())
+    .filter(Boolean)
+
+  return {
+    mode,
+    binary: process.env.RULE_TEST_SANDBOX_BIN || 'nsjail',
+    mounts: [...DEFAULT_MOUNTS, ...extraMounts],
+  }
+}
+
+export function isRuleSandboxEnabled(config: RuleSandboxConfig = getRuleSandboxConfig()): boolean {
+  return config.mode !== 'off'
+}
+
+/**
+ * 인터프리터 앞에 붙일 nsjail 명령 - 네트워크·사용자·PID·마운트 네임스페이스를 분리하고
+ * 읽기 전용 시스템 경로와 비어 있는 /tmp만 보이게 한 뒤 권한 없는 사용자로 실행
+ */
+export function buildSandboxCommand(config: RuleSandboxConfig, limits: RuleSandboxLimits): string[] {
+  const python = getPythonBinary()
+  if (!path.isAbsolute(python)) {
+    throw new RuleSandboxConfigError(`PYTHON_BIN must be an absolute path to the interpreter when RULE_TEST_SANDBOX=${config.mode} (got '${python}').`)
+  }
+
+  // 인터프리터가 /usr 밖(pyenv 등)에 있으면 설치 경로도 연결
+  const prefix = path.dirname(path.dirname(python))
+  const mounts = [...config.mounts]
+  if (!mounts.some(mount => prefix === mount || prefix.startsWith(`${mount}/`))) {
+    mounts.push(prefix)
+  }
+
+  return [
+    config.binary,
+    '--mode', 'o',
+    '--quiet',
+    '--user', String(SANDBOX_UID),
+    '--group', String(SANDBOX_UID),
+    '--hostname', 'rule-sandbox',
+    '--iface_no_lo',
+    '--disable_proc',
+    '--time_limit', String(Math.ceil(limits.timeoutMs / 1000)),
+    '--rlimit_as', String(limits.memoryLimitMb),
+    '--rlimit_cpu', String(limits.cpuLimitSeconds),
+    '--rlimit_fsize', '0',
+    '--rlimit_nofile', '64',
+    ...mounts.filter(mount => existsSync(mount)).flatMap(mount => ['--bindmount_ro', mount]),
+    '--tmpfsmount', '/tmp',
+    '--cwd', '/tmp',
+    '--env', 'PYTHONIOENCODING=utf-8',
+    '--env', 'PYTHONDONTWRITEBYTECODE=1',
+    '--seccomp_string', SECCOMP_POLICY,
+    '--',
+  ]
+}
\ No newline at end of file
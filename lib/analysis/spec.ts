@@ -0,0 +1,378 @@
+import { LineCounter, parse as parseYaml, parseDocument, type Document } from 'yaml'
+import type { z } from 'zod'
+import { runPythonJson } from '@/lib/analysis/python'
+import { PantherRuleSpecSchema, PantherSpecTestSchema, PANTHER_SEVERITIES, type PantherRuleSpec } from '@/lib/schemas/panther-spec'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  type Finding,
+  type FindingCategory,
+  type FindingSeverity,
+  type RuleTestCase,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+export type SpecCheckCode = 'PNS001' | 'PNS002' | 'PNS003' | 'PNS004' | 'PNS005' | 'PNS006'
+
+export interface SpecCheck {
+  code: SpecCheckCode
+  title: string
+  severity: FindingSeverity
+  category: FindingCategory
+}
+
+export interface SpecCheckResult {
+  spec: PantherRuleSpec | null
+  findings: Finding[]
+  tests: RuleTestCase[] // 스펙의 Tests 항목 (테스트 러너 입력 형식)
+}
+
+// 안정적인 스펙 검사 코드 - 번호는 재사용하지 않고 새 검사는 뒤에 추가
+export const SPEC_CHECKS: Record<SpecCheckCode, SpecCheck> = {
+  PNS001: { code: 'PNS001', title: 'invalid rule spec', severity: 'error', category: 'compliance' },
+  PNS002: { code: 'PNS002', title: 'missing or one-sided tests', severity: 'warning', category: 'testing' },
+  PNS003: { code: 'PNS003', title: 'unknown log type', severity: 'warning', category: 'compliance' },
+  PNS004: { code: 'PNS004', title: 'severity conflicts with severity()', severity: 'warning', category: 'compliance' },
+  PNS005: { code: 'PNS005', title: 'unknown spec field', severity: 'warning', category: 'compliance' },
+  PNS006: { code: 'PNS006', title: 'invalid severity() value', severity: 'error', category: 'compliance' },
+}
+
+// Panther 기본 제공 로그 유형 (Custom.* 사용자 정의 스키마는 항상 허용)
+const KNOWN_LOG_TYPES = new Set([
+  'Amazon.EKS.Audit', 'Amazon.EKS.Authenticator', 'Apache.AccessCombined', 'Apache.AccessCommon',
+  'Asana.Audit', 'Atlassian.Audit', 'AWS.ALB', 'AWS.AuroraMySQLAudit', 'AWS.BedrockModelInvocation',
+  'AWS.CloudFrontAccess', 'AWS.CloudTrail', 'AWS.CloudTrailDigest', 'AWS.CloudWatchEvents', 'AWS.Config',
+  'AWS.GuardDuty', 'AWS.S3ServerAccess', 'AWS.SecurityFindingFormat', 'AWS.SecurityHub',
+  'AWS.TransitGatewayFlow', 'AWS.VPCDns', 'AWS.VPCFlow', 'AWS.WAFWebACL', 'Azure.Audit',
+  'Azure.MonitorActivity', 'Box.Event', 'CiscoUmbrella.CloudFirewall', 'CiscoUmbrella.DNS',
+  'CiscoUmbrella.IP', 'CiscoUmbrella.Proxy', 'Cloudflare.Firewall', 'Cloudflare.HttpRequest',
+  'Cloudflare.Spectrum', 'Crowdstrike.ActivityAudit', 'Crowdstrike.DNSRequest', 'Crowdstrike.DetectionSummary',
+  'Crowdstrike.EventStreams', 'Crowdstrike.FDREvent', 'Crowdstrike.ProcessRollup2', 'Docker.Events',
+  'Dropbox.TeamEvent', 'Duo.Administrator', 'Duo.Authentication', 'Duo.OfflineEnrollment', 'Duo.Telephony',
+  'GCP.AuditLog', 'GCP.HTTPLoadBalancer', 'GitHub.Audit', 'GitHub.Webhook', 'GitLab.API', 'GitLab.Audit',
+  'GitLab.Exceptions', 'GitLab.Git', 'GitLab.Integrations', 'GitLab.Production', 'GoogleWorkspace.ActivityEvent',
+  'Gravitational.TeleportAudit', 'GSuite.ActivityEvent', 'GSuite.Reports', 'Jamfpro.ComplianceReporter',
+  'Juniper.Access', 'Juniper.Audit', 'Juniper.Firewall', 'Juniper.MWS', 'Juniper.Postgres', 'Juniper.Security',
+  'Lacework.Events', 'Microsoft365.Audit.AzureActiveDirectory', 'Microsoft365.Audit.Exchange',
+  'Microsoft365.Audit.General', 'Microsoft365.Audit.SharePoint', 'Microsoft365.DLP.All',
+  'MicrosoftGraph.SecurityAlert', 'MongoDB.OrganizationEvent', 'MongoDB.ProjectEvent', 'Nginx.Access',
+  'Notion.AuditLogs', 'Okta.SystemLog', 'OneLogin.Events', 'OnePassword.AuditEvent', 'OnePassword.ItemUsage',
+  'OnePassword.SignInAttempt', 'Osquery.Batch', 'Osquery.Differential', 'Osquery.Snapshot', 'Osquery.Status',
+  'Panther.Audit', 'Salesforce.Login', 'Salesforce.LoginAs', 'Salesforce.Logout', 'Salesforce.URI',
+  'SentinelOne.Activity', 'SentinelOne.DeepVisibility', 'Slack.AccessLogs', 'Slack.AuditLogs',
+  'Slack.IntegrationLogs', 'Snyk.GroupAudit', 'Snyk.OrgAudit', 'Suricata.Anomaly', 'Suricata.DNS',
+  'Syslog.RFC3164', 'Syslog.RFC5424', 'Tailscale.Audit', 'Tailscale.Network', 'Tines.Audit', 'Zeek.DNS',
+  'Zendesk.Audit', 'Zoom.Activity', 'Zoom.Operation', 'Zscaler.ZIA.AdminAuditLog', 'Zscaler.ZIA.WebLog',
+  'Zscaler.ZPA.UserActivity', 'Zscaler.ZPA.UserStatus',
+])
+
+interface RuleFunctionInfo {
+  severity: {
+    line: number
+    values: string[]
+    dynamic: boolean // 문자열 상수가 아닌 값을 반환하는 경우
+  } | null
+}
+
+// severity()가 반환하는 문자열 상수 수집 (중첩 함수 제외)
+const RULE_FUNCTIONS_SCRIPT = `
+import ast, json, sys
+
+tree = ast.parse(sys.stdin.read())
+fn = next((n for n in tree.body if isinstance(n, ast.FunctionDef) and n.name == "severity"), None)
+info = None
+
+if fn is not None:
+    values, dynamic = [], False
+    stack = list(fn.body)
+    while stack:
+        node = stack.pop()
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.ClassDef)):
+            continue
+        if isinstance(node, ast.Return):
+            if isinstance(node.value, ast.Constant) and isinstance(node.value.value, str):
+                if node.value.value not in values:
+                    values.append(node.value.value)
+            else:
+                dynamic = True
+        stack.extend(ast.iter_child_nodes(node))
+    info = {"line": fn.lineno, "values": values, "dynamic": dynamic}
+
+print(json.dumps({"severity": info}))
+`
+
+interface SpecMessages {
+  yamlLine: (line: number, message: string) => string
+  yamlParse: (error: string) => string
+  unknownFields: (keys: string) => string
+  missingField: (field: string) => string
+  invalidSeverity: (severities: string) => string
+  invalidField: (field: string, message: string) => string
+  noTests: string
+  noPositiveTest: string
+  noNegativeTest: string
+  unknownLogType: (logType: string) => string
+  invalidSeverityReturn: (values: string) => string
+  severityConflict: (severity: string, returned: string) => string
+}
+
+const SPEC_MESSAGES: Record<ValidationLanguage, SpecMessages> = {
+  ko: {
+    yamlLine: (line, message) => `YAML ${line}행: ${message}`,
+    yamlParse: error => `YAML을 파싱할 수 없습니다: ${error}`,
+    unknownFields: keys => `알 수 없는 스펙 필드입니다: ${keys}`,
+    missingField: field => `필수 필드 '${field}'이(가) 없습니다.`,
+    invalidSeverity: severities => `Severity는 ${severities} 중 하나여야 합니다.`,
+    invalidField: (field, message) => `'${field}' 필드가 올바르지 않습니다: ${message}`,
+    noTests: 'Tests 항목이 없습니다. 탐지되는 이벤트와 탐지되지 않는 이벤트의 테스트를 추가하세요.',
+    noPositiveTest: 'ExpectedResult가 true인 테스트가 없어 탐지 동작이 검증되지 않습니다.',
+    noNegativeTest: 'ExpectedResult가 false인 테스트가 없어 오탐 여부가 검증되지 않습니다.',
+    unknownLogType: logType => `알 수 없는 LogTypes 값 '${logType}'입니다. 오타인지 확인하고, 사용자 정의 스키마라면 Custom. 접두사를 사용하세요.`,
+    invalidSeverityReturn: values => `severity()가 유효하지 않은 값(${values})을 반환합니다. INFO, LOW, MEDIUM, HIGH, CRITICAL 또는 DEFAULT를 사용하세요.`,
+    severityConflict: (severity, returned) => `YAML의 Severity는 ${severity}이지만 severity()는 ${returned}만 반환합니다. 기본 심각도를 맞추거나 "DEFAULT"를 반환하세요.`,
+  },
+  en: {
+    yamlLine: (line, message) => `YAML line ${line}: ${message}`,
+    yamlParse: error => `Cannot parse the YAML: ${error}`,
+    unknownFields: keys => `Unknown spec fields: ${keys}`,
+    missingField: field => `Required field '${field}' is missing.`,
+    invalidSeverity: severities => `Severity must be one of ${severities}.`,
+    invalidField: (field, message) => `Field '${field}' is invalid: ${message}`,
+    noTests: 'There are no Tests. Add tests for events that should and should not match.',
+    noPositiveTest: 'No test has ExpectedResult true, so the detection behavior is not verified.',
+    noNegativeTest: 'No test has ExpectedResult false, so false positives are not checked.',
+    unknownLogType: logType => `Unknown LogTypes value '${logType}'. Check for typos, and use the Custom. prefix for custom schemas.`,
+    invalidSeverityReturn: values => `severity() returns invalid values (${values}). Use INFO, LOW, MEDIUM, HIGH, CRITICAL or DEFAULT.`,
+    severityConflict: (severity, returned) => `The YAML Severity is ${severity}, but severity() only returns ${returned}. Align the default severity or return "DEFAULT".`,
+  },
+}
+
+type SpecIssue = Omit<Finding, 'id' | 'source' | 'severity' | 'category' | 'ruleCode'> & {
+  code: SpecCheckCode
+  yamlLine?: number
+}
+
+function lineOf(doc: Document, lineCounter: LineCounter, path: PropertyKey[]): number | undefined {
+  for (let depth = path.length; depth > 0; depth--) {
+    const node = doc.getIn(path.slice(0, depth), true) as { range?: [number, number, number] } | undefined
+    if (node?.range) return lineCounter.linePos(node.range[0]).line
+  }
+  return undefined
+}
+
+function describeSchemaIssue(issue: z.core.$ZodIssue, doc: Document, messages: SpecMessages): string {
+  const field = issue.path.map(String).join('.') || '(root)'
+
+  if (issue.code === 'invalid_type' && !doc.hasIn(issue.path)) {
+    return messages.missingField(field)
+  }
+  if (issue.code === 'invalid_value' && issue.path[issue.path.length - 1] === 'Severity') {
+    return messages.invalidSeverity(PANTHER_SEVERITIES.join(', '))
+  }
+  return messages.invalidField(field, issue.message)
+}
+
+function toFindings(issues: SpecIssue[], messages: SpecMessages): Finding[] {
+  return issues.map(({ code, yamlLine, message, ...rest }, index) => ({
+    ...rest,
+    id: `${code}-${index + 1}`,
+    // 스펙 문제의 위치는 Python 코드가 아닌 YAML 기준이므로 메시지에 표기
+    message: yamlLine ? messages.yamlLine(yamlLine, message) : message,
+    severity: SPEC_CHECKS[code].severity,
+    category: SPEC_CHECKS[code].category,
+    source: 'spec' as const,
+    ruleCode: code,
+  }))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// 스키마에 없는 필드 - 파싱에서는 제거되므로 객체(최상위, 각 테스트)마다 경고 하나로 보고
+function checkUnknownFields(raw: unknown, doc: Document, lineCounter: LineCounter, messages: SpecMessages): SpecIssue[] {
+  if (!isRecord(raw)) return []
+
+  const objects: Array<{ path: PropertyKey[], value: Record<string, unknown>, known: Set<string> }> = [
+    { path: [], value: raw, known: new Set(Object.keys(PantherRuleSpecSchema.shape)) },
+  ]
+  if (Array.isArray(raw.Tests)) {
+    const known = new Set(Object.keys(PantherSpecTestSchema.shape))
+    raw.Tests.forEach((test, index) => {
+      if (isRecord(test)) objects.push({ path: ['Tests', index], value: test, known })
+    })
+  }
+
+  return objects.flatMap(({ path, value, known }): SpecIssue[] => {
+    const unknown = Object.keys(value).filter(key => !known.has(key))
+    if (unknown.length === 0) return []
+    return [{
+      code: 'PNS005',
+      message: messages.unknownFields(unknown.join(', ')),
+      yamlLine: lineOf(doc, lineCounter, [...path, unknown[0]]),
+    }]
+  })
+}
+
+function checkTests(spec: PantherRuleSpec, messages: SpecMessages): SpecIssue[] {
+  const tests = spec.Tests ?? []
+
+  if (tests.length === 0) {
+    return [{ code: 'PNS002', message: messages.noTests }]
+  }
+  if (!tests.some(test => test.ExpectedResult)) {
+    return [{ code: 'PNS002', message: messages.noPositiveTest }]
+  }
+  if (!tests.some(test => !test.ExpectedResult)) {
+    return [{ code: 'PNS002', message: messages.noNegativeTest }]
+  }
+  return []
+}
+
+function checkLogTypes(spec: PantherRuleSpec, doc: Document, lineCounter: LineCounter, messages: SpecMessages): SpecIssue[] {
+  return (spec.LogTypes ?? []).flatMap((logType, index): SpecIssue[] => {
+    if (logType.startsWith('Custom.') || KNOWN_LOG_TYPES.has(logType)) return []
+    return [{
+      code: 'PNS003',
+      message: messages.unknownLogType(logType),
+      yamlLine: lineOf(doc, lineCounter, ['LogTypes', index]),
+    }]
+  })
+}
+
+function checkSeverity(spec: PantherRuleSpec, info: RuleFunctionInfo, messages: SpecMessages): SpecIssue[] {
+  if (!info.severity) return []
+
+  const { line, values, dynamic } = info.severity
+  const valid = new Set([...PANTHER_SEVERITIES.map(s => s.toUpperCase()), 'DEFAULT'])
+  const issues: SpecIssue[] = []
+
+  const invalid = values.filter(value => !valid.has(value.toUpperCase()))
+  if (invalid.length > 0) {
+    issues.push({
+      code: 'PNS006',
+      message: messages.invalidSeverityReturn(invalid.map(v => `"${v}"`).join(', ')),
+      startLine: line,
+      endLine: line,
+    })
+  }
+
+  // DEFAULT는 YAML의 Severity를 그대로 사용하므로 충돌이 아님
+  const returned = values.map(value => value.toUpperCase()).filter(value => valid.has(value))
+  if (!dynamic && returned.length > 0 && !returned.includes('DEFAULT') && !returned.includes(spec.Severity.toUpperCase())) {
+    issues.push({
+      code: 'PNS004',
+      message: messages.severityConflict(spec.Severity, returned.join(', ')),
+      startLine: line,
+      endLine: line,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * 스키마 검증 없이 규칙 식별에 필요한 필드만 읽음 (팩 구성, 규칙 버전 연결용)
+ */
+export function readSpecFields(spec: string): { analysisType?: string, filename?: string, ruleId?: string } {
+  try {
+    const parsed = parseYaml(spec)
+    if (!parsed || typeof parsed !== 'object') return {}
+    return {
+      analysisType: typeof parsed.AnalysisType === 'string' ? parsed.AnalysisType : undefined,
+      filename: typeof parsed.Filename === 'string' ? parsed.Filename : undefined,
+      ruleId: typeof parsed.RuleID === 'string' ? parsed.RuleID : undefined,
+    }
+  } catch {
+    // 잘못된 YAML은 검증 단계에서 PNS001로 보고
+    return {}
+  }
+}
+
+/**
+ * Panther 규칙 YAML 스펙을 스키마로 검증하고 Python 코드와 교차 검사
+ * 구문 검사를 통과한 코드에 대해서만 호출해야 합니다.
+ */
+export async function checkPantherSpec(
+  specText: string,
+  code: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<SpecCheckResult> {
+  const messages = SPEC_MESSAGES[language]
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(specText, { lineCounter })
+
+  if (doc.errors.length > 0) {
+    return {
+      spec: null,
+      tests: [],
+      findings: toFindings(doc.errors.map(error => ({
+        code: 'PNS001',
+        message: messages.yamlParse(error.message.split('\n')[0]),
+      })), messages),
+    }
+  }
+
+  const raw = doc.toJS()
+  const unknownFields = checkUnknownFields(raw, doc, lineCounter, messages)
+  const parsed = PantherRuleSpecSchema.safeParse(raw)
+  if (!parsed.success) {
+    return {
+      spec: null,
+      tests: [],
+      findings: toFindings([
+        ...parsed.error.issues.map((issue): SpecIssue => ({
+          code: 'PNS001',
+          message: describeSchemaIssue(issue, doc, messages),
+          yamlLine: lineOf(doc, lineCounter, issue.path),
+        })),
+        ...unknownFields,
+      ], messages),
+    }
+  }
+
+  const spec = parsed.data
+  const info = await runPythonJson<RuleFunctionInfo>(RULE_FUNCTIONS_SCRIPT, { input: code })
+
+  return {
+    spec,
+    tests: (spec.Tests ?? []).map(test => ({
+      name: test.Name,
+      expectedResult: test.ExpectedResult,
+      log: test.Log,
+      ...(test.Mocks ? { mocks: test.Mocks } : {}),
+    })),
+    findings: toFindings([
+      ...unknownFields,
+      ...checkTests(spec, messages),
+      ...checkLogTypes(spec, doc, lineCounter, messages),
+      ...checkSeverity(spec, info, messages),
+    ], messages),
+  }
+}
+
+/**
+ * LLM 프롬프트에 포함할 스펙 요약
+ */
+export function summarizeSpec(result: SpecCheckResult | null): string {
+  if (!result) {
+    return 'No Panther rule YAML spec was provided.'
+  }
+
+  const lines = result.spec
+    ? [
+        'Panther rule YAML spec (already validated; use it as context):',
+        `- RuleID: ${result.spec.RuleID}`,
+        `- LogTypes: ${(result.spec.LogTypes ?? result.spec.ScheduledQueries ?? []).join(', ')}`,
+        `- Severity: ${result.spec.Severity}`,
+        `- Tests: ${result.spec.Tests?.length ?? 0}`,
+      ]
+    : ['A Panther rule YAML spec was provided but it is invalid.']
+
+  if (result.findings.length > 0) {
+    lines.push('Spec problems already reported; do not repeat them in findings:')
+    const codes = [...new Set(result.findings.map(finding => finding.ruleCode as SpecCheckCode))]
+    lines.push(...codes.map(code => `- ${code}: ${SPEC_CHECKS[code].title}`))
+  }
+
+  return lines.join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { runPythonJson } from '@/lib/analysis/python'
+import { DEFAULT_VALIDATION_LANGUAGE, type Finding, type ValidationLanguage, type ValidationResult } from '@/lib/schemas/validation'
+
+export interface SyntaxDiagnostic {
+  errorType: string
+  message: string
+  line: number
+  column: number
+  endLine?: number
+  endColumn?: number
+}
+
+export interface SyntaxCheckResult {
+  isValid: boolean
+  errors: string[]
+  diagnostics: SyntaxDiagnostic[]
+}
+
+// compile()은 ast.parse()가 놓치는 컴파일 단계 오류('return' outside function 등)까지 잡아냄
+const SYNTAX_CHECK_SCRIPT = `
+import json, sys, warnings
+
+warnings.simplefilter("ignore")
+source = sys.stdin.read()
+diagnostics = []
+
+try:
+    compile(source, "<rule>", "exec", dont_inherit=True)
+except SyntaxError as e:
+    diagnostics.append({
+        "errorType": type(e).__name__,
+        "message": e.msg,
+        "line": e.lineno or 1,
+        "column": e.offset or 1,
+        "endLine": getattr(e, "end_lineno", None),
+        "endColumn": getattr(e, "end_offset", None),
+    })
+except ValueError as e:
+    diagnostics.append({"errorType": "ValueError", "message": str(e), "line": 1, "column": 1})
+
+print(json.dumps({"diagnostics": diagnostics}))
+`
+
+const SYNTAX_MESSAGES: Record<ValidationLanguage, {
+  location: (line: number, column: number) => string
+  suggestion: string
+  feedback: string
+  heading: string
+  skipped: string
+}> = {
+  ko: {
+    location: (line, column) => `${line}행 ${column}열`,
+    suggestion: '구문 오류를 먼저 수정한 뒤 다시 검증하세요.',
+    feedback: '구문 오류로 인해 코드 품질 평가를 수행하지 않았습니다.',
+    heading: '## 구문 오류',
+    skipped: '코드가 Python 파서를 통과하지 못해 규칙 준수성 및 품질 분석을 건너뛰었습니다.',
+  },
+  en: {
+    location: (line, column) => `Line ${line}, column ${column}`,
+    suggestion: 'Fix the syntax errors first, then validate again.',
+    feedback: 'Code quality was not evaluated because of syntax errors.',
+    heading: '## Syntax errors',
+    skipped: 'The code did not pass the Python parser, so rule compliance and quality analysis were skipped.',
+  },
+}
+
+/**
+ * 사람이 읽을 수 있는 오류 메시지 (syntaxCheck.errors 형식)
+ */
+export function formatSyntaxDiagnostic(
+  diagnostic: SyntaxDiagnostic,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): string {
+  const location = SYNTAX_MESSAGES[language].location(diagnostic.line, diagnostic.column)
+  return `${location} - ${diagnostic.errorType}: ${diagnostic.message}`
+}
+
+/**
+ * 로컬 Python 컴파일러로 구문을 검사
+ * LLM 추측이 아닌 실제 파서 결과이므로 실행마다 결과가 동일합니다.
+ */
+export async function checkPythonSyntax(
+  code: string,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Promise<SyntaxCheckResult> {
+  const { diagnostics } = await runPythonJson<{ diagnostics: SyntaxDiagnostic[] }>(
+    SYNTAX_CHECK_SCRIPT,
+    { input: code }
+  )
+
+  const normalized = diagnostics.map(diagnostic => ({
+    ...diagnostic,
+    endLine: diagnostic.endLine ?? undefined,
+    endColumn: diagnostic.endColumn ?? undefined,
+  }))
+
+  return {
+    isValid: normalized.length === 0,
+    errors: normalized.map(diagnostic => formatSyntaxDiagnostic(diagnostic, language)),
+    diagnostics: normalized,
+  }
+}
+
+/**
+ * 구문 오류를 편집기에 표시할 수 있는 Finding으로 변환
+ */
+export function syntaxDiagnosticsToFindings(diagnostics: SyntaxDiagnostic[]): Finding[] {
+  return diagnostics.map((diagnostic, index) => ({
+    id: `syntax-${index + 1}`,
+    message: `${diagnostic.errorType}: ${diagnostic.message}`,
+    severity: 'error',
+    category: 'syntax',
+    startLine: diagnostic.line,
+    endLine: Math.max(diagnostic.line, diagnostic.endLine ?? diagnostic.line),
+    source: 'linter',
+  }))
+}
+
+/**
+ * 구문 오류가 있을 때 LLM 호출 없이 반환할 결과
+ */
+export function buildSyntaxErrorResult(
+  syntaxCheck: SyntaxCheckResult,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): ValidationResult {
+  const messages = SYNTAX_MESSAGES[language]
+
+  return {
+    syntaxCheck: {
+      isValid: false,
+      errors: syntaxCheck.errors,
+    },
+    ruleCompliance: {
+      score: 0,
+      findings: syntaxDiagnosticsToFindings(syntaxCheck.diagnostics),
+      suggestions: [messages.suggestion],
+    },
+    codeQuality: {
+      score: 0,
+      feedback: messages.feedback,
+    },
+    detailedAnalysis: [
+      messages.heading,
+      '',
+      messages.skipped,
+      '',
+      ...syntaxCheck.errors.map(error => `- ${error}`),
+    ].join('\n'),
+  }
+}
\ No newline at end of file
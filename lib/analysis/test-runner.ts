@@ -0,0 +1,359 @@
+import { runPythonJson } from '@/lib/analysis/python'
+import { buildSandboxCommand, getRuleSandboxConfig, isRuleSandboxEnabled } from '@/lib/analysis/sandbox'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  type Finding,
+  type RuleTestCase,
+  type RuleTestResult,
+  type TestRunSummary,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+export interface RuleTestRunOptions {
+  timeoutMs?: number
+  memoryLimitMb?: number
+  cpuLimitSeconds?: number
+  helperModules?: string[] // 규칙 팩의 global_helpers 모듈명 - 실행하지 않으므로 import하는 규칙은 테스트를 건너뜀
+  language?: ValidationLanguage // 모듈 로드 실패 메시지 언어
+}
+
+interface TestMessages {
+  loadFailed: (location: number | undefined, message: string) => string
+  runFailed: (error: string) => string
+  testError: (name: string, error: string) => string
+  testFailed: (name: string, actual: string, expected: string) => string
+  sandboxDisabled: string
+  helpersNotExecuted: (modules: string[]) => string
+  skipped: (total: number, reason: string) => string
+}
+
+const TEST_MESSAGES: Record<ValidationLanguage, TestMessages> = {
+  ko: {
+    loadFailed: (line, message) => `규칙 모듈 로드 실패${line ? ` (${line}행)` : ''}: ${message}`,
+    runFailed: error => `테스트를 실행하지 못했습니다: ${error}`,
+    testError: (name, error) => `테스트 '${name}' 실행 중 오류: ${error}`,
+    testFailed: (name, actual, expected) => `테스트 '${name}' 실패: rule()이 ${actual}를 반환했지만 기대값은 ${expected}입니다.`,
+    sandboxDisabled: '규칙 코드를 격리해 실행할 샌드박스가 설정되지 않았습니다 (RULE_TEST_SANDBOX=nsjail).',
+    helpersNotExecuted: modules => `규칙이 global_helpers(${modules.join(', ')})를 import하지만, 규칙 팩의 helper는 실행하지 않고 정적 검사만 합니다.`,
+    skipped: (total, reason) => `단위 테스트 ${total}개를 실행하지 않았습니다: ${reason}`,
+  },
+  en: {
+    loadFailed: (line, message) => `Failed to load the rule module${line ? ` (line ${line})` : ''}: ${message}`,
+    runFailed: error => `Could not run the tests: ${error}`,
+    testError: (name, error) => `Test '${name}' raised an error: ${error}`,
+    testFailed: (name, actual, expected) => `Test '${name}' failed: rule() returned ${actual} but ${expected} was expected.`,
+    sandboxDisabled: 'No sandbox is configured for running rule code in isolation (RULE_TEST_SANDBOX=nsjail).',
+    helpersNotExecuted: modules => `the rule imports global_helpers (${modules.join(', ')}), and rule pack helpers are only checked statically, never executed.`,
+    skipped: (total, reason) => `${total} unit test(s) were not run: ${reason}`,
+  },
+}
+
+// Panther 탐지 규칙의 실행 제한(15초)에 맞춘 기본값
+const DEFAULT_TIMEOUT_MS = 15000
+// 샌드박스의 시간 제한이 먼저 적용되도록 프로세스 타임아웃에 더하는 여유
+const SANDBOX_TIMEOUT_MARGIN_MS = 1000
+const DEFAULT_MEMORY_LIMIT_MB = 256
+const DEFAULT_CPU_LIMIT_SECONDS = 10
+
+interface RawTestRun {
+  loadError: { message: string, line?: number } | null
+  results: RuleTestResult[]
+}
+
+// nsjail 샌드박스(lib/analysis/sandbox.ts) 안에서 격리 모드(-I)로 규칙 함수를 실행
+// 네트워크, 프로세스 생성, 파일 쓰기와 메모리·CPU 제한은 샌드박스가 담당합니다.
+const TEST_RUNNER_SCRIPT = `
+import contextlib, io, json, sys, time, traceback, types
+from collections.abc import Mapping
+from unittest.mock import MagicMock
+
+payload = json.loads(sys.stdin.read())
+
+def deep_get(dictionary, *keys, default=None):
+    value = dictionary
+    for key in keys:
+        if not isinstance(value, Mapping):
+            return default
+        value = value.get(key)
+    return default if value is None else value
+
+def deep_walk(obj, *keys, default=None, return_val="all"):
+    values = [obj]
+    for key in keys:
+        found = []
+        for value in values:
+            for item in (value if isinstance(value, list) else [value]):
+                if isinstance(item, Mapping) and item.get(key) is not None:
+                    found.append(item[key])
+        values = found
+    flat = []
+    for value in values:
+        for item in (value if isinstance(value, list) else [value]):
+            if item is not None and item not in flat:
+                flat.append(item)
+    if not flat:
+        return default
+    if return_val == "first":
+        return flat[0]
+    if return_val == "last":
+        return flat[-1]
+    return flat[0] if len(flat) == 1 else flat
+
+class PantherEvent(dict):
+    def deep_get(self, *keys, default=None):
+        return deep_get(self, *keys, default=default)
+
+    def deep_walk(self, *keys, default=None, return_val="all"):
+        return deep_walk(self, *keys, default=default, return_val=return_val)
+
+    def udm(self, *keys, default=None):
+        return deep_get(self, *keys, default=default)
+
+# panther_base_helpers는 내장 deep_get/deep_walk만 제공 (규칙 팩의 global_helpers는 실행하지 않음)
+helpers = types.ModuleType("panther_base_helpers")
+helpers.deep_get = deep_get
+helpers.deep_walk = deep_walk
+sys.modules["panther_base_helpers"] = helpers
+
+def describe(error):
+    lines = [frame.lineno for frame in traceback.extract_tb(error.__traceback__) if frame.filename == "<rule>"]
+    info = {"message": f"{type(error).__name__}: {error}"}
+    if lines and lines[-1]:
+        info["line"] = lines[-1]
+    return info
+
+MISSING = object()
+
+# Panther Tests의 Mocks - 규칙 모듈의 이름을 returnValue를 반환하는 MagicMock으로 바꾼 뒤 테스트 후 복원
+@contextlib.contextmanager
+def apply_mocks(namespace, mocks):
+    originals = {}
+    try:
+        for mock in mocks:
+            name = mock["objectName"]
+            originals.setdefault(name, namespace.get(name, MISSING))
+            namespace[name] = MagicMock(return_value=mock.get("returnValue"))
+        yield
+    finally:
+        for name, original in originals.items():
+            if original is MISSING:
+                namespace.pop(name, None)
+            else:
+                namespace[name] = original
+
+SEVERITIES = {"INFO", "LOW", "MEDIUM", "HIGH", "CRITICAL", "DEFAULT"}
+
+def run_aux(namespace, event, result):
+    for name, key in (("title", "title"), ("severity", "severity"), ("dedup", "dedup")):
+        fn = namespace.get(name)
+        if callable(fn):
+            value = fn(event)
+            if value is not None:
+                result[key] = str(value)
+    if "severity" in result and result["severity"].upper() not in SEVERITIES:
+        raise ValueError(f"severity() returned unknown severity '{result['severity']}'")
+    fn = namespace.get("alert_context")
+    if callable(fn):
+        context = fn(event)
+        if not isinstance(context, Mapping):
+            raise TypeError(f"alert_context() returned {type(context).__name__}, expected dict")
+        result["alertContext"] = json.loads(json.dumps(dict(context), default=str))
+
+real_stdout = sys.stdout
+sys.stdout = io.StringIO()
+
+namespace = {"__name__": "rule", "deep_get": deep_get, "deep_walk": deep_walk}
+load_error = None
+try:
+    exec(compile(payload["code"], "<rule>", "exec", dont_inherit=True), namespace)
+    if not callable(namespace.get("rule")):
+        load_error = {"message": "rule(event) function is not defined"}
+except BaseException as e:
+    load_error = describe(e)
+
+results = []
+if load_error is None:
+    for test in payload["tests"]:
+        result = {
+            "name": test["name"],
+            "expectedResult": test["expectedResult"],
+            "actualResult": None,
+            "passed": False,
+        }
+        started = time.perf_counter()
+        try:
+            with apply_mocks(namespace, test.get("mocks") or []):
+                event = PantherEvent(test["log"])
+                matched = namespace["rule"](event)
+                if not isinstance(matched, bool):
+                    raise TypeError(f"rule() returned {type(matched).__name__}, expected bool")
+                result["actualResult"] = matched
+                if matched:
+                    run_aux(namespace, event, result)
+                result["passed"] = matched == test["expectedResult"]
+        except BaseException as e:
+            error = describe(e)
+            result["error"] = error["message"]
+            if "line" in error:
+                result["errorLine"] = error["line"]
+        result["durationMs"] = round((time.perf_counter() - started) * 1000, 2)
+        results.append(result)
+
+sys.stdout = real_stdout
+print(json.dumps({"loadError": load_error, "results": results}, default=str))
+`
+
+function pythonBool(value: boolean | null): string {
+  return value === null ? 'None' : value ? 'True' : 'False'
+}
+
+function failAll(tests: RuleTestCase[], error: string): TestRunSummary {
+  return {
+    total: tests.length,
+    passed: 0,
+    failed: tests.length,
+    results: tests.map(test => ({
+      name: test.name,
+      passed: false,
+      expectedResult: test.expectedResult,
+      actualResult: null,
+      durationMs: 0,
+    })),
+    error,
+  }
+}
+
+// import 문(import a, b / from a import c)의 최상위 모듈 중 modules에 있는 것
+function findImportedModules(code: string, modules: string[]): string[] {
+  if (modules.length === 0) return []
+
+  const imported = new Set<string>()
+  for (const match of code.matchAll(/^\s*(?:from\s+([\w.]+)\s+import\b|import\s+([\w.\s,]+?)(?:#|$))/gm)) {
+    const names = match[1] ? [match[1]] : match[2].split(',').map(name => name.trim().split(/\s+/)[0])
+    for (const name of names) imported.add(name.split('.')[0])
+  }
+  return modules.filter(module => imported.has(module))
+}
+
+/**
+ * 테스트 이벤트로 rule(), title(), severity(), dedup(), alert_context()를 실행
+ * 구문 검사를 통과한 코드에 대해서만 호출해야 하며, 샌드박스 실행 실패는 예외 대신
+ * 모든 테스트 실패(error 포함)로 보고합니다.
+ * 샌드박스가 설정되지 않았으면 코드를 실행하지 않고 skipped로 보고합니다.
+ */
+export async function runRuleTests(
+  code: string,
+  tests: RuleTestCase[],
+  options: RuleTestRunOptions = {}
+): Promise<TestRunSummary> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    memoryLimitMb = DEFAULT_MEMORY_LIMIT_MB,
+    cpuLimitSeconds = DEFAULT_CPU_LIMIT_SECONDS,
+    helperModules = [],
+    language = DEFAULT_VALIDATION_LANGUAGE,
+  } = options
+
+  let run: RawTestRun
+  try {
+    const sandboxConfig = getRuleSandboxConfig()
+    if (!isRuleSandboxEnabled(sandboxConfig)) {
+      const messages = TEST_MESSAGES[language]
+      return { total: 0, passed: 0, failed: 0, results: [], skipped: messages.skipped(tests.length, messages.sandboxDisabled) }
+    }
+
+    const importedHelpers = findImportedModules(code, helperModules)
+    if (importedHelpers.length > 0) {
+      const messages = TEST_MESSAGES[language]
+      return { total: 0, passed: 0, failed: 0, results: [], skipped: messages.skipped(tests.length, messages.helpersNotExecuted(importedHelpers)) }
+    }
+
+    run = await runPythonJson<RawTestRun>(TEST_RUNNER_SCRIPT, {
+      input: JSON.stringify({ code, tests }),
+      sandbox: buildSandboxCommand(sandboxConfig, { timeoutMs, memoryLimitMb, cpuLimitSeconds }),
+      timeoutMs: timeoutMs + SANDBOX_TIMEOUT_MARGIN_MS,
+    })
+  } catch (error) {
+    return failAll(tests, error instanceof Error ? error.message : String(error))
+  }
+
+  if (run.loadError) {
+    return failAll(tests, TEST_MESSAGES[language].loadFailed(run.loadError.line, run.loadError.message))
+  }
+
+  const passed = run.results.filter(result => result.passed).length
+  return {
+    total: run.results.length,
+    passed,
+    failed: run.results.length - passed,
+    results: run.results,
+  }
+}
+
+/**
+ * 실패한 테스트를 Finding으로 변환 (source: 'test')
+ */
+export function testResultsToFindings(
+  summary: TestRunSummary,
+  language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+): Finding[] {
+  const messages = TEST_MESSAGES[language]
+
+  if (summary.skipped) {
+    return [{
+      id: 'test-skipped',
+      message: summary.skipped,
+      severity: 'info',
+      category: 'testing',
+      source: 'test',
+    }]
+  }
+
+  if (summary.error) {
+    return [{
+      id: 'test-run',
+      message: messages.runFailed(summary.error),
+      severity: 'error',
+      category: 'testing',
+      source: 'test',
+    }]
+  }
+
+  return summary.results
+    .filter(result => !result.passed)
+    .map((result, index) => ({
+      id: `test-${index + 1}`,
+      message: result.error
+        ? messages.testError(result.name, result.error)
+        : messages.testFailed(result.name, pythonBool(result.actualResult), pythonBool(result.expectedResult)),
+      severity: 'error' as const,
+      category: 'testing' as const,
+      startLine: result.errorLine,
+      endLine: result.errorLine,
+      source: 'test' as const,
+    }))
+}
+
+/**
+ * LLM 프롬프트에 포함할 테스트 실행 요약
+ */
+export function summarizeTestResults(summary: TestRunSummary | undefined): string {
+  if (summary?.skipped) {
+    return `Unit tests were provided but not executed (${summary.skipped}). Do not assume they pass or fail; score tests from the code and test design only.`
+  }
+
+  if (!summary || summary.total === 0) {
+    return 'No unit tests were provided; the rule was not executed.'
+  }
+
+  if (summary.error) {
+    return `The rule could not be executed against its ${summary.total} unit test(s): ${summary.error}`
+  }
+
+  return [
+    `The rule was executed against ${summary.total} unit test(s) in a sandbox: ${summary.passed} passed, ${summary.failed} failed. Failures are already reported; do not repeat them in findings:`,
+    ...summary.results
+      .filter(result => !result.passed)
+      .map(result => `- ${result.name}: ${result.error ?? `expected ${pythonBool(result.expectedResult)}, got ${pythonBool(result.actualResult)}`}`),
+  ].join('\n')
+}
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand } from "@aws-sdk/client-bedrock-runtime"
 import { fromWebToken } from "@aws-sdk/credential-providers"
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type LLMProvider, type LLMRequest, type LLMTool } from "@/lib/llm/types"
+import { addStreamUsage, readStreamDelta, readText, readToolInput, readUsage, toToolParams } from "@/lib/llm/anthropic-messages"
+import { recordLLMUsage } from "@/lib/usage/tracker"
+import { BEDROCK_MAX_RETRIES, callBedrock, isThrottlingError, streamBedrock } from "./limiter"
 
 // 환경별 credentials 설정
-function getCredentials() {
+export function getAwsCredentials() {
   if (process.env.NODE_ENV === 'production') {
     // IRSA 방식 (EKS 환경)
     if (!process.env.AWS_ROLE_ARN || !process.env.AWS_WEB_IDENTITY_TOKEN_FILE) {
@@ -26,185 +30,151 @@ function getCredentials() {
   }
 }
 
-const bedrockClient = new BedrockRuntimeClient({
-  region: process.env.AWS_REGION || "us-west-2",
-  credentials: getCredentials(),
-})
-
-export interface ClaudeMessage {
-  role: "user" | "assistant"
-  content: string
-}
-
-export interface ClaudeRequest {
-  messages: ClaudeMessage[]
-  max_tokens?: number
-  temperature?: number
-  system?: string
+// Provide more specific error messages
+function describeBedrockError(error: Error): Error | null {
+  if (error.message.includes("ENOTFOUND")) {
+    return new Error(`Invalid AWS region or network error: ${error.message}`)
+  }
+  if (error.message.includes("UnrecognizedClientException") || error.message.includes("security token")) {
+    return new Error(`AWS authentication failed. Please check your credentials: ${error.message}`)
+  }
+  if (isThrottlingError(error)) {
+    return new Error(`Rate limit exceeded after ${BEDROCK_MAX_RETRIES + 1} attempts. Please try again later.`)
+  }
+  return null
 }
 
-export async function invokeClaude(request: ClaudeRequest): Promise<string> {
-  // Validate required environment variables based on environment
-  if (!process.env.AWS_REGION) {
-    throw new Error("AWS region not configured. Please set AWS_REGION environment variable.")
+/**
+ * Bedrock의 Anthropic Messages API로 Claude를 호출
+ * 클라이언트와 자격 증명은 첫 호출 시점에 생성합니다.
+ * 모든 호출은 프로세스 공용 호출 제한(./limiter)을 거치며 스로틀링 시 백오프 후 재시도합니다.
+ */
+export class BedrockProvider implements LLMProvider {
+  readonly name = "bedrock" as const
+  readonly modelId: string
+  private client: BedrockRuntimeClient | null = null
+
+  constructor(modelId = process.env.BEDROCK_MODEL_ID || "anthropic.claude-3-sonnet-20240229") {
+    this.modelId = modelId
   }
 
-  if (process.env.NODE_ENV === 'production') {
-    // 프로덕션 환경: IRSA 방식 validation
-    if (!process.env.AWS_ROLE_ARN || !process.env.AWS_WEB_IDENTITY_TOKEN_FILE) {
-      throw new Error("Production environment requires AWS_ROLE_ARN and AWS_WEB_IDENTITY_TOKEN_FILE environment variables.")
+  private getClient() {
+    if (!process.env.AWS_REGION) {
+      throw new Error("AWS region not configured. Please set AWS_REGION environment variable.")
     }
-  } else {
-    // 개발 환경: Access Key 방식 validation
-    if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
-      throw new Error("Development environment requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.")
-    }
-  }
-
-  const modelId = process.env.BEDROCK_MODEL_ID || "anthropic.claude-3-sonnet-20240229"
 
-  const payload = {
-    anthropic_version: "bedrock-2023-05-31",
-    messages: request.messages,
-    max_tokens: request.max_tokens || 4096,
-    temperature: request.temperature || 0.7,
-    ...(request.system && { system: request.system }),
+    this.client ??= new BedrockRuntimeClient({
+      region: process.env.AWS_REGION,
+      credentials: getAwsCredentials(),
+      // 재시도는 호출 제한을 거치도록 limiter에서 처리
+      maxAttempts: 1,
+    })
+    return this.client
   }
 
-  try {
-    const command = new InvokeModelCommand({
-      modelId,
-      contentType: "application/json",
-      accept: "application/json",
-      body: JSON.stringify(payload),
+  private buildBody(request: LLMRequest, tool?: LLMTool) {
+    return JSON.stringify({
+      anthropic_version: "bedrock-2023-05-31",
+      messages: request.messages,
+      max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      ...(request.system && { system: request.system }),
+      ...toToolParams(tool),
     })
+  }
 
-    const response = await bedrockClient.send(command)
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body))
+  private async send(body: string) {
+    const client = this.getClient()
+
+    try {
+      const command = new InvokeModelCommand({
+        modelId: this.modelId,
+        contentType: "application/json",
+        accept: "application/json",
+        body,
+      })
 
-    return responseBody.content[0].text
-  } catch (error) {
-    console.error("Error invoking Claude:", error)
+      const response = await callBedrock("model", () => client.send(command))
+      const responseBody = JSON.parse(new TextDecoder().decode(response.body))
 
-    // Provide more specific error messages
-    if (error instanceof Error) {
-      if (error.message.includes("ENOTFOUND")) {
-        throw new Error(`Invalid AWS region or network error: ${error.message}`)
-      }
-      if (error.message.includes("UnrecognizedClientException") || error.message.includes("security token")) {
-        throw new Error(`AWS authentication failed. Please check your credentials: ${error.message}`)
+      recordLLMUsage(this.modelId, readUsage(responseBody))
+      return responseBody
+    } catch (error) {
+      console.error("Error invoking Claude:", error)
+
+      if (error instanceof Error) {
+        const described = describeBedrockError(error)
+        if (described) throw described
       }
-    }
 
-    throw new Error(`Failed to invoke Claude model: ${error instanceof Error ? error.message : "Unknown error"}`)
+      throw new Error(`Failed to invoke Claude model: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
   }
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
-}
 
-export async function* invokeClaudeStream(
-  request: ClaudeRequest,
-  maxRetries: number = 3
-): AsyncGenerator<string, void, unknown> {
-  // Validate required environment variables based on environment
-  if (!process.env.AWS_REGION) {
-    throw new Error("AWS region not configured. Please set AWS_REGION environment variable.")
+  async invoke(request: LLMRequest): Promise<string> {
+    return readText(await this.send(this.buildBody(request)))
   }
 
-  if (process.env.NODE_ENV === 'production') {
-    // 프로덕션 환경: IRSA 방식 validation
-    if (!process.env.AWS_ROLE_ARN || !process.env.AWS_WEB_IDENTITY_TOKEN_FILE) {
-      throw new Error("Production environment requires AWS_ROLE_ARN and AWS_WEB_IDENTITY_TOKEN_FILE environment variables.")
-    }
-  } else {
-    // 개발 환경: Access Key 방식 validation
-    if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
-      throw new Error("Development environment requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.")
-    }
+  async invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown> {
+    return readToolInput(await this.send(this.buildBody(request, tool)))
   }
 
-  const modelId = process.env.BEDROCK_MODEL_ID || "anthropic.claude-3-sonnet-20240229"
+  stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(this.buildBody(request), "text")
+  }
 
-  const payload = {
-    anthropic_version: "bedrock-2023-05-31",
-    messages: request.messages,
-    max_tokens: request.max_tokens || 4096,
-    temperature: request.temperature || 0.7,
-    ...(request.system && { system: request.system }),
+  streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(this.buildBody(request, tool), "tool")
   }
 
-  let lastError: Error | null = null
+  private async *streamDeltas(body: string, kind: "text" | "tool"): AsyncGenerator<string, void, unknown> {
+    const client = this.getClient()
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const command = new InvokeModelWithResponseStreamCommand({
-        modelId,
-        contentType: "application/json",
-        accept: "application/json",
-        body: JSON.stringify(payload),
-      })
-
-      const response = await bedrockClient.send(command)
-
-      if (!response.body) {
-        throw new Error("No response body received from Bedrock")
-      }
-
-      for await (const chunk of response.body) {
-        if (chunk.chunk?.bytes) {
-          const chunkText = new TextDecoder().decode(chunk.chunk.bytes)
-          try {
-            const chunkData = JSON.parse(chunkText)
-            if (chunkData.type === "content_block_delta" && chunkData.delta?.text) {
-              yield chunkData.delta.text
-            }
-          } catch (parseError) {
-            console.warn("Failed to parse chunk:", chunkText)
-          }
-        }
-      }
-
-      // If we get here, the request was successful
-      return
+      yield* streamBedrock("model", () => this.readStream(client, body, kind))
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-      console.error(`Error invoking Claude stream (attempt ${attempt + 1}/${maxRetries + 1}):`, lastError)
-
-      // Check if it's a throttling error
-      const isThrottlingError = lastError.message.includes("ThrottlingException") ||
-                               lastError.message.includes("Too many requests")
+      console.error("Error invoking Claude stream:", error)
 
-      // If it's the last attempt or not a throttling error, don't retry
-      if (attempt === maxRetries || !isThrottlingError) {
-        break
+      if (error instanceof Error) {
+        const described = describeBedrockError(error)
+        if (described) throw described
       }
 
-      // Exponential backoff: 1s, 2s, 4s, 8s...
-      const delay = Math.min(1000 * Math.pow(2, attempt), 10000) // Cap at 10 seconds
-      console.log(`Retrying after ${delay}ms...`)
-      await sleep(delay)
+      throw new Error(`Failed to invoke Claude model stream: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
-  // If we get here, all retries failed
-  if (lastError) {
-    // Provide more specific error messages
-    if (lastError.message.includes("ENOTFOUND")) {
-      throw new Error(`Invalid AWS region or network error: ${lastError.message}`)
-    }
-    if (lastError.message.includes("UnrecognizedClientException") || lastError.message.includes("security token")) {
-      throw new Error(`AWS authentication failed. Please check your credentials: ${lastError.message}`)
-    }
-    if (lastError.message.includes("ThrottlingException") || lastError.message.includes("Too many requests")) {
-      throw new Error(`Rate limit exceeded after ${maxRetries + 1} attempts. Please try again later.`)
+  private async *readStream(client: BedrockRuntimeClient, body: string, kind: "text" | "tool"): AsyncGenerator<string, void, unknown> {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: this.modelId,
+      contentType: "application/json",
+      accept: "application/json",
+      body,
+    })
+
+    const response = await client.send(command)
+
+    if (!response.body) {
+      throw new Error("No response body received from Bedrock")
     }
 
-    throw new Error(`Failed to invoke Claude model stream after ${maxRetries + 1} attempts: ${lastError.message}`)
-  }
+    const usage = { inputTokens: 0, outputTokens: 0 }
 
-  throw new Error("Unknown error occurred during streaming")
-}
+    for await (const chunk of response.body) {
+      if (chunk.chunk?.bytes) {
+        const chunkText = new TextDecoder().decode(chunk.chunk.bytes)
+        try {
+          const event = JSON.parse(chunkText)
+          addStreamUsage(usage, event)
+
+          const delta = readStreamDelta(event, kind)
+          if (delta) yield delta
+        } catch {
+          console.warn("Failed to parse chunk:", chunkText)
+        }
+      }
+    }
 
-export { bedrockClient }
\ No newline at end of file
+    recordLLMUsage(this.modelId, usage)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * 프로세스 전체에서 공유하는 Bedrock 호출 제한
+ * 모델 호출과 임베딩 호출마다 토큰 버킷(초당 요청 수)과 동시 실행 수를 두고,
+ * 대기 중인 대화형 요청을 배치 요청보다 먼저 실행합니다.
+ */
+export type BedrockResource = 'model' | 'embedding'
+export type BedrockPriority = 'interactive' | 'batch'
+
+export interface BedrockLimits {
+  requestsPerSecond: number
+  burst: number
+  concurrency: number
+}
+
+export interface BedrockQueueStats extends BedrockLimits {
+  queued: Record<BedrockPriority, number>
+  running: number
+  retries: number
+}
+
+export const BEDROCK_MAX_RETRIES = Number(process.env.BEDROCK_MAX_RETRIES || 3)
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 10000
+
+// 스로틀링과 일시적인 서버 오류만 재시도
+const RETRYABLE_ERRORS = [
+  'ThrottlingException',
+  'Too many requests',
+  'ServiceUnavailableException',
+  'ModelNotReadyException',
+  'InternalServerException',
+]
+
+interface Waiter {
+  priority: BedrockPriority
+  resolve: (release: () => void) => void
+}
+
+class BedrockLimiter {
+  private tokens: number
+  private lastRefill = Date.now()
+  private running = 0
+  private runningBatch = 0
+  private refillTimer: ReturnType<typeof setTimeout> | null = null
+  private queues: Record<BedrockPriority, Waiter[]> = { interactive: [], batch: [] }
+  retries = 0
+
+  constructor(private limits: BedrockLimits) {
+    this.tokens = limits.burst
+  }
+
+  acquire(priority: BedrockPriority): Promise<() => void> {
+    return new Promise(resolve => {
+      this.queues[priority].push({ priority, resolve })
+      this.drain()
+    })
+  }
+
+  stats(): BedrockQueueStats {
+    return {
+      ...this.limits,
+      queued: { interactive: this.queues.interactive.length, batch: this.queues.batch.length },
+      running: this.running,
+      retries: this.retries,
+    }
+  }
+
+  // 배치 요청은 동시 실행 슬롯 하나를 대화형 요청용으로 남겨 둠
+  private get batchConcurrency() {
+    return Math.max(1, this.limits.concurrency - 1)
+  }
+
+  private nextWaiter() {
+    if (this.queues.interactive.length > 0) return this.queues.interactive.shift()
+    if (this.runningBatch < this.batchConcurrency) return this.queues.batch.shift()
+    return undefined
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(this.limits.burst, this.tokens + (now - this.lastRefill) / 1000 * this.limits.requestsPerSecond)
+    this.lastRefill = now
+  }
+
+  private drain() {
+    this.refill()
+
+    while (this.running < this.limits.concurrency && this.tokens >= 1) {
+      const waiter = this.nextWaiter()
+      if (!waiter) return
+
+      this.tokens--
+      this.running++
+      if (waiter.priority === 'batch') this.runningBatch++
+
+      let released = false
+      waiter.resolve(() => {
+        if (released) return
+        released = true
+        this.running--
+        if (waiter.priority === 'batch') this.runningBatch--
+        this.drain()
+      })
+    }
+
+    // 슬롯은 비었지만 토큰이 부족하면 다음 토큰이 채워질 때 다시 실행
+    const hasWaiter = this.queues.interactive.length > 0 || this.queues.batch.length > 0
+    if (hasWaiter && this.running < this.limits.concurrency && !this.refillTimer) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.limits.requestsPerSecond * 1000)
+      this.refillTimer = setTimeout(() => {
+        this.refillTimer = null
+        this.drain()
+      }, waitMs)
+    }
+  }
+}
+
+function readLimits(prefix: string, defaults: { requestsPerSecond: number, concurrency: number }): BedrockLimits {
+  const requestsPerSecond = Number(process.env[`${prefix}_RPS`] || defaults.requestsPerSecond)
+  return {
+    requestsPerSecond,
+    burst: Math.max(1, Math.ceil(requestsPerSecond)),
+    concurrency: Number(process.env[`${prefix}_CONCURRENCY`] || defaults.concurrency),
+  }
+}
+
+// Next.js 개발 모드의 모듈 재로딩에도 제한이 하나만 유지되도록 globalThis에 보관
+const globalForLimiter = globalThis as unknown as { bedrockLimiters?: Record<BedrockResource, BedrockLimiter> }
+const limiters = globalForLimiter.bedrockLimiters ??= {
+  model: new BedrockLimiter(readLimits('BEDROCK_MODEL', { requestsPerSecond: 2, concurrency: 4 })),
+  embedding: new BedrockLimiter(readLimits('BEDROCK_EMBEDDING', { requestsPerSecond: 10, concurrency: 4 })),
+}
+
+const priorityStorage = new AsyncLocalStorage<BedrockPriority>()
+
+/**
+ * fn 안에서 발생한 Bedrock 호출의 우선순위를 지정 (기본값은 interactive)
+ * 문서 수집, 규칙 팩 검증처럼 오래 걸리는 작업은 batch로 실행합니다.
+ */
+export function withBedrockPriority<T>(priority: BedrockPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityStorage.run(priority, fn)
+}
+
+export function isThrottlingError(error: Error) {
+  return error.message.includes('ThrottlingException') || error.message.includes('Too many requests') ||
+    error.name === 'ThrottlingException'
+}
+
+function isRetryableError(error: unknown) {
+  if (!(error instanceof Error)) return false
+  return RETRYABLE_ERRORS.some(name => error.name === name || error.message.includes(name))
+}
+
+// 지수 백오프에 지터를 더해 동시에 실패한 요청들이 같은 시점에 재시도하지 않도록 함
+function backoffDelay(attempt: number) {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS)
+  return delay / 2 + Math.random() * delay / 2
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function acquire(resource: BedrockResource) {
+  return limiters[resource].acquire(priorityStorage.getStore() ?? 'interactive')
+}
+
+function logRetry(resource: BedrockResource, attempt: number, delay: number, error: unknown) {
+  limiters[resource].retries++
+  console.warn(
+    `Bedrock ${resource} call failed (attempt ${attempt + 1}/${BEDROCK_MAX_RETRIES + 1}), retrying after ${Math.round(delay)}ms:`,
+    error instanceof Error ? error.message : error
+  )
+}
+
+/**
+ * 호출 제한을 거쳐 Bedrock을 호출하고, 스로틀링·일시적 오류는 백오프 후 재시도
+ */
+export async function callBedrock<T>(resource: BedrockResource, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquire(resource)
+
+    try {
+      return await call()
+    } catch (error) {
+      if (attempt >= BEDROCK_MAX_RETRIES || !isRetryableError(error)) throw error
+
+      const delay = backoffDelay(attempt)
+      logRetry(resource, attempt, delay, error)
+      release() // 백오프 동안에는 슬롯을 다른 요청에 넘김
+      await sleep(delay)
+    } finally {
+      release()
+    }
+  }
+}
+
+/**
+ * 스트리밍 호출용 callBedrock - 스트림이 끝날 때까지 슬롯을 유지
+ * 이미 일부를 전달한 뒤의 오류는 출력이 중복되므로 재시도하지 않습니다.
+ */
+export async function* streamBedrock<T>(resource: BedrockResource, open: () => AsyncIterable<T>): AsyncGenerator<T, void, unknown> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquire(resource)
+    let started = false
+
+    try {
+      for await (const item of open()) {
+        started = true
+        yield item
+      }
+      return
+    } catch (error) {
+      if (started || attempt >= BEDROCK_MAX_RETRIES || !isRetryableError(error)) throw error
+
+      const delay = backoffDelay(attempt)
+      logRetry(resource, attempt, delay, error)
+      release() // 백오프 동안에는 슬롯을 다른 요청에 넘김
+      await sleep(delay)
+    } finally {
+      release()
+    }
+  }
+}
+
+export function getBedrockQueueStats(): Record<BedrockResource, BedrockQueueStats> {
+  return { model: limiters.model.stats(), embedding: limiters.embedding.stats() }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { EmbeddingDimensionError, getEmbeddingConfig } from '@/lib/embeddings/config'
+
+/**
+ * embedding 컬럼(pgvector) 차원 확인과 재구성
+ * 컬럼 차원이 EMBEDDING_DIMENSIONS와 다르면 검색과 저장 전에 바로 실패시키고, db:reembed 명령으로 컬럼과 HNSW 인덱스를 다시 만듭니다.
+ * 다른 모델로 만든 벡터가 섞여 있으면 경고합니다 - 차원이 같아도 서로 비교할 수 없으므로 db:reembed로 다시 임베딩해야 합니다.
+ */
+
+// 임베딩 컬럼이 있는 테이블과 HNSW 인덱스 (schema.ts의 인덱스 이름과 같아야 함)
+export const EMBEDDING_TABLES = [
+  { table: 'knowledge_documents', index: 'knowledge_documents_embedding_idx' },
+  { table: 'code_examples', index: 'code_examples_embedding_idx' },
+] as const
+
+export type EmbeddingTable = typeof EMBEDDING_TABLES[number]['table']
+
+/**
+ * 테이블별 embedding 컬럼 차원 (차원 없이 만든 컬럼은 null)
+ */
+export async function getEmbeddingColumnDimensions(): Promise<Record<EmbeddingTable, number | null>> {
+  const result = await db.execute<{ table: EmbeddingTable, dimensions: number }>(sql`
+    SELECT c.relname AS "table", a.atttypmod AS dimensions
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    WHERE a.attname = 'embedding'
+      AND NOT a.attisdropped
+      AND c.oid IN (${sql.join(EMBEDDING_TABLES.map(({ table }) => sql`to_regclass(${table})`), sql`, `)})
+  `)
+
+  const dimensions = Object.fromEntries(EMBEDDING_TABLES.map(({ table }) => [table, null])) as Record<EmbeddingTable, number | null>
+  const found = new Set<string>()
+  result.rows.forEach(row => {
+    found.add(row.table)
+    dimensions[row.table] = row.dimensions > 0 ? row.dimensions : null
+  })
+
+  const missing = EMBEDDING_TABLES.filter(({ table }) => !found.has(table)).map(({ table }) => table)
+  if (missing.length > 0) {
+    throw new Error(`Missing embedding column on ${missing.join(', ')}. Run pnpm run db:migrate first.`)
+  }
+  return dimensions
+}
+
+export interface EmbeddingModelUsage {
+  models: Record<string, number> // 모델별 임베딩 수 (모델 기록이 없는 이전 행은 'unknown')
+  missing: number // 임베딩이 없는 행 수
+}
+
+/**
+ * 테이블별로 어떤 모델의 벡터가 몇 개 저장되어 있는지 조회
+ */
+export async function getEmbeddingModelUsage(): Promise<Record<EmbeddingTable, EmbeddingModelUsage>> {
+  const entries = await Promise.all(EMBEDDING_TABLES.map(async ({ table }) => {
+    const result = await db.execute<{ model: string | null, embedded: boolean, count: number }>(sql`
+      SELECT embedding_model AS model, embedding IS NOT NULL AS embedded, cast(count(*) as int) AS count
+      FROM ${sql.identifier(table)}
+      GROUP BY 1, 2
+    `)
+
+    const usage: EmbeddingModelUsage = { models: {}, missing: 0 }
+    result.rows.forEach(row => {
+      if (!row.embedded) usage.missing += row.count
+      else usage.models[row.model ?? 'unknown'] = (usage.models[row.model ?? 'unknown'] ?? 0) + row.count
+    })
+    return [table, usage] as const
+  }))
+  return Object.fromEntries(entries) as Record<EmbeddingTable, EmbeddingModelUsage>
+}
+
+// 현재 모델이 아닌 벡터 수 (db:reembed가 다시 임베딩하는 행 중 임베딩이 있는 행)
+export function countOtherModelEmbeddings(usage: EmbeddingModelUsage, modelId: string) {
+  return Object.entries(usage.models).reduce((sum, [model, count]) => model === modelId ? sum : sum + count, 0)
+}
+
+/**
+ * 컬럼 차원이 설정과 다르면 EmbeddingDimensionError, 다른 모델의 벡터가 섞여 있으면 경고
+ */
+export async function checkEmbeddingColumns(expected = getEmbeddingConfig().dimensions): Promise<void> {
+  const dimensions = await getEmbeddingColumnDimensions()
+  const mismatched = Object.entries(dimensions).filter(([, actual]) => actual !== expected)
+  if (mismatched.length > 0) {
+    const columns = mismatched.map(([table, actual]) => `${table}.embedding is vector(${actual ?? ''})`).join(', ')
+    throw new EmbeddingDimensionError(
+      `${columns}, but EMBEDDING_DIMENSIONS is ${expected}. Run pnpm run db:reembed to rebuild the embedding columns.`
+    )
+  }
+
+  const { modelId } = getEmbeddingConfig()
+  const usage = await getEmbeddingModelUsage()
+  Object.entries(usage).forEach(([table, tableUsage]) => {
+    const others = countOtherModelEmbeddings(tableUsage, modelId)
+    if (others > 0) {
+      console.warn(
+        `${table} has ${others} embeddings from other models (${JSON.stringify(tableUsage.models)}), but EMBEDDING_MODEL_ID is ${modelId}. ` +
+        'Their similarity scores are not comparable. Run pnpm run db:reembed to re-embed them.'
+      )
+    }
+  })
+}
+
+// Next.js 개발 모드의 모듈 재로딩에도 확인을 한 번만 하도록 globalThis에 보관 (실패하면 다음 호출에서 다시 확인)
+const globalForEmbeddings = globalThis as unknown as { embeddingColumnsChecked?: Promise<void> }
+
+/**
+ * 프로세스에서 처음 임베딩을 저장하거나 검색하기 전에 컬럼 차원을 확인
+ */
+export function assertEmbeddingColumns(): Promise<void> {
+  globalForEmbeddings.embeddingColumnsChecked ??= checkEmbeddingColumns().catch(error => {
+    globalForEmbeddings.embeddingColumnsChecked = undefined
+    throw error
+  })
+  return globalForEmbeddings.embeddingColumnsChecked
+}
+
+/**
+ * embedding 컬럼을 vector(dimensions)로 다시 만들고 HNSW 인덱스를 재생성
+ * 차원이 다른 벡터는 변환할 수 없으므로 기존 임베딩은 모두 NULL이 됩니다 - 이후 다시 임베딩해야 합니다.
+ */
+export async function rebuildEmbeddingColumns(dimensions: number): Promise<void> {
+  if (!Number.isInteger(dimensions) || dimensions <= 0) throw new Error(`Invalid embedding dimensions: ${dimensions}`)
+
+  await db.transaction(async tx => {
+    for (const { table, index } of EMBEDDING_TABLES) {
+      await tx.execute(sql`DROP INDEX IF EXISTS ${sql.identifier(index)}`)
+      await tx.execute(sql`
+        ALTER TABLE ${sql.identifier(table)}
+        ALTER COLUMN embedding TYPE vector(${sql.raw(String(dimensions))}) USING NULL
+      `)
+      await tx.execute(sql`
+        CREATE INDEX ${sql.identifier(index)} ON ${sql.identifier(table)}
+        USING hnsw (embedding vector_cosine_ops)
+      `)
+    }
+  })
+  globalForEmbeddings.embeddingColumnsChecked = undefined
+}
\ No newline at end of file
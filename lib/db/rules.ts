@@ -0,0 +1,222 @@
+import { createHash } from 'crypto'
+import { and, asc, count, desc, eq, ilike, inArray, max, sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { codeValidations, ruleVersions, rules, type CodeValidation, type RuleVersion } from '@/lib/db/schema'
+import { readSpecFields } from '@/lib/analysis/spec'
+import { normalizeFindings } from '@/lib/schemas/validation'
+
+// 결과 화면과 같은 기준 - 이 점수 이상이고 오류·실패 테스트가 없으면 통과
+export const PASSING_SCORE = 70
+
+export interface RuleSummary {
+  id: string
+  ruleId: string
+  latestVersion: number | null
+  validationCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface RuleTrajectoryPoint {
+  validationId: string
+  version: number
+  ruleComplianceScore: number
+  codeQualityScore: number
+  passed: boolean
+  createdAt: Date
+}
+
+export interface RuleVersionSummary {
+  version: number
+  contentHash: string
+  hasSpec: boolean
+  validationCount: number
+  latestScore: number | null
+  createdAt: Date
+}
+
+export interface RuleLineage {
+  id: string
+  ruleId: string
+  createdAt: Date
+  updatedAt: Date
+  versions: RuleVersionSummary[]
+  trajectory: RuleTrajectoryPoint[]
+  lastPassingVersion: number | null
+  passingScore: number
+}
+
+/**
+ * 규칙 ID 결정 - 사용자가 지정한 ID가 우선이고, 없으면 YAML 스펙의 RuleID
+ */
+export function resolveRuleKey(ruleId?: string, spec?: string): string | undefined {
+  const explicit = ruleId?.trim()
+  if (explicit) return explicit
+  return spec ? readSpecFields(spec).ruleId?.trim() || undefined : undefined
+}
+
+// 줄바꿈과 줄 끝 공백 차이는 같은 버전으로 취급
+function normalizeContent(text: string) {
+  return text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim()
+}
+
+export function hashRuleContent(code: string, spec?: string) {
+  return createHash('sha256')
+    .update(normalizeContent(code))
+    .update('\0')
+    .update(normalizeContent(spec ?? ''))
+    .digest('hex')
+}
+
+/**
+ * 규칙과 내용 해시에 해당하는 버전을 찾고, 없으면 다음 버전 번호로 생성
+ */
+export async function resolveRuleVersion(options: {
+  ruleKey: string
+  code: string
+  spec?: string
+  userId?: string
+}): Promise<RuleVersion> {
+  const { ruleKey, code, spec, userId } = options
+  const contentHash = hashRuleContent(code, spec)
+
+  const [rule] = await db.insert(rules)
+    .values({ ruleId: ruleKey, userId: userId || null })
+    .onConflictDoUpdate({ target: rules.ruleId, set: { updatedAt: new Date() } })
+    .returning()
+
+  // 동시에 같은 규칙의 새 버전이 저장되면 버전 번호가 충돌하므로 몇 번 재시도
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const [existing] = await db.select()
+      .from(ruleVersions)
+      .where(and(eq(ruleVersions.ruleId, rule.id), eq(ruleVersions.contentHash, contentHash)))
+    if (existing) return existing
+
+    const [created] = await db.insert(ruleVersions)
+      .values({
+        ruleId: rule.id,
+        version: sql`(select coalesce(max(${ruleVersions.version}), 0) + 1 from ${ruleVersions} where ${ruleVersions.ruleId} = ${rule.id})`,
+        contentHash,
+        codeContent: code,
+        specContent: spec ?? null,
+      })
+      .onConflictDoNothing()
+      .returning()
+    if (created) return created
+  }
+
+  throw new Error(`규칙 버전을 저장하지 못했습니다 (${ruleKey})`)
+}
+
+/**
+ * 검증 통과 여부 - 구문 오류, error 발견 항목, 실패한 테스트가 없고 준수성 점수가 기준 이상
+ */
+export function isPassingValidation(
+  record: Pick<CodeValidation, 'syntaxIsValid' | 'ruleComplianceScore' | 'ruleFindings' | 'testResults'>
+) {
+  const hasErrors = normalizeFindings(record.ruleFindings).some(finding => finding.severity === 'error')
+  const testsFailed = record.testResults ? record.testResults.failed > 0 || !!record.testResults.error : false
+
+  return record.syntaxIsValid && record.ruleComplianceScore >= PASSING_SCORE && !hasErrors && !testsFailed
+}
+
+/**
+ * 규칙 목록을 최근 검증순으로 조회
+ */
+export async function listRules(options: { search?: string, limit?: number } = {}): Promise<RuleSummary[]> {
+  const { search, limit = 100 } = options
+
+  return db.select({
+    id: rules.id,
+    ruleId: rules.ruleId,
+    latestVersion: max(ruleVersions.version),
+    validationCount: count(codeValidations.id),
+    createdAt: rules.createdAt,
+    updatedAt: rules.updatedAt,
+  })
+    .from(rules)
+    .leftJoin(ruleVersions, eq(ruleVersions.ruleId, rules.id))
+    .leftJoin(codeValidations, eq(codeValidations.ruleVersionId, ruleVersions.id))
+    .where(search ? ilike(rules.ruleId, `%${search}%`) : undefined)
+    .groupBy(rules.id)
+    .orderBy(desc(rules.updatedAt))
+    .limit(limit)
+}
+
+/**
+ * 규칙의 버전 목록, 검증 점수 추이, 마지막으로 통과한 버전을 조회
+ */
+export async function getRuleLineage(ruleKey: string): Promise<RuleLineage | null> {
+  const [rule] = await db.select().from(rules).where(eq(rules.ruleId, ruleKey))
+  if (!rule) return null
+
+  const versions = await db.select()
+    .from(ruleVersions)
+    .where(eq(ruleVersions.ruleId, rule.id))
+    .orderBy(asc(ruleVersions.version))
+
+  const validations = versions.length === 0 ? [] : await db.select({
+    id: codeValidations.id,
+    ruleVersionId: codeValidations.ruleVersionId,
+    syntaxIsValid: codeValidations.syntaxIsValid,
+    ruleComplianceScore: codeValidations.ruleComplianceScore,
+    codeQualityScore: codeValidations.codeQualityScore,
+    ruleFindings: codeValidations.ruleFindings,
+    testResults: codeValidations.testResults,
+    createdAt: codeValidations.createdAt,
+  })
+    .from(codeValidations)
+    .where(inArray(codeValidations.ruleVersionId, versions.map(version => version.id)))
+    .orderBy(asc(codeValidations.createdAt))
+
+  const versionNumbers = new Map(versions.map(version => [version.id, version.version]))
+  const trajectory: RuleTrajectoryPoint[] = validations.map(validation => ({
+    validationId: validation.id,
+    version: versionNumbers.get(validation.ruleVersionId!)!,
+    ruleComplianceScore: validation.ruleComplianceScore,
+    codeQualityScore: validation.codeQualityScore,
+    passed: isPassingValidation(validation),
+    createdAt: validation.createdAt,
+  }))
+
+  const lastPassing = trajectory.filter(point => point.passed).at(-1)
+
+  return {
+    id: rule.id,
+    ruleId: rule.ruleId,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+    versions: versions.map(version => {
+      const points = trajectory.filter(point => point.version === version.version)
+      return {
+        version: version.version,
+        contentHash: version.contentHash,
+        hasSpec: version.specContent !== null,
+        validationCount: points.length,
+        latestScore: points.at(-1)?.ruleComplianceScore ?? null,
+        createdAt: version.createdAt,
+      }
+    }),
+    trajectory,
+    lastPassingVersion: lastPassing?.version ?? null,
+    passingScore: PASSING_SCORE,
+  }
+}
+
+/**
+ * 규칙의 특정 버전 내용을 조회 (버전 간 비교용)
+ */
+export async function getRuleVersions(ruleKey: string, versionNumbers: number[]) {
+  const [rule] = await db.select({ id: rules.id }).from(rules).where(eq(rules.ruleId, ruleKey))
+  if (!rule) return null
+
+  return db.select({
+    version: ruleVersions.version,
+    contentHash: ruleVersions.contentHash,
+    code: ruleVersions.codeContent,
+    spec: ruleVersions.specContent,
+    createdAt: ruleVersions.createdAt,
+  })
+    .from(ruleVersions)
+    .where(and(eq(ruleVersions.ruleId, rule.id), inArray(ruleVersions.version, versionNumbers)))
+}
\ No newline at end of file
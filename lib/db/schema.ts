@@ -1,4 +1,8 @@
-import { pgTable, uuid, text, boolean, integer, jsonb, timestamp, varchar, vector, real, index } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, text, boolean, integer, jsonb, timestamp, varchar, vector, real, index, uniqueIndex, customType } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+// drizzle-kit이 경로 별칭 없이 읽을 수 있도록 상대 경로 사용
+import { getSchemaEmbeddingDimensions } from '../embeddings/config'
+import type { Finding, RubricScore, ScoreConsistency, TestRunSummary, ValidationJobKind, ValidationJobStatus, ValidationLanguage } from '@/lib/schemas/validation'
 
 export const codeValidations = pgTable('code_validations', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -11,7 +15,8 @@ export const codeValidations = pgTable('code_validations', {
 
   // Rule Compliance 결과
   ruleComplianceScore: integer('rule_compliance_score').notNull(),
-  ruleFindings: jsonb('rule_findings').$type<string[]>().notNull(),
+  // 구조화된 Finding[] (이전 레코드는 string[] - 읽을 때 normalizeFindings로 정규화)
+  ruleFindings: jsonb('rule_findings').$type<Array<Finding | string>>().notNull(),
   ruleSuggestions: jsonb('rule_suggestions').$type<string[]>().notNull(),
 
   // Code Quality 결과
@@ -21,22 +26,106 @@ export const codeValidations = pgTable('code_validations', {
   // Detailed Analysis
   detailedAnalysis: text('detailed_analysis').notNull(),
 
+  // 샌드박스 단위 테스트 결과 (테스트 케이스 없이 검증한 경우 null)
+  testResults: jsonb('test_results').$type<TestRunSummary>(),
+
+  // 여러 샘플로 검증한 경우 샘플 점수 분포 (단일 샘플이면 null)
+  scoreConsistency: jsonb('score_consistency').$type<ScoreConsistency>(),
+
+  // 채점 기준 항목별 점수 - 두 점수 컬럼은 이 값으로 계산 (정적 분석 기반 대체 결과와 구문 오류 결과는 null)
+  rubricScores: jsonb('rubric_scores').$type<RubricScore[]>(),
+
+  // 규칙 ID가 주어진 경우 검증한 규칙 버전 (규칙 ID 없이 검증한 경우 null)
+  ruleVersionId: uuid('rule_version_id').references(() => ruleVersions.id),
+
   // Metadata
   totalDurationMs: integer('total_duration_ms').notNull(),
   modelUsed: varchar('model_used', { length: 100 }).notNull(),
+  language: varchar('language', { length: 10 }).$type<ValidationLanguage>().default('ko').notNull(), // 결과 언어
+
+  // LLM·임베딩 사용량과 가격표 기준 예상 비용 (저장 시점 가격으로 계산)
+  llmCalls: integer('llm_calls').default(0).notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  embeddingCalls: integer('embedding_calls').default(0).notNull(),
+  embeddingTokens: integer('embedding_tokens').default(0).notNull(),
+  estimatedCostUsd: real('estimated_cost_usd').default(0).notNull(),
+
+  // 결과 캐시 키와 키를 구성한 프롬프트·지식 베이스 버전 (LLM 분석이 실패해 대체 결과를 저장한 경우 키는 null)
+  // 프롬프트 버전은 레지스트리의 "이름@버전" 목록 (lib/prompts)
+  cacheKey: varchar('cache_key', { length: 64 }),
+  promptVersion: varchar('prompt_version', { length: 200 }),
+  knowledgeBaseVersion: varchar('knowledge_base_version', { length: 64 }),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  createdAtIndex: index('code_validations_created_at_idx').on(table.createdAt),
+  cacheKeyIndex: index('code_validations_cache_key_idx').on(table.cacheKey),
+}))
+
+// 규칙 - YAML의 RuleID 또는 사용자가 지정한 ID로 같은 규칙의 검증을 묶음
+export const rules = pgTable('rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ruleId: varchar('rule_id', { length: 200 }).notNull().unique(),
+  userId: uuid('user_id'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
-// 단계별 진행 로그 (선택사항 - 나중에 분석 성능 추적용)
+// 규칙 버전 - 코드와 스펙 내용이 같으면 같은 버전
+export const ruleVersions = pgTable('rule_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ruleId: uuid('rule_id').references(() => rules.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(), // 규칙별 1부터 증가
+  contentHash: varchar('content_hash', { length: 64 }).notNull(), // 정규화한 코드+스펙의 SHA-256
+  codeContent: text('code_content').notNull(),
+  specContent: text('spec_content'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  ruleHashIndex: uniqueIndex('rule_versions_rule_hash_idx').on(table.ruleId, table.contentHash),
+  ruleVersionIndex: uniqueIndex('rule_versions_rule_version_idx').on(table.ruleId, table.version),
+}))
+
+// 비동기 검증 작업 (POST는 작업 ID만 반환하고 워커가 검증을 실행)
+export const validationJobs = pgTable('validation_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  kind: varchar('kind', { length: 20 }).$type<ValidationJobKind>().notNull(), // 'structured', 'rag'
+  status: varchar('status', { length: 20 }).$type<ValidationJobStatus>().notNull().default('queued'),
+  request: jsonb('request').notNull(), // 검증된 요청 본문
+  validationId: uuid('validation_id').references(() => codeValidations.id), // 완료 시 저장된 검증 레코드
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  statusIndex: index('validation_jobs_status_idx').on(table.status),
+}))
+
+// 단계별 진행 로그 - 작업의 SSE 이벤트를 순서대로 저장하며 sequence가 이벤트 ID
 export const analysisSteps = pgTable('analysis_steps', {
   id: uuid('id').primaryKey().defaultRandom(),
-  validationId: uuid('validation_id').references(() => codeValidations.id).notNull(),
-  stepName: varchar('step_name', { length: 20 }).notNull(), // 'syntax', 'rules', 'quality', 'analysis'
+  jobId: uuid('job_id').references(() => validationJobs.id, { onDelete: 'cascade' }).notNull(),
+  validationId: uuid('validation_id').references(() => codeValidations.id), // 작업 완료 후 연결
+  sequence: integer('sequence').notNull(),
+  stepName: varchar('step_name', { length: 20 }).notNull(), // 'syntax', 'rules', 'quality', 'analysis', 'complete', 'error'
   startedAt: timestamp('started_at').notNull(),
   completedAt: timestamp('completed_at'),
-  stepData: jsonb('step_data'), // 각 단계별 메타데이터
+  stepData: jsonb('step_data'), // SSE로 전송되는 이벤트 본문
+}, (table) => ({
+  jobSequenceIndex: uniqueIndex('analysis_steps_job_sequence_idx').on(table.jobId, table.sequence),
+}))
+
+// Postgres 전문 검색 벡터 (하이브리드 검색의 lexical 방식, lib/knowledge/retrieval)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector'
+  },
 })
 
+// 임베딩 컬럼 차원은 EMBEDDING_MODEL_ID/EMBEDDING_DIMENSIONS 설정을 따름 (바꾸면 pnpm run db:reembed)
+// 설정이 잘못되어도 스키마 import는 실패하지 않으며, 첫 임베딩 호출과 drizzle-kit 시작 시 오류가 납니다.
+const EMBEDDING_DIMENSIONS = getSchemaEmbeddingDimensions()
+
 // Panther 규칙 문서 저장 (RAG용)
 export const knowledgeDocuments = pgTable('knowledge_documents', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -44,11 +133,19 @@ export const knowledgeDocuments = pgTable('knowledge_documents', {
   content: text('content').notNull(),
   section: varchar('section', { length: 100 }),
   documentType: varchar('document_type', { length: 50 }).notNull(), // 'rule', 'best-practice', 'example'
-  embedding: vector('embedding', { dimensions: 1536 }), // Padded to match DB
+  embedding: vector('embedding', { dimensions: EMBEDDING_DIMENSIONS }),
+  embeddingModel: varchar('embedding_model', { length: 100 }), // embedding을 만든 모델 (다른 모델의 벡터는 db:reembed 대상)
   metadata: jsonb('metadata'),
+  // 식별자가 단어로 쪼개져도 검색어와 같은 방식으로 나뉘도록 'simple' 설정 사용 (제목 > 섹션 > 본문 가중치)
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('simple'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce(section, '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, content), 'C')
+  `),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   embeddingIndex: index('knowledge_documents_embedding_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
+  searchVectorIndex: index('knowledge_documents_search_vector_idx').using('gin', table.searchVector),
 }))
 
 // Few-shot 코드 예제
@@ -59,20 +156,40 @@ export const codeExamples = pgTable('code_examples', {
   qualityScore: integer('quality_score').notNull(), // 0-100
   category: varchar('category', { length: 50 }),
   description: text('description'),
-  embedding: vector('embedding', { dimensions: 1536 }),
+  embedding: vector('embedding', { dimensions: EMBEDDING_DIMENSIONS }),
+  embeddingModel: varchar('embedding_model', { length: 100 }), // embedding을 만든 모델 (다른 모델의 벡터는 db:reembed 대상)
   tags: jsonb('tags').$type<string[]>(),
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('simple'::regconfig, title), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, code_content), 'C')
+  `),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   embeddingIndex: index('code_examples_embedding_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
+  searchVectorIndex: index('code_examples_search_vector_idx').using('gin', table.searchVector),
   qualityScoreCheck: 'CHECK (quality_score >= 0 AND quality_score <= 100)',
 }))
 
+// 텍스트 임베딩 캐시 (검색어와 제출 코드를 모델별로 한 번만 임베딩)
+// 모델마다 차원이 다를 수 있으므로 vector가 아닌 real[]로 저장
+export const embeddingCache = pgTable('embedding_cache', {
+  cacheKey: varchar('cache_key', { length: 64 }).primaryKey(), // sha256(모델 ID, 차원, 입력 종류, 정리한 텍스트)
+  modelId: varchar('model_id', { length: 100 }).notNull(),
+  inputType: varchar('input_type', { length: 20 }).notNull(), // 'document' | 'query'
+  embedding: real('embedding').array().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  modelIdIndex: index('embedding_cache_model_id_idx').on(table.modelId),
+}))
+
 // 검증 결과에 RAG 정보 추가를 위한 확장
 export const validationDocumentReferences = pgTable('validation_document_references', {
   id: uuid('id').primaryKey().defaultRandom(),
   validationId: uuid('validation_id').references(() => codeValidations.id).notNull(),
   documentId: uuid('document_id').references(() => knowledgeDocuments.id).notNull(),
   relevanceScore: real('relevance_score').notNull(), // 0.0-1.0
+  rerankScore: real('rerank_score'), // 0.0-1.0, 재순위화를 사용한 경우
   usageContext: varchar('usage_context', { length: 100 }), // 'rule-compliance', 'quality-check', etc.
 })
 
@@ -87,6 +204,12 @@ export const validationExampleReferences = pgTable('validation_example_reference
 // 타입 추출
 export type CodeValidation = typeof codeValidations.$inferSelect
 export type NewCodeValidation = typeof codeValidations.$inferInsert
+export type Rule = typeof rules.$inferSelect
+export type NewRule = typeof rules.$inferInsert
+export type RuleVersion = typeof ruleVersions.$inferSelect
+export type NewRuleVersion = typeof ruleVersions.$inferInsert
+export type ValidationJob = typeof validationJobs.$inferSelect
+export type NewValidationJob = typeof validationJobs.$inferInsert
 export type AnalysisStep = typeof analysisSteps.$inferSelect
 export type NewAnalysisStep = typeof analysisSteps.$inferInsert
 
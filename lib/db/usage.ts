@@ -0,0 +1,68 @@
+import { desc, gte, sql, type AnyColumn } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { codeValidations } from '@/lib/db/schema'
+
+export interface UsageTotals {
+  validations: number
+  llmCalls: number
+  inputTokens: number
+  outputTokens: number
+  embeddingCalls: number
+  embeddingTokens: number
+  estimatedCostUsd: number
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string // YYYY-MM-DD
+}
+
+export interface UserUsage extends UsageTotals {
+  userId: string | null
+}
+
+export interface UsageStats {
+  days: number
+  totals: UsageTotals
+  byDay: DailyUsage[]
+  byUser: UserUsage[]
+}
+
+// 토큰 합계는 int 범위를 넘을 수 있으므로 double precision으로 반환
+function sumOf(column: AnyColumn) {
+  return sql<number>`cast(coalesce(sum(${column}), 0) as double precision)`
+}
+
+const usageColumns = {
+  validations: sql<number>`cast(count(*) as int)`,
+  llmCalls: sumOf(codeValidations.llmCalls),
+  inputTokens: sumOf(codeValidations.inputTokens),
+  outputTokens: sumOf(codeValidations.outputTokens),
+  embeddingCalls: sumOf(codeValidations.embeddingCalls),
+  embeddingTokens: sumOf(codeValidations.embeddingTokens),
+  estimatedCostUsd: sumOf(codeValidations.estimatedCostUsd),
+}
+
+/**
+ * 최근 N일 검증의 토큰 사용량과 예상 비용을 전체, 일별, 사용자별로 집계
+ */
+export async function getUsageStats(days: number): Promise<UsageStats> {
+  const since = gte(codeValidations.createdAt, new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+  const day = sql<string>`to_char(date_trunc('day', ${codeValidations.createdAt}), 'YYYY-MM-DD')`
+
+  const [[totals], byDay, byUser] = await Promise.all([
+    db.select(usageColumns).from(codeValidations).where(since),
+    db.select({ date: day, ...usageColumns })
+      .from(codeValidations)
+      .where(since)
+      .groupBy(day)
+      .orderBy(desc(day)),
+    db.select({ userId: codeValidations.userId, ...usageColumns })
+      .from(codeValidations)
+      .where(since)
+      .groupBy(codeValidations.userId)
+      .orderBy(desc(usageColumns.estimatedCostUsd), desc(usageColumns.validations))
+      .limit(50),
+  ])
+
+  return { days, totals, byDay, byUser }
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { createHash } from 'crypto'
+import { desc, eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { codeExamples, codeValidations, knowledgeDocuments, type CodeValidation } from '@/lib/db/schema'
+import { hashRuleContent } from '@/lib/db/rules'
+import { stableStringify } from '@/lib/fixtures/store'
+import { getLLMProvider } from '@/lib/llm'
+import { getRuleSandboxConfig } from '@/lib/analysis/sandbox'
+import type { ValidationCacheInfo } from '@/lib/schemas/validation'
+
+export interface ValidationCacheRequest {
+  pipeline: 'structured' | 'rag'
+  code: string
+  spec?: string
+  inputs: Record<string, unknown> // 코드·스펙 외에 결과에 영향을 주는 요청 값 (테스트, 규칙 ID, RAG 옵션 등)
+  promptVersion: string
+  useKnowledgeBase: boolean
+  force?: boolean
+}
+
+export interface ValidationCacheLookup {
+  info: ValidationCacheInfo
+  record: CodeValidation | null
+}
+
+// RAG를 사용하지 않는 검증의 지식 베이스 버전
+const NO_KNOWLEDGE_BASE = 'none'
+
+/**
+ * RAG 지식 베이스 버전 - 문서와 예제의 내용으로 계산하므로 추가·수정·삭제하면 바뀜
+ */
+export async function getKnowledgeBaseVersion(): Promise<string> {
+  const [[documents], [examples]] = await Promise.all([
+    db.select({
+      digest: sql<string>`md5(coalesce(string_agg(md5(concat_ws('|', ${knowledgeDocuments.id}, ${knowledgeDocuments.title}, ${knowledgeDocuments.section}, ${knowledgeDocuments.documentType}, ${knowledgeDocuments.content})), ',' order by ${knowledgeDocuments.id}), ''))`,
+    }).from(knowledgeDocuments),
+    db.select({
+      digest: sql<string>`md5(coalesce(string_agg(md5(concat_ws('|', ${codeExamples.id}, ${codeExamples.title}, ${codeExamples.category}, ${codeExamples.qualityScore}, ${codeExamples.description}, ${codeExamples.codeContent})), ',' order by ${codeExamples.id}), ''))`,
+    }).from(codeExamples),
+  ])
+
+  return createHash('sha256').update(`${documents.digest}:${examples.digest}`).digest('hex').slice(0, 16)
+}
+
+/**
+ * 정규화한 코드 해시, 모델 ID, 프롬프트 버전, 지식 베이스 버전, 테스트 샌드박스로 캐시 키를 만들고 저장된 검증 기록을 조회
+ * force면 조회하지 않고 새 결과를 저장할 키만 반환합니다.
+ */
+export async function lookupValidationCache(request: ValidationCacheRequest): Promise<ValidationCacheLookup> {
+  const modelId = getLLMProvider().modelId
+  const knowledgeBaseVersion = request.useKnowledgeBase ? await getKnowledgeBaseVersion() : NO_KNOWLEDGE_BASE
+  const key = createHash('sha256').update(stableStringify({
+    pipeline: request.pipeline,
+    codeHash: hashRuleContent(request.code, request.spec),
+    inputs: request.inputs,
+    modelId,
+    promptVersion: request.promptVersion,
+    knowledgeBaseVersion,
+    // 샌드박스 없이 테스트를 건너뛴 결과를 샌드박스를 켠 뒤에 재사용하지 않음
+    testSandbox: getRuleSandboxConfig().mode,
+  })).digest('hex')
+
+  const info: ValidationCacheInfo = { hit: false, key, modelId, promptVersion: request.promptVersion, knowledgeBaseVersion, cachedAt: null }
+  if (request.force) return { info, record: null }
+
+  const [record] = await db.select()
+    .from(codeValidations)
+    .where(eq(codeValidations.cacheKey, key))
+    .orderBy(desc(codeValidations.createdAt))
+    .limit(1)
+
+  return record
+    ? { info: { ...info, hit: true, cachedAt: record.createdAt.toISOString() }, record }
+    : { info, record: null }
+}
\ No newline at end of file
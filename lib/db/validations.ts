@@ -0,0 +1,272 @@
+import { and, count, desc, eq, gte, lte, sql, type SQL } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getLLMProvider } from '@/lib/llm'
+import { emptyUsage, getUsage } from '@/lib/usage/tracker'
+import {
+  codeExamples,
+  codeValidations,
+  knowledgeDocuments,
+  ruleVersions,
+  rules,
+  validationDocumentReferences,
+  validationExampleReferences,
+  type CodeValidation
+} from '@/lib/db/schema'
+import { resolveRuleKey, resolveRuleVersion } from '@/lib/db/rules'
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  normalizeFindings,
+  type ValidationCacheInfo,
+  type ValidationHistoryQuery,
+  type ValidationLanguage,
+  type ValidationResult
+} from '@/lib/schemas/validation'
+
+export interface SaveValidationOptions {
+  code: string
+  userId?: string
+  durationMs: number
+  ruleId?: string // 사용자가 지정한 규칙 ID (없으면 스펙의 RuleID)
+  spec?: string
+  cache?: ValidationCacheInfo
+  cacheable?: boolean // false면 캐시 키 없이 저장 (LLM 분석 대신 대체 결과를 사용한 경우)
+  language?: ValidationLanguage
+}
+
+/**
+ * 검증 결과를 code_validations 테이블에 저장
+ * 규칙 ID를 알 수 있으면 코드·스펙 내용에 해당하는 규칙 버전에 연결합니다.
+ * trackUsage 안에서 호출되면 그때까지 집계된 토큰 사용량과 예상 비용을 함께 저장합니다.
+ * cache가 주어지면 같은 키의 다음 검증이 이 기록을 재사용합니다.
+ */
+export async function saveValidationRecord(result: ValidationResult, options: SaveValidationOptions) {
+  const ruleKey = resolveRuleKey(options.ruleId, options.spec)
+  const ruleVersion = ruleKey
+    ? await resolveRuleVersion({ ruleKey, code: options.code, spec: options.spec, userId: options.userId })
+    : null
+
+  const [savedRecord] = await db.insert(codeValidations).values({
+    userId: options.userId || null,
+    codeContent: options.code,
+    syntaxIsValid: result.syntaxCheck.isValid,
+    syntaxErrors: result.syntaxCheck.errors,
+    ruleComplianceScore: result.ruleCompliance.score,
+    ruleFindings: result.ruleCompliance.findings,
+    ruleSuggestions: result.ruleCompliance.suggestions,
+    codeQualityScore: result.codeQuality.score,
+    codeQualityFeedback: result.codeQuality.feedback,
+    detailedAnalysis: result.detailedAnalysis,
+    testResults: result.testResults ?? null,
+    scoreConsistency: result.consistency ?? null,
+    rubricScores: result.rubric ?? null,
+    ruleVersionId: ruleVersion?.id ?? null,
+    totalDurationMs: options.durationMs,
+    modelUsed: getLLMProvider().modelId,
+    language: options.language ?? DEFAULT_VALIDATION_LANGUAGE,
+    ...(getUsage() ?? emptyUsage()),
+    cacheKey: options.cache && options.cacheable !== false ? options.cache.key : null,
+    promptVersion: options.cache?.promptVersion ?? null,
+    knowledgeBaseVersion: options.cache?.knowledgeBaseVersion ?? null,
+  }).returning()
+
+  return savedRecord
+}
+
+// 히스토리 목록 항목 (코드 전체 대신 앞부분만 포함)
+export interface ValidationHistoryItem {
+  id: string
+  userId: string | null
+  ruleId: string | null
+  ruleVersion: number | null
+  codePreview: string
+  syntaxIsValid: boolean
+  ruleComplianceScore: number
+  codeQualityScore: number
+  findingCount: number
+  testsPassed: number | null
+  testsTotal: number | null
+  modelUsed: string
+  totalDurationMs: number
+  createdAt: Date
+}
+
+export interface ValidationHistoryPage {
+  items: ValidationHistoryItem[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export interface ValidationRecordDetail {
+  id: string
+  userId: string | null
+  code: string
+  result: ValidationResult
+  rule: { ruleId: string, version: number, spec: string | null } | null
+  modelUsed: string
+  promptVersion: string | null
+  language: ValidationLanguage
+  totalDurationMs: number
+  createdAt: Date
+  documentReferences: Array<{
+    documentId: string
+    title: string
+    section: string | null
+    documentType: string
+    content: string // 앞부분만 포함
+    relevanceScore: number
+    rerankScore: number | null // 재순위화를 사용한 경우
+    usageContext: string | null
+  }>
+  exampleReferences: Array<{
+    exampleId: string
+    title: string
+    category: string | null
+    qualityScore: number
+    similarityScore: number
+    improvements: string[]
+  }>
+}
+
+const CODE_PREVIEW_LENGTH = 200
+const DOCUMENT_PREVIEW_LENGTH = 500
+
+/**
+ * 저장된 레코드를 ValidationResult로 복원 (레거시 string[] findings 포함)
+ */
+export function toValidationResult(record: CodeValidation): ValidationResult {
+  return {
+    syntaxCheck: {
+      isValid: record.syntaxIsValid,
+      errors: record.syntaxErrors ?? [],
+    },
+    ruleCompliance: {
+      score: record.ruleComplianceScore,
+      findings: normalizeFindings(record.ruleFindings),
+      suggestions: record.ruleSuggestions,
+    },
+    codeQuality: {
+      score: record.codeQualityScore,
+      feedback: record.codeQualityFeedback,
+    },
+    detailedAnalysis: record.detailedAnalysis,
+    testResults: record.testResults ?? undefined,
+    consistency: record.scoreConsistency ?? undefined,
+    rubric: record.rubricScores ?? undefined,
+  }
+}
+
+/**
+ * 조건에 맞는 검증 기록을 최신순으로 조회
+ */
+export async function listValidationRecords(query: ValidationHistoryQuery): Promise<ValidationHistoryPage> {
+  const conditions: SQL[] = []
+
+  if (query.userId) conditions.push(eq(codeValidations.userId, query.userId))
+  if (query.ruleId) conditions.push(eq(rules.ruleId, query.ruleId))
+  if (query.minScore !== undefined) conditions.push(gte(codeValidations.ruleComplianceScore, query.minScore))
+  if (query.maxScore !== undefined) conditions.push(lte(codeValidations.ruleComplianceScore, query.maxScore))
+  if (query.dateFrom) conditions.push(gte(codeValidations.createdAt, new Date(query.dateFrom)))
+  if (query.dateTo) conditions.push(lte(codeValidations.createdAt, new Date(query.dateTo)))
+
+  const where = conditions.length > 0 ? and(...conditions) : undefined
+
+  const [items, [{ total }]] = await Promise.all([
+    db.select({
+      id: codeValidations.id,
+      userId: codeValidations.userId,
+      ruleId: rules.ruleId,
+      ruleVersion: ruleVersions.version,
+      codePreview: sql<string>`left(${codeValidations.codeContent}, ${CODE_PREVIEW_LENGTH})`,
+      syntaxIsValid: codeValidations.syntaxIsValid,
+      ruleComplianceScore: codeValidations.ruleComplianceScore,
+      codeQualityScore: codeValidations.codeQualityScore,
+      findingCount: sql<number>`jsonb_array_length(${codeValidations.ruleFindings})`.mapWith(Number),
+      // 샌드박스가 없어 실행하지 않은 테스트(skipped)는 결과 없음으로 표시
+      testsPassed: sql<number | null>`case when ${codeValidations.testResults}->>'skipped' is null then (${codeValidations.testResults}->>'passed')::int end`,
+      testsTotal: sql<number | null>`case when ${codeValidations.testResults}->>'skipped' is null then (${codeValidations.testResults}->>'total')::int end`,
+      modelUsed: codeValidations.modelUsed,
+      totalDurationMs: codeValidations.totalDurationMs,
+      createdAt: codeValidations.createdAt,
+    })
+      .from(codeValidations)
+      .leftJoin(ruleVersions, eq(codeValidations.ruleVersionId, ruleVersions.id))
+      .leftJoin(rules, eq(ruleVersions.ruleId, rules.id))
+      .where(where)
+      .orderBy(desc(codeValidations.createdAt))
+      .limit(query.limit)
+      .offset(query.offset),
+    db.select({ total: count() })
+      .from(codeValidations)
+      .leftJoin(ruleVersions, eq(codeValidations.ruleVersionId, ruleVersions.id))
+      .leftJoin(rules, eq(ruleVersions.ruleId, rules.id))
+      .where(where),
+  ])
+
+  return { items, total, limit: query.limit, offset: query.offset }
+}
+
+/**
+ * 검증 기록 하나를 RAG 문서·예제 참조와 함께 조회
+ */
+export async function getValidationRecord(id: string): Promise<ValidationRecordDetail | null> {
+  if (!z.string().uuid().safeParse(id).success) return null
+
+  const [record] = await db.select().from(codeValidations).where(eq(codeValidations.id, id))
+  if (!record) return null
+
+  const [rule, documentReferences, exampleReferences] = await Promise.all([
+    record.ruleVersionId
+      ? db.select({ ruleId: rules.ruleId, version: ruleVersions.version, spec: ruleVersions.specContent })
+        .from(ruleVersions)
+        .innerJoin(rules, eq(ruleVersions.ruleId, rules.id))
+        .where(eq(ruleVersions.id, record.ruleVersionId))
+        .then(([row]) => row ?? null)
+      : null,
+    db.select({
+      documentId: validationDocumentReferences.documentId,
+      title: knowledgeDocuments.title,
+      section: knowledgeDocuments.section,
+      documentType: knowledgeDocuments.documentType,
+      content: sql<string>`left(${knowledgeDocuments.content}, ${DOCUMENT_PREVIEW_LENGTH})`,
+      relevanceScore: validationDocumentReferences.relevanceScore,
+      rerankScore: validationDocumentReferences.rerankScore,
+      usageContext: validationDocumentReferences.usageContext,
+    })
+      .from(validationDocumentReferences)
+      .innerJoin(knowledgeDocuments, eq(validationDocumentReferences.documentId, knowledgeDocuments.id))
+      .where(eq(validationDocumentReferences.validationId, id))
+      .orderBy(
+        sql`${validationDocumentReferences.rerankScore} desc nulls last`,
+        desc(validationDocumentReferences.relevanceScore)
+      ),
+    db.select({
+      exampleId: validationExampleReferences.exampleId,
+      title: codeExamples.title,
+      category: codeExamples.category,
+      qualityScore: codeExamples.qualityScore,
+      similarityScore: validationExampleReferences.similarityScore,
+      improvements: validationExampleReferences.improvements,
+    })
+      .from(validationExampleReferences)
+      .innerJoin(codeExamples, eq(validationExampleReferences.exampleId, codeExamples.id))
+      .where(eq(validationExampleReferences.validationId, id))
+      .orderBy(desc(validationExampleReferences.similarityScore)),
+  ])
+
+  return {
+    id: record.id,
+    userId: record.userId,
+    code: record.codeContent,
+    result: toValidationResult(record),
+    rule,
+    modelUsed: record.modelUsed,
+    promptVersion: record.promptVersion,
+    language: record.language,
+    totalDurationMs: record.totalDurationMs,
+    createdAt: record.createdAt,
+    documentReferences,
+    exampleReferences: exampleReferences.map(ref => ({ ...ref, improvements: ref.improvements ?? [] })),
+  }
+}
\ No newline at end of file
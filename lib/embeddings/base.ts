@@ -0,0 +1,111 @@
+import { FixtureMissError, getFixtureMode } from "@/lib/fixtures/store"
+import { withEmbeddingCache } from "./cache"
+import { EmbeddingDimensionError, assertEmbeddingLength, type EmbeddingConfig } from "./config"
+import type { EmbeddingInputType, EmbeddingProvider, EmbeddingProviderName } from "./types"
+
+/**
+ * provider 공통 처리 - 차원 확인, 배치 임베딩, 전처리
+ * 구현체는 embed()로 텍스트 하나의 임베딩만 만들면 됩니다.
+ */
+export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: EmbeddingProviderName
+
+  constructor(protected config: EmbeddingConfig) {}
+
+  get modelId() {
+    return this.config.modelId
+  }
+
+  get dimensions() {
+    return this.config.dimensions
+  }
+
+  protected abstract embed(text: string, inputType: EmbeddingInputType): Promise<number[]>
+
+  /**
+   * 단일 텍스트에 대한 임베딩 생성 - 설정한 차원과 다른 응답은 예외
+   * 같은 모델과 텍스트는 임베딩 캐시에서 반환하므로 캐시 적중은 사용량에 기록되지 않습니다.
+   * fixture 기록/재생 중에는 캐시를 건너뜁니다 - 캐시 적중이 기록에서 빠지면 재생 때 fixture가 누락됩니다.
+   */
+  async generateEmbedding(text: string, inputType: EmbeddingInputType = "document"): Promise<number[]> {
+    const embed = async () => {
+      const embedding = await this.embed(text, inputType)
+      assertEmbeddingLength(embedding, this.config)
+      return embedding
+    }
+    if (getFixtureMode() !== "off") return embed()
+
+    const request = { modelId: this.modelId, dimensions: this.dimensions, inputType, text }
+    return withEmbeddingCache(request, embed)
+  }
+
+  /**
+   * 여러 텍스트에 대한 임베딩 배치 생성
+   * 호출 간격은 Bedrock 호출 제한이 조절하므로 순차 처리만 합니다.
+   */
+  async generateBulkEmbeddings(texts: string[], inputType: EmbeddingInputType = "document"): Promise<number[][]> {
+    const embeddings: number[][] = []
+
+    for (let i = 0; i < texts.length; i++) {
+      try {
+        const embedding = await this.generateEmbedding(texts[i], inputType)
+        embeddings.push(embedding)
+      } catch (error) {
+        // 재생 모드의 fixture 누락과 차원 불일치는 빈 임베딩으로 숨기지 않음
+        if (error instanceof FixtureMissError || error instanceof EmbeddingDimensionError) throw error
+
+        console.error(`Failed to generate embedding for text ${i}:`, error)
+        // 실패한 경우 빈 배열로 대체 (나중에 재시도 가능)
+        embeddings.push([])
+      }
+    }
+
+    return embeddings
+  }
+
+  /**
+   * 텍스트 전처리 - 임베딩 품질 향상을 위한 정제
+   */
+  preprocessText(text: string): string {
+    return text
+      .replace(/\s+/g, ' ') // 여러 공백을 하나로
+      .replace(/\n+/g, '\n') // 여러 줄바꿈을 하나로
+      .trim()
+      .slice(0, this.config.maxInputLength) // 모델의 입력 길이 제한
+  }
+
+  /**
+   * 임베딩 모델 정보 반환
+   */
+  getModelInfo() {
+    return {
+      provider: this.name,
+      modelId: this.modelId,
+      dimensions: this.dimensions,
+      maxInputLength: this.config.maxInputLength,
+      normalized: true,
+    }
+  }
+
+  /**
+   * 코사인 유사도 계산 (벡터 검색 결과 검증용)
+   */
+  static cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+      throw new Error("Vectors must have the same length")
+    }
+
+    let dotProduct = 0
+    let normA = 0
+    let normB = 0
+
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i]
+      normA += a[i] * a[i]
+      normB += b[i] * b[i]
+    }
+
+    const magnitude = Math.sqrt(normA) * Math.sqrt(normB)
+    return magnitude === 0 ? 0 : dotProduct / magnitude
+  }
+}
\ No newline at end of file
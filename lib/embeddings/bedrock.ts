@@ -0,0 +1,54 @@
+import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime"
+import { getAwsCredentials } from "@/lib/bedrock/client"
+import { BEDROCK_MAX_RETRIES, callBedrock, isThrottlingError } from "@/lib/bedrock/limiter"
+import { BaseEmbeddingProvider } from "./base"
+
+/**
+ * Bedrock 임베딩 모델 공통 호출 (Titan, Cohere)
+ * 호출은 임베딩 limiter를 거치고, 오류는 원인을 알 수 있는 메시지로 바꿉니다.
+ */
+export abstract class BedrockEmbeddingProvider extends BaseEmbeddingProvider {
+  private client: BedrockRuntimeClient | null = null
+
+  // FIXTURE_MODE=replay에서는 Bedrock을 호출하지 않으므로 클라이언트를 첫 호출 시 생성
+  private getClient() {
+    this.client ??= new BedrockRuntimeClient({
+      region: process.env.AWS_REGION || "ap-northeast-2",
+      credentials: getAwsCredentials(),
+      // 재시도는 호출 제한을 거치도록 limiter에서 처리
+      maxAttempts: 1,
+    })
+    return this.client
+  }
+
+  protected async invokeModel<T>(payload: object): Promise<T> {
+    try {
+      const command = new InvokeModelCommand({
+        modelId: this.modelId,
+        contentType: "application/json",
+        accept: "application/json",
+        body: JSON.stringify(payload),
+      })
+
+      const client = this.getClient()
+      const response = await callBedrock("embedding", () => client.send(command))
+      return JSON.parse(new TextDecoder().decode(response.body)) as T
+    } catch (error) {
+      console.error("Error generating embedding:", error)
+
+      if (error instanceof Error) {
+        if (error.message.includes("ENOTFOUND")) {
+          throw new Error(`Invalid AWS region or network error: ${error.message}`)
+        }
+        if (error.message.includes("UnrecognizedClientException") || error.message.includes("security token")) {
+          throw new Error(`AWS authentication failed. Please check your credentials: ${error.message}`)
+        }
+        if (isThrottlingError(error)) {
+          throw new Error(`Rate limit exceeded after ${BEDROCK_MAX_RETRIES + 1} attempts. Please try again later: ${error.message}`)
+        }
+      }
+
+      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto'
+import { eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { embeddingCache } from '@/lib/db/schema'
+import type { EmbeddingInputType } from './types'
+
+/**
+ * 임베딩 캐시 - 프로세스 메모리 LRU와 Postgres embedding_cache 테이블
+ * 키는 모델 ID, 차원, 입력 종류와 공백을 정리한 텍스트의 해시입니다.
+ * 같은 텍스트를 동시에 요청하면 진행 중인 호출 하나를 함께 기다립니다 (buildEnhancedContext의 병렬 검색 등).
+ */
+
+export interface EmbeddingCacheRequest {
+  modelId: string
+  dimensions: number
+  inputType: EmbeddingInputType
+  text: string
+}
+
+export interface EmbeddingCacheStats {
+  memoryHits: number
+  databaseHits: number
+  misses: number
+  hitRate: number // (memoryHits + databaseHits) / 전체 조회 (조회가 없으면 0)
+  memoryEntries: number
+  memoryCapacity: number
+  databaseEnabled: boolean
+}
+
+const MEMORY_CAPACITY = Number(process.env.EMBEDDING_CACHE_SIZE || 1000)
+const DATABASE_ENABLED = (process.env.EMBEDDING_CACHE_DB || 'on').toLowerCase() !== 'off'
+
+interface CacheState {
+  memory: Map<string, number[]> // 삽입 순서를 최근 사용 순서로 사용
+  pending: Map<string, Promise<number[]>>
+  counters: { memoryHits: number, databaseHits: number, misses: number }
+  databaseWarned: boolean
+}
+
+// Next.js 개발 모드의 모듈 재로딩에도 캐시가 하나만 유지되도록 globalThis에 보관
+const globalForEmbeddingCache = globalThis as unknown as { embeddingCacheState?: CacheState }
+const state = globalForEmbeddingCache.embeddingCacheState ??= {
+  memory: new Map(),
+  pending: new Map(),
+  counters: { memoryHits: 0, databaseHits: 0, misses: 0 },
+  databaseWarned: false,
+}
+
+// 공백 차이만 있는 텍스트는 같은 임베딩을 사용
+export function normalizeEmbeddingText(text: string) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+export function embeddingCacheKey({ modelId, dimensions, inputType, text }: EmbeddingCacheRequest) {
+  return createHash('sha256')
+    .update(JSON.stringify([modelId, dimensions, inputType, normalizeEmbeddingText(text)]))
+    .digest('hex')
+}
+
+function readMemory(key: string) {
+  const embedding = state.memory.get(key)
+  if (embedding) {
+    state.memory.delete(key)
+    state.memory.set(key, embedding)
+  }
+  return embedding
+}
+
+function writeMemory(key: string, embedding: number[]) {
+  if (MEMORY_CAPACITY <= 0) return
+  state.memory.delete(key)
+  state.memory.set(key, embedding)
+  while (state.memory.size > MEMORY_CAPACITY) {
+    state.memory.delete(state.memory.keys().next().value!)
+  }
+}
+
+// 캐시 테이블 오류(마이그레이션 전 등)는 임베딩 생성을 막지 않음 - 한 번만 경고
+function warnDatabase(error: unknown) {
+  if (state.databaseWarned) return
+  state.databaseWarned = true
+  console.warn('Embedding cache table is unavailable; using the in-memory cache only:', error)
+}
+
+async function readDatabase(key: string, dimensions: number): Promise<number[] | null> {
+  if (!DATABASE_ENABLED) return null
+  try {
+    const [row] = await db
+      .select({ embedding: embeddingCache.embedding })
+      .from(embeddingCache)
+      .where(eq(embeddingCache.cacheKey, key))
+    return row && row.embedding.length === dimensions ? row.embedding : null
+  } catch (error) {
+    warnDatabase(error)
+    return null
+  }
+}
+
+async function writeDatabase(key: string, request: EmbeddingCacheRequest, embedding: number[]) {
+  if (!DATABASE_ENABLED) return
+  try {
+    await db.insert(embeddingCache)
+      .values({ cacheKey: key, modelId: request.modelId, inputType: request.inputType, embedding })
+      .onConflictDoNothing()
+  } catch (error) {
+    warnDatabase(error)
+  }
+}
+
+async function lookupOrEmbed(
+  key: string,
+  request: EmbeddingCacheRequest,
+  embed: () => Promise<number[]>
+): Promise<number[]> {
+  const stored = await readDatabase(key, request.dimensions)
+  if (stored) {
+    state.counters.databaseHits++
+    writeMemory(key, stored)
+    return stored
+  }
+
+  state.counters.misses++
+  const embedding = await embed()
+  writeMemory(key, embedding)
+  await writeDatabase(key, request, embedding)
+  return embedding
+}
+
+/**
+ * 캐시된 임베딩을 반환하고, 없으면 embed()로 만들어 메모리와 DB에 저장
+ * embed()가 실패하면 저장하지 않으므로 다음 호출에서 다시 시도합니다.
+ */
+export function withEmbeddingCache(request: EmbeddingCacheRequest, embed: () => Promise<number[]>): Promise<number[]> {
+  const key = embeddingCacheKey(request)
+
+  const cached = readMemory(key)
+  if (cached) {
+    state.counters.memoryHits++
+    return Promise.resolve(cached)
+  }
+
+  let pending = state.pending.get(key)
+  if (!pending) {
+    pending = lookupOrEmbed(key, request, embed).finally(() => state.pending.delete(key))
+    state.pending.set(key, pending)
+  } else {
+    // 진행 중인 같은 요청을 기다리는 호출은 메모리 적중으로 셈
+    state.counters.memoryHits++
+  }
+  return pending
+}
+
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const { memoryHits, databaseHits, misses } = state.counters
+  const lookups = memoryHits + databaseHits + misses
+  return {
+    memoryHits,
+    databaseHits,
+    misses,
+    hitRate: lookups === 0 ? 0 : Math.round((memoryHits + databaseHits) / lookups * 1000) / 1000,
+    memoryEntries: state.memory.size,
+    memoryCapacity: Math.max(0, MEMORY_CAPACITY),
+    databaseEnabled: DATABASE_ENABLED,
+  }
+}
+
+/**
+ * DB에 저장된 캐시 항목 수 (테이블이 없으면 null)
+ */
+export async function countStoredEmbeddings(): Promise<number | null> {
+  if (!DATABASE_ENABLED) return null
+  try {
+    const [{ count }] = await db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(embeddingCache)
+    return count
+  } catch (error) {
+    warnDatabase(error)
+    return null
+  }
+}
\ No newline at end of file
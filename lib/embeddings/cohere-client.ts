@@ -0,0 +1,43 @@
+import { withFixture } from "@/lib/fixtures/store"
+import { recordEmbeddingUsage } from "@/lib/usage/tracker"
+import { getEmbeddingConfig, type EmbeddingConfig } from "./config"
+import { BedrockEmbeddingProvider } from "./bedrock"
+import type { EmbeddingInputType } from "./types"
+
+const INPUT_TYPES: Record<EmbeddingInputType, string> = {
+  document: "search_document",
+  query: "search_query",
+}
+
+/**
+ * Cohere Embed v3 (Bedrock) - 저장할 문서와 검색어를 input_type으로 구분
+ */
+export class CohereEmbeddingClient extends BedrockEmbeddingProvider {
+  readonly name = "cohere" as const
+
+  constructor(config: EmbeddingConfig = getEmbeddingConfig()) {
+    super(config)
+  }
+
+  protected async embed(text: string, inputType: EmbeddingInputType): Promise<number[]> {
+    const payload = {
+      texts: [text],
+      input_type: INPUT_TYPES[inputType],
+      truncate: "END",
+    }
+
+    return withFixture('embeddings', { modelId: this.modelId, ...payload }, async () => {
+      const responseBody = await this.invokeModel<{ embeddings?: number[][] }>(payload)
+
+      const [embedding] = responseBody.embeddings ?? []
+      if (!Array.isArray(embedding)) {
+        throw new Error("Invalid embedding response format")
+      }
+
+      // 응답에 토큰 수가 없으므로 문자 수로 추정 (영문 기준 약 4자당 1토큰)
+      recordEmbeddingUsage(this.modelId, Math.ceil(text.length / 4))
+
+      return embedding
+    })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import type { EmbeddingProviderName } from './types'
+
+/**
+ * 임베딩 provider, 모델과 벡터 차원 설정
+ * DB의 embedding 컬럼(vector(N))도 이 차원으로 만들어지므로, 모델이나 차원을 바꾸면 pnpm run db:reembed로 컬럼과 HNSW 인덱스를 다시 만들어야 합니다.
+ */
+
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName
+  dimensions: number[] // 지원하는 출력 차원 (첫 번째가 기본값)
+  maxInputLength: number // 전처리 후 최대 입력 길이 (문자)
+  prefixes?: { document: string, query: string } // e5 계열처럼 입력 종류를 접두어로 구분하는 모델
+}
+
+export const EMBEDDING_MODELS: Record<string, EmbeddingModelInfo> = {
+  'amazon.titan-embed-text-v2:0': { provider: 'titan', dimensions: [1024, 512, 256], maxInputLength: 8000 },
+  'cohere.embed-multilingual-v3': { provider: 'cohere', dimensions: [1024], maxInputLength: 2048 },
+  'cohere.embed-english-v3': { provider: 'cohere', dimensions: [1024], maxInputLength: 2048 },
+  'Xenova/all-MiniLM-L6-v2': { provider: 'local', dimensions: [384], maxInputLength: 2000 },
+  'Xenova/multilingual-e5-small': {
+    provider: 'local',
+    dimensions: [384],
+    maxInputLength: 2000,
+    prefixes: { document: 'passage: ', query: 'query: ' },
+  },
+}
+
+// EMBEDDING_MODEL_ID가 없을 때 provider별 기본 모델
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, string> = {
+  titan: 'amazon.titan-embed-text-v2:0',
+  cohere: 'cohere.embed-multilingual-v3',
+  local: 'Xenova/all-MiniLM-L6-v2',
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName
+  modelId: string
+  dimensions: number
+  maxInputLength: number
+  prefixes?: { document: string, query: string }
+}
+
+export class EmbeddingDimensionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmbeddingDimensionError'
+  }
+}
+
+/**
+ * 환경 변수로 설정하는 임베딩 provider, 모델과 차원 (지원하지 않는 조합이면 예외)
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'titan').toLowerCase()
+  if (!(provider in DEFAULT_EMBEDDING_MODELS)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}". Expected one of: ${Object.keys(DEFAULT_EMBEDDING_MODELS).join(', ')}`)
+  }
+
+  const modelId = process.env.EMBEDDING_MODEL_ID || DEFAULT_EMBEDDING_MODELS[provider as EmbeddingProviderName]
+  const model = EMBEDDING_MODELS[modelId]
+  if (!model || model.provider !== provider) {
+    const models = Object.keys(EMBEDDING_MODELS).filter(id => EMBEDDING_MODELS[id].provider === provider)
+    throw new Error(`Unknown EMBEDDING_MODEL_ID "${modelId}" for ${provider}. Expected one of: ${models.join(', ')}`)
+  }
+
+  const dimensions = process.env.EMBEDDING_DIMENSIONS ? Number(process.env.EMBEDDING_DIMENSIONS) : model.dimensions[0]
+  if (!model.dimensions.includes(dimensions)) {
+    throw new Error(
+      `EMBEDDING_DIMENSIONS=${process.env.EMBEDDING_DIMENSIONS} is not supported by ${modelId}. Expected one of: ${model.dimensions.join(', ')}`
+    )
+  }
+
+  return { provider: model.provider, modelId, dimensions, maxInputLength: model.maxInputLength, prefixes: model.prefixes }
+}
+
+/**
+ * DB 스키마의 embedding 컬럼 차원 - 모듈 import 시점에 읽으므로 예외를 던지지 않음
+ * 설정이 잘못되었으면 기본 모델의 차원을 사용하고, 오류는 첫 임베딩 호출(getEmbeddingConfig)과 drizzle.config.ts에서 보고합니다.
+ */
+export function getSchemaEmbeddingDimensions(): number {
+  try {
+    return getEmbeddingConfig().dimensions
+  } catch {
+    return EMBEDDING_MODELS[DEFAULT_EMBEDDING_MODELS.titan].dimensions[0]
+  }
+}
+
+/**
+ * 생성한 임베딩이 설정한 차원과 다르면 예외 - 0으로 채우거나 잘라서 저장하지 않음
+ */
+export function assertEmbeddingLength(embedding: number[], config: EmbeddingConfig = getEmbeddingConfig()) {
+  if (embedding.length !== config.dimensions) {
+    throw new EmbeddingDimensionError(
+      `${config.modelId} returned a ${embedding.length}-dimension embedding, but EMBEDDING_DIMENSIONS is ${config.dimensions}`
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { getEmbeddingConfig, type EmbeddingConfig } from './config'
+import { CohereEmbeddingClient } from './cohere-client'
+import { LocalEmbeddingClient } from './local-client'
+import { TitanEmbeddingClient } from './titan-client'
+import type { EmbeddingProvider, EmbeddingProviderName } from './types'
+
+export type { EmbeddingInputType, EmbeddingProvider, EmbeddingProviderName } from './types'
+
+const PROVIDERS: Record<EmbeddingProviderName, (config: EmbeddingConfig) => EmbeddingProvider> = {
+  titan: config => new TitanEmbeddingClient(config),
+  cohere: config => new CohereEmbeddingClient(config),
+  local: config => new LocalEmbeddingClient(config),
+}
+
+let provider: EmbeddingProvider | null = null
+
+/**
+ * EMBEDDING_PROVIDER 설정에 따른 provider (기본값 titan)
+ * 자격 증명과 모델 파일은 provider를 만들 때가 아니라 첫 호출 시점에 확인합니다.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const config = getEmbeddingConfig()
+    provider = PROVIDERS[config.provider](config)
+  }
+  return provider
+}
+
+/**
+ * 테스트 등에서 provider를 직접 지정 (null이면 설정에서 다시 선택)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null) {
+  provider = next
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { FeatureExtractionPipeline } from "@huggingface/transformers"
+import { recordEmbeddingUsage } from "@/lib/usage/tracker"
+import { getEmbeddingConfig, type EmbeddingConfig } from "./config"
+import { BaseEmbeddingProvider } from "./base"
+import type { EmbeddingInputType } from "./types"
+
+// Next.js 개발 모드의 모듈 재로딩에도 모델을 한 번만 불러오도록 globalThis에 보관
+const globalForLocalEmbeddings = globalThis as unknown as {
+  localEmbeddingPipelines?: Map<string, Promise<FeatureExtractionPipeline>>
+}
+
+function loadPipeline(modelId: string): Promise<FeatureExtractionPipeline> {
+  const pipelines = globalForLocalEmbeddings.localEmbeddingPipelines ??= new Map()
+
+  let loading = pipelines.get(modelId)
+  if (!loading) {
+    loading = (async () => {
+      // 로컬 provider를 쓰지 않으면 ONNX 런타임을 불러오지 않음
+      const { env, pipeline } = await import("@huggingface/transformers")
+      if (process.env.EMBEDDING_LOCAL_CACHE_DIR) env.cacheDir = process.env.EMBEDDING_LOCAL_CACHE_DIR
+      return pipeline("feature-extraction", modelId, { dtype: "fp32" })
+    })()
+    // 다운로드 실패 등은 다음 호출에서 다시 시도
+    loading.catch(() => pipelines.delete(modelId))
+    pipelines.set(modelId, loading)
+  }
+  return loading
+}
+
+/**
+ * transformers.js(ONNX)로 CPU에서 실행하는 로컬 임베딩 - AWS 없이 지식 베이스를 구성할 수 있음
+ * 모델은 첫 호출 시 Hugging Face Hub에서 받아 EMBEDDING_LOCAL_CACHE_DIR(없으면 패키지 기본 위치)에 저장합니다.
+ */
+export class LocalEmbeddingClient extends BaseEmbeddingProvider {
+  readonly name = "local" as const
+
+  constructor(config: EmbeddingConfig = getEmbeddingConfig()) {
+    super(config)
+  }
+
+  protected async embed(text: string, inputType: EmbeddingInputType): Promise<number[]> {
+    const extractor = await loadPipeline(this.modelId)
+    const input = (this.config.prefixes?.[inputType] ?? "") + text
+
+    // 토큰 임베딩 평균 후 정규화 (sentence-transformers와 같은 방식)
+    const output = await extractor(input, { pooling: "mean", normalize: true })
+
+    // 로컬 실행이라 비용은 0이지만, provider와 관계없이 검증별 임베딩 호출 수가 같도록 기록
+    recordEmbeddingUsage(this.modelId, extractor.tokenizer.encode(input).length)
+    return Array.from(output.data as Float32Array)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { and, asc, count, eq, gt, isNull, ne, or, type SQL } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { codeExamples, knowledgeDocuments } from '@/lib/db/schema'
+import type { EmbeddingTable } from '@/lib/db/embeddings'
+import { getEmbeddingProvider, type EmbeddingProvider } from '@/lib/embeddings'
+import { EmbeddingDimensionError } from '@/lib/embeddings/config'
+import { withBedrockPriority } from '@/lib/bedrock/limiter'
+
+/**
+ * 저장된 문서와 예제를 현재 임베딩 설정으로 다시 임베딩
+ * 기본으로 임베딩이 없거나 다른 모델로 만든 행만 처리합니다.
+ * 행마다 바로 저장하므로 중간에 멈춰도 다시 실행하면 남은 행부터 이어서 처리합니다.
+ */
+
+const BATCH_SIZE = 50
+
+export interface ReembedOptions {
+  all?: boolean // false면 임베딩이 없거나 다른 모델로 만든 행만 처리
+  onProgress?: (table: EmbeddingTable, done: number, total: number) => void
+}
+
+export interface ReembedResult {
+  table: EmbeddingTable
+  embedded: number
+  failed: number
+}
+
+interface ReembedSource {
+  table: EmbeddingTable
+  count: (filter?: SQL) => Promise<number>
+  load: (filter: SQL | undefined, afterId: string | null) => Promise<Array<{ id: string, text: string }>>
+  save: (id: string, embedding: number[], embeddingModel: string) => Promise<void>
+  stale: (modelId: string) => SQL | undefined
+}
+
+const SOURCES: ReembedSource[] = [
+  {
+    table: 'knowledge_documents',
+    count: filter => db.select({ total: count() }).from(knowledgeDocuments).where(filter).then(([row]) => row.total),
+    load: (filter, afterId) => db
+      .select({ id: knowledgeDocuments.id, text: knowledgeDocuments.content })
+      .from(knowledgeDocuments)
+      .where(and(filter, afterId ? gt(knowledgeDocuments.id, afterId) : undefined))
+      .orderBy(asc(knowledgeDocuments.id))
+      .limit(BATCH_SIZE),
+    save: async (id, embedding, embeddingModel) => {
+      await db.update(knowledgeDocuments).set({ embedding, embeddingModel }).where(eq(knowledgeDocuments.id, id))
+    },
+    stale: modelId => or(
+      isNull(knowledgeDocuments.embedding),
+      isNull(knowledgeDocuments.embeddingModel),
+      ne(knowledgeDocuments.embeddingModel, modelId)
+    ),
+  },
+  {
+    table: 'code_examples',
+    count: filter => db.select({ total: count() }).from(codeExamples).where(filter).then(([row]) => row.total),
+    load: (filter, afterId) => db
+      .select({ id: codeExamples.id, text: codeExamples.codeContent })
+      .from(codeExamples)
+      .where(and(filter, afterId ? gt(codeExamples.id, afterId) : undefined))
+      .orderBy(asc(codeExamples.id))
+      .limit(BATCH_SIZE),
+    save: async (id, embedding, embeddingModel) => {
+      await db.update(codeExamples).set({ embedding, embeddingModel }).where(eq(codeExamples.id, id))
+    },
+    stale: modelId => or(
+      isNull(codeExamples.embedding),
+      isNull(codeExamples.embeddingModel),
+      ne(codeExamples.embeddingModel, modelId)
+    ),
+  },
+]
+
+async function reembedSource(source: ReembedSource, client: EmbeddingProvider, options: ReembedOptions): Promise<ReembedResult> {
+  const filter = options.all ? undefined : source.stale(client.modelId)
+  const total = await source.count(filter)
+  let embedded = 0
+  let failed = 0
+  let afterId: string | null = null
+  let rows: Array<{ id: string, text: string }>
+
+  // 남은 행만 처리할 때도 실패한 행을 다시 읽지 않도록 id 순으로 넘김
+  do {
+    rows = await source.load(filter, afterId)
+
+    for (const row of rows) {
+      try {
+        const embedding = await client.generateEmbedding(client.preprocessText(row.text))
+        await source.save(row.id, embedding, client.modelId)
+        embedded++
+      } catch (error) {
+        // 차원 불일치는 모든 행에서 같으므로 바로 중단
+        if (error instanceof EmbeddingDimensionError) throw error
+        console.error(`Failed to embed ${source.table} ${row.id}:`, error)
+        failed++
+      }
+      options.onProgress?.(source.table, embedded + failed, total)
+    }
+    afterId = rows.at(-1)?.id ?? afterId
+  } while (rows.length === BATCH_SIZE)
+
+  return { table: source.table, embedded, failed }
+}
+
+/**
+ * 두 테이블을 순서대로 다시 임베딩 - 임베딩 호출은 batch 우선순위로 실행
+ */
+export function reembedAll(options: ReembedOptions = {}): Promise<ReembedResult[]> {
+  const client = getEmbeddingProvider()
+  return withBedrockPriority('batch', async () => {
+    const results: ReembedResult[] = []
+    for (const source of SOURCES) {
+      results.push(await reembedSource(source, client, options))
+    }
+    return results
+  })
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type EmbeddingProviderName = "titan" | "cohere" | "local"
+
+// 저장할 문서와 검색어를 다르게 임베딩하는 모델(Cohere, e5)을 위한 구분
+export type EmbeddingInputType = "document" | "query"
+
+/**
+ * 지식 베이스 저장과 RAG 검색이 사용하는 임베딩 인터페이스
+ * 구현체는 생성 시 자격 증명이나 모델 파일을 확인하지 않고 첫 호출 시점에 확인합니다.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName
+  readonly modelId: string // 벡터와 함께 저장되는 모델 ID
+  readonly dimensions: number
+  // 설정한 차원과 다른 응답은 EmbeddingDimensionError
+  generateEmbedding(text: string, inputType?: EmbeddingInputType): Promise<number[]>
+  // 실패한 텍스트는 빈 배열 (나중에 다시 임베딩)
+  generateBulkEmbeddings(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>
+  // 임베딩 품질을 위한 공백 정리와 모델 입력 길이 제한
+  preprocessText(text: string): string
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * 외부 모델 호출 기록/재생 모드 (FIXTURE_MODE)
+ * - record: 실제로 호출하고 요청 해시 → 응답을 FIXTURES_DIR에 저장
+ * - replay: 저장된 응답만 사용하고, 없으면 FixtureMissError
+ */
+export type FixtureMode = 'off' | 'record' | 'replay'
+
+export type FixtureKind = 'llm' | 'embeddings'
+
+export interface StoredFixture<T> {
+  request: unknown
+  response: T
+  recordedAt: string
+}
+
+export class FixtureMissError extends Error {
+  constructor(kind: FixtureKind, readonly fixturePath: string) {
+    super(`No recorded ${kind} fixture for this request (${fixturePath}). Run with FIXTURE_MODE=record to record it.`)
+    this.name = 'FixtureMissError'
+  }
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.FIXTURE_MODE || 'off').toLowerCase()
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown FIXTURE_MODE "${mode}". Expected one of: off, record, replay`)
+  }
+  return mode
+}
+
+// 객체 키 순서와 무관하게 같은 요청이면 같은 문자열
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function hashFixtureRequest(request: unknown) {
+  return createHash('sha256').update(stableStringify(request)).digest('hex')
+}
+
+export function getFixturePath(kind: FixtureKind, request: unknown) {
+  return path.resolve(process.env.FIXTURES_DIR || 'fixtures', kind, `${hashFixtureRequest(request)}.json`)
+}
+
+/**
+ * 저장된 응답 조회 (없으면 null)
+ */
+export async function readFixture<T>(kind: FixtureKind, request: unknown): Promise<T | null> {
+  try {
+    const fixture: StoredFixture<T> = JSON.parse(await readFile(getFixturePath(kind, request), 'utf-8'))
+    return fixture.response
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export async function replayFixture<T>(kind: FixtureKind, request: unknown): Promise<T> {
+  const response = await readFixture<T>(kind, request)
+  if (response === null) throw new FixtureMissError(kind, getFixturePath(kind, request))
+  return response
+}
+
+export async function writeFixture<T>(kind: FixtureKind, request: unknown, response: T) {
+  const fixturePath = getFixturePath(kind, request)
+  const fixture: StoredFixture<T> = { request, response, recordedAt: new Date().toISOString() }
+
+  await mkdir(path.dirname(fixturePath), { recursive: true })
+  await writeFile(fixturePath, JSON.stringify(fixture, null, 2) + '\n')
+}
+
+/**
+ * 현재 모드에 따라 응답을 재생하거나, 실제로 호출하고 필요하면 기록
+ */
+export async function withFixture<T>(kind: FixtureKind, request: unknown, produce: () => Promise<T>): Promise<T> {
+  const mode = getFixtureMode()
+  if (mode === 'replay') return replayFixture<T>(kind, request)
+
+  const response = await produce()
+  if (mode === 'record') await writeFixture(kind, request, response)
+  return response
+}
\ No newline at end of file
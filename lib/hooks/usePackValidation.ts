@@ -0,0 +1,132 @@
+import { useState, useCallback, useRef } from 'react'
+import { type PackValidationResult, type ValidationLanguage } from '@/lib/schemas/validation'
+
+export interface PackValidationState {
+  isValidating: boolean
+  message: string | null
+  completed: number
+  total: number
+  result: PackValidationResult | null
+  duration: number | null
+  error: string | null
+}
+
+export interface PackValidationOptions {
+  userId?: string
+  language?: ValidationLanguage
+}
+
+const INITIAL_STATE: PackValidationState = {
+  isValidating: false,
+  message: null,
+  completed: 0,
+  total: 0,
+  result: null,
+  duration: null,
+  error: null,
+}
+
+export function usePackValidation() {
+  const [state, setState] = useState<PackValidationState>(INITIAL_STATE)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const startValidation = useCallback(async (pack: File, options: PackValidationOptions = {}) => {
+    const { userId, language } = options
+
+    setState({ ...INITIAL_STATE, isValidating: true })
+    abortControllerRef.current = new AbortController()
+
+    try {
+      const formData = new FormData()
+      formData.append('pack', pack)
+      if (userId) formData.append('userId', userId)
+      if (language) formData.append('language', language)
+
+      const response = await fetch('/api/validate-pack', {
+        method: 'POST',
+        body: formData,
+        signal: abortControllerRef.current.signal,
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`)
+      }
+
+      if (!response.body) {
+        throw new Error('No response body')
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      // 팩 결과는 여러 청크로 나뉘어 도착할 수 있으므로 이벤트 경계까지 버퍼링
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const events = buffer.split('\n\n')
+        buffer = events.pop() ?? ''
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue
+
+          try {
+            const data = JSON.parse(event.slice(6))
+
+            if (data.type === 'progress') {
+              setState(prev => ({
+                ...prev,
+                message: data.message,
+                completed: data.completed,
+                total: data.total,
+              }))
+            } else if (data.type === 'complete') {
+              setState(prev => ({
+                ...prev,
+                isValidating: false,
+                message: null,
+                result: data.result,
+                duration: data.duration,
+              }))
+            } else if (data.type === 'error') {
+              setState(prev => ({
+                ...prev,
+                isValidating: false,
+                error: data.error,
+              }))
+            }
+          } catch {
+            console.warn('Failed to parse SSE data:', event.slice(0, 200))
+          }
+        }
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isValidating: false,
+        error: error instanceof Error && error.name === 'AbortError'
+          ? 'Validation was cancelled'
+          : error instanceof Error ? error.message : 'An error occurred',
+      }))
+    }
+  }, [])
+
+  const cancelValidation = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const reset = useCallback(() => {
+    setState(INITIAL_STATE)
+  }, [])
+
+  return {
+    ...state,
+    startValidation,
+    cancelValidation,
+    reset,
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef } from 'react'
+import { DEFAULT_VALIDATION_LANGUAGE, type ValidationLanguage } from '@/lib/schemas/validation'
 
 export interface ValidationStep {
   step: 'syntax' | 'rules' | 'quality' | 'analysis' | 'complete' | 'error'
@@ -27,7 +28,11 @@ export function useStreamingValidation() {
 
   const abortControllerRef = useRef<AbortController | null>(null)
 
-  const startValidation = useCallback(async (code: string, action: 'validate' | 'improve' = 'validate') => {
+  const startValidation = useCallback(async (
+    code: string,
+    action: 'validate' | 'improve' = 'validate',
+    language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+  ) => {
     // Reset state
     setState({
       isStreaming: true,
@@ -47,7 +52,7 @@ export function useStreamingValidation() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ code, action }),
+        body: JSON.stringify({ code, action, language }),
         signal: abortControllerRef.current.signal,
       })
 
@@ -92,7 +97,7 @@ export function useStreamingValidation() {
               // If fallback is needed, switch to regular API
               if (data.step === 'error' && data.fallback) {
                 console.log('Switching to fallback mode...')
-                await handleFallback(code, action)
+                await handleFallback(code, action, language)
                 return
               }
 
@@ -122,7 +127,7 @@ export function useStreamingValidation() {
     }
   }, [])
 
-  const handleFallback = useCallback(async (code: string, action: 'validate' | 'improve') => {
+  const handleFallback = useCallback(async (code: string, action: 'validate' | 'improve', language: ValidationLanguage) => {
     try {
       setState(prev => ({
         ...prev,
@@ -136,7 +141,7 @@ export function useStreamingValidation() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ code, action }),
+        body: JSON.stringify({ code, action, language }),
       })
 
       if (!response.ok) {
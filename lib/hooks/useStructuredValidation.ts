@@ -1,5 +1,11 @@
 import { useState, useCallback, useRef } from 'react'
-import { type ValidationResult } from '@/lib/schemas/validation'
+import {
+  type RuleTestCase,
+  type StreamingResponse,
+  type ValidationCacheInfo,
+  type ValidationLanguage,
+  type ValidationResult
+} from '@/lib/schemas/validation'
 
 export interface ProgressStep {
   key: string
@@ -7,134 +13,213 @@ export interface ProgressStep {
   timestamp: number
 }
 
+export interface StructuredValidationOptions {
+  userId?: string
+  tests?: RuleTestCase[]
+  spec?: string // Panther 규칙 YAML 스펙
+  ruleId?: string // 버전 이력을 묶을 규칙 ID
+  force?: boolean // 캐시된 결과를 무시하고 다시 검증
+  language?: ValidationLanguage // 결과 언어 (기본값: ko)
+  samples?: number // 자기 일관성 검증 샘플 수 (기본값: 1)
+}
+
 export interface StructuredValidationState {
   isValidating: boolean
+  jobId: string | null
   currentStep: string | null
   progressSteps: ProgressStep[]
   result: ValidationResult | null
   recordId: string | null
   duration: number | null
+  cache: ValidationCacheInfo | null
   error: string | null
 }
 
+const INITIAL_STATE: StructuredValidationState = {
+  isValidating: false,
+  jobId: null,
+  currentStep: null,
+  progressSteps: [],
+  result: null,
+  recordId: null,
+  duration: null,
+  cache: null,
+  error: null,
+}
+
+// 이벤트 스트림이 끊기면 마지막 이벤트 ID부터 다시 연결
+const MAX_RECONNECT_ATTEMPTS = 5
+const RECONNECT_DELAY_MS = 1000
+
 export function useStructuredValidation() {
-  const [state, setState] = useState<StructuredValidationState>({
-    isValidating: false,
-    currentStep: null,
-    progressSteps: [],
-    result: null,
-    recordId: null,
-    duration: null,
-    error: null,
-  })
+  const [state, setState] = useState<StructuredValidationState>(INITIAL_STATE)
 
   const abortControllerRef = useRef<AbortController | null>(null)
 
+  const handleEvent = useCallback((data: StreamingResponse) => {
+    if (data.type === 'progress') {
+      setState(prev => ({
+        ...prev,
+        currentStep: data.step,
+        progressSteps: [
+          ...prev.progressSteps,
+          {
+            key: data.step,
+            message: data.message,
+            timestamp: Date.now(),
+          },
+        ],
+      }))
+    } else if (data.type === 'complete') {
+      setState(prev => ({
+        ...prev,
+        isValidating: false,
+        currentStep: 'complete',
+        result: data.result,
+        recordId: data.recordId,
+        duration: data.duration ?? null,
+        cache: data.cache ?? null,
+      }))
+    } else if (data.type === 'error') {
+      setState(prev => ({
+        ...prev,
+        isValidating: false,
+        currentStep: data.step ?? null,
+        error: data.error,
+      }))
+    }
+  }, [])
+
+  const handleError = useCallback((error: unknown) => {
+    if (error instanceof Error && error.name === 'AbortError') {
+      // 작업은 서버에서 계속 실행되며 진행 상황 수신만 중단됨
+      setState(prev => ({
+        ...prev,
+        isValidating: false,
+        error: 'Validation was cancelled',
+      }))
+    } else {
+      setState(prev => ({
+        ...prev,
+        isValidating: false,
+        error: error instanceof Error ? error.message : 'An error occurred',
+      }))
+    }
+  }, [])
+
+  const streamJobEvents = useCallback(async (jobId: string, signal: AbortSignal) => {
+    let lastEventId = 0
+    let attempts = 0
+
+    while (true) {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/events`, {
+          headers: lastEventId > 0 ? { 'Last-Event-ID': String(lastEventId) } : undefined,
+          signal,
+        })
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null)
+          throw new Error(body?.error || `HTTP error! status: ${response.status}`)
+        }
+
+        if (!response.body) {
+          throw new Error('No response body')
+        }
+
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+
+        while (true) {
+          const { done, value } = await reader.read()
+
+          if (done) break
+
+          buffer += decoder.decode(value, { stream: true })
+          const events = buffer.split('\n\n')
+          buffer = events.pop() ?? ''
+
+          for (const event of events) {
+            const lines = event.split('\n')
+            const idLine = lines.find(line => line.startsWith('id: '))
+            const dataLine = lines.find(line => line.startsWith('data: '))
+            if (!dataLine) continue
+
+            try {
+              const data: StreamingResponse = JSON.parse(dataLine.slice(6))
+              if (idLine) lastEventId = Number(idLine.slice(4))
+              attempts = 0
+              handleEvent(data)
+
+              if (data.type === 'complete' || data.type === 'error') return
+            } catch {
+              console.warn('Failed to parse SSE data:', dataLine.slice(0, 200))
+            }
+          }
+        }
+      } catch (error) {
+        if (signal.aborted || attempts >= MAX_RECONNECT_ATTEMPTS) throw error
+      }
+
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+        throw new Error('검증 작업의 진행 상황을 받지 못했습니다')
+      }
+
+      attempts++
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+    }
+  }, [handleEvent])
+
   const startValidation = useCallback(async (
     code: string,
     action: 'validate' | 'improve' = 'validate',
-    userId?: string
+    options: StructuredValidationOptions = {}
   ) => {
+    const { userId, tests = [], spec, ruleId, force, language, samples } = options
+
     // Reset state
-    setState({
-      isValidating: true,
-      currentStep: null,
-      progressSteps: [],
-      result: null,
-      recordId: null,
-      duration: null,
-      error: null,
-    })
+    setState({ ...INITIAL_STATE, isValidating: true })
 
     // Create abort controller for cancellation
     abortControllerRef.current = new AbortController()
 
     try {
+      // 검증은 서버 작업으로 실행되고 응답으로 작업 ID만 받음
       const response = await fetch('/api/validate-structured', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ code, action, userId }),
+        body: JSON.stringify({ code, action, userId, tests, spec, ruleId, force, language, samples }),
         signal: abortControllerRef.current.signal,
       })
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      if (!response.body) {
-        throw new Error('No response body')
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`)
       }
 
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
+      const { jobId } = await response.json()
+      setState(prev => ({ ...prev, jobId }))
 
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) break
+      await streamJobEvents(jobId, abortControllerRef.current.signal)
+    } catch (error) {
+      handleError(error)
+    }
+  }, [streamJobEvents, handleError])
 
-        const chunk = decoder.decode(value, { stream: true })
-        const lines = chunk.split('\n')
+  // 새로고침 등으로 끊긴 작업의 진행 상황에 다시 연결
+  const attachToJob = useCallback(async (jobId: string) => {
+    setState({ ...INITIAL_STATE, isValidating: true, jobId })
+    abortControllerRef.current = new AbortController()
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6))
-
-              if (data.type === 'progress') {
-                setState(prev => ({
-                  ...prev,
-                  currentStep: data.step,
-                  progressSteps: [
-                    ...prev.progressSteps,
-                    {
-                      key: data.step,
-                      message: data.message,
-                      timestamp: Date.now(),
-                    },
-                  ],
-                }))
-              } else if (data.type === 'complete') {
-                setState(prev => ({
-                  ...prev,
-                  isValidating: false,
-                  currentStep: 'complete',
-                  result: data.result,
-                  recordId: data.recordId,
-                  duration: data.duration,
-                }))
-              } else if (data.type === 'error') {
-                setState(prev => ({
-                  ...prev,
-                  isValidating: false,
-                  currentStep: data.step,
-                  error: data.error,
-                }))
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse SSE data:', line)
-            }
-          }
-        }
-      }
+    try {
+      await streamJobEvents(jobId, abortControllerRef.current.signal)
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        setState(prev => ({
-          ...prev,
-          isValidating: false,
-          error: 'Validation was cancelled',
-        }))
-      } else {
-        setState(prev => ({
-          ...prev,
-          isValidating: false,
-          error: error instanceof Error ? error.message : 'An error occurred',
-        }))
-      }
+      handleError(error)
     }
-  }, [])
+  }, [streamJobEvents, handleError])
 
   const cancelValidation = useCallback(() => {
     if (abortControllerRef.current) {
@@ -142,21 +227,26 @@ export function useStructuredValidation() {
     }
   }, [])
 
-  const reset = useCallback(() => {
+  // 저장된 검증 기록을 완료된 결과로 표시
+  const loadRecord = useCallback((record: { result: ValidationResult, recordId: string, duration: number }) => {
     setState({
-      isValidating: false,
-      currentStep: null,
-      progressSteps: [],
-      result: null,
-      recordId: null,
-      duration: null,
-      error: null,
+      ...INITIAL_STATE,
+      currentStep: 'complete',
+      result: record.result,
+      recordId: record.recordId,
+      duration: record.duration,
     })
   }, [])
 
+  const reset = useCallback(() => {
+    setState(INITIAL_STATE)
+  }, [])
+
   return {
     ...state,
     startValidation,
+    attachToJob,
+    loadRecord,
     cancelValidation,
     reset,
   }
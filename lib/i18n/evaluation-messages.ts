@@ -0,0 +1,393 @@
+import {
+  DEFAULT_VALIDATION_LANGUAGE,
+  type FindingSeverity,
+  type FindingSource,
+  type RubricCriterion,
+  type ValidationLanguage
+} from '@/lib/schemas/validation'
+
+/**
+ * 결과 패널 UI 문자열 (검증 요청의 language에 맞춰 표시)
+ * 서버 모듈을 import하지 않으므로 클라이언트 컴포넌트에서 사용할 수 있습니다.
+ */
+export interface EvaluationMessages {
+  locale: string // 날짜·시간 표시용
+  common: {
+    errorTitle: string
+    markdownError: string
+    inProgress: string
+    done: string
+    syntaxTitle: string
+    syntaxValid: string
+    syntaxInvalid: string
+    noSyntaxErrors: string
+    syntaxErrorsFound: string
+    errorList: string
+    complianceTitle: string
+    score: string
+    findings: string
+    suggestions: string
+    testsTitle: string
+    qualityTitle: string
+    qualityLoading: string
+    analysisTitle: string
+    analysisLoading: string
+    completeTitle: string
+    summarySyntax: string
+    summaryCompliance: string
+    summaryQuality: string
+    scoreRange: (min: number, max: number) => string
+    scoreStddev: (stddev: number) => string
+    sampleCount: (samples: number, requested: number) => string
+  }
+  structured: {
+    empty: string
+    progressTitle: string
+    savedToDb: string
+    analyzing: string
+    processing: string
+    cachedBadge: string
+    cachedDescription: (cachedAt: string | null, promptVersion: string) => string
+    revalidate: string
+  }
+  streaming: {
+    empty: string
+    progressTitle: string
+    fallbackMode: string
+    stepTitles: Record<'syntax' | 'rules' | 'quality' | 'analysis' | 'complete', string>
+    stepDescriptions: Record<'syntax' | 'rules' | 'quality' | 'analysis' | 'complete', string>
+    completeDescription: string
+  }
+  progress: {
+    start: string
+    cache: string
+    syntax: string
+    syntaxStopped: string
+    lint: string
+    tests: (count: number) => string
+    rag: string
+    documents: (count: number) => string
+    examples: (count: number) => string
+    compliance: (score: number) => string
+    rules: string
+    quality: string
+    analysis: (samples: number) => string
+    ragAnalysis: (samples: number) => string
+    pack: (count: number) => string
+    ruleValidated: (path: string) => string
+    ruleFailed: (path: string) => string
+  }
+  findings: {
+    severity: Record<FindingSeverity, string>
+    source: Record<FindingSource, string>
+    lineRange: (startLine: number, endLine?: number) => string
+    jumpToLine: string
+    agreement: (count: number, total: number) => string
+    agreementTitle: (count: number, total: number) => string
+  }
+  rubric: {
+    title: string
+    criteria: Record<RubricCriterion, string>
+    weight: (weight: number) => string
+    fromTests: string
+  }
+  tests: {
+    passedCount: (passed: number, total: number) => string
+    passed: string
+    failed: string
+    expectedActual: (expected: string, actual: string) => string
+    errorLine: (line: number) => string
+  }
+  legacy: {
+    title: string
+    analyzing: string
+    empty: string
+    rules: string
+    quality: string
+    overview: string
+    syntax: string
+    analysis: string
+    syntaxCheck: string
+    noSyntaxErrors: string
+    syntaxErrorCount: (count: number) => string
+    qualityFeedback: string
+    syntaxPassed: string
+    rulesFindings: string
+    noIssues: string
+    suggestions: string
+    noSuggestions: string
+  }
+}
+
+export const EVALUATION_MESSAGES: Record<ValidationLanguage, EvaluationMessages> = {
+  ko: {
+    locale: 'ko-KR',
+    common: {
+      errorTitle: '오류 발생',
+      markdownError: '마크다운 렌더링 중 오류가 발생했습니다.',
+      inProgress: '진행 중',
+      done: '완료',
+      syntaxTitle: '구문 검사 결과',
+      syntaxValid: '유효',
+      syntaxInvalid: '오류',
+      noSyntaxErrors: '구문 오류가 없습니다',
+      syntaxErrorsFound: '구문 오류 발견',
+      errorList: '오류 목록:',
+      complianceTitle: '규칙 준수성 분석',
+      score: '점수:',
+      findings: '발견된 문제:',
+      suggestions: '개선 제안:',
+      testsTitle: '단위 테스트 결과',
+      qualityTitle: '코드 품질 평가',
+      qualityLoading: '품질 분석 데이터를 불러오는 중입니다...',
+      analysisTitle: '상세 분석',
+      analysisLoading: '분석 데이터를 불러오는 중입니다...',
+      completeTitle: '분석 완료',
+      summarySyntax: '구문 검사',
+      summaryCompliance: '규칙 준수',
+      summaryQuality: '코드 품질',
+      scoreRange: (min, max) => `범위 ${min}–${max}`,
+      scoreStddev: stddev => `표준편차 ${stddev}`,
+      sampleCount: (samples, requested) =>
+        samples === requested
+          ? `샘플 ${samples}개의 중앙값`
+          : `샘플 ${samples}개의 중앙값 (요청 ${requested}개 중 ${requested - samples}개는 형식 오류로 제외)`,
+    },
+    structured: {
+      empty: '구조화된 검증을 시작하여 결과를 DB에 저장하세요',
+      progressTitle: '구조화된 검증 진행상황',
+      savedToDb: 'DB 저장',
+      analyzing: '상세 분석을 수행하고 있습니다...',
+      processing: '처리 중...',
+      cachedBadge: '캐시된 결과',
+      cachedDescription: (cachedAt, promptVersion) =>
+        `${cachedAt ? `${cachedAt}에 ` : ''}같은 코드와 프롬프트 버전(${promptVersion})으로 저장된 결과입니다`,
+      revalidate: '다시 검증',
+    },
+    streaming: {
+      empty: 'Streaming 모드로 코드 분석을 시작하세요',
+      progressTitle: '분석 진행상황',
+      fallbackMode: '일반 모드',
+      stepTitles: {
+        syntax: '구문 검사',
+        rules: '규칙 준수성',
+        quality: '코드 품질',
+        analysis: '상세 분석',
+        complete: '완료',
+      },
+      stepDescriptions: {
+        syntax: 'Python 구문 오류를 검사하고 있습니다...',
+        rules: 'Panther 탐지 규칙 준수성을 분석하고 있습니다...',
+        quality: '코드 품질과 모범 사례를 평가하고 있습니다...',
+        analysis: '종합적인 코드 분석을 수행하고 있습니다...',
+        complete: '모든 분석이 완료되었습니다.',
+      },
+      completeDescription: '모든 분석이 완료되었습니다. 위의 결과를 참고하여 코드를 개선해보세요.',
+    },
+    progress: {
+      start: '분석을 시작합니다...',
+      cache: '같은 코드로 저장된 검증 결과를 사용합니다...',
+      syntax: '구문 검사를 수행합니다...',
+      syntaxStopped: '구문 오류로 분석을 종료했습니다.',
+      lint: '정적 분석을 수행합니다...',
+      tests: count => `단위 테스트 ${count}개를 실행합니다...`,
+      rag: 'RAG 컨텍스트를 구성하고 있습니다...',
+      documents: count => `Panther 규칙 문서 ${count}개를 찾았습니다...`,
+      examples: count => `유사 코드 예제 ${count}개를 찾았습니다...`,
+      compliance: score => `규칙 준수성 검증 중... (예상 점수: ${score}점)`,
+      rules: 'Panther 규칙 준수성을 분석합니다...',
+      quality: '코드 품질을 평가합니다...',
+      analysis: samples => samples > 1 ? `상세 분석을 ${samples}번 수행해 결과를 합칩니다...` : '상세 분석을 수행합니다...',
+      ragAnalysis: samples => samples > 1 ? `종합 분석을 ${samples}번 수행해 결과를 합칩니다...` : '종합 분석을 수행합니다...',
+      pack: count => `규칙 ${count}개를 검증합니다...`,
+      ruleValidated: path => `${path} 검증 완료`,
+      ruleFailed: path => `${path} 검증 실패`,
+    },
+    findings: {
+      severity: { error: '오류', warning: '경고', info: '정보' },
+      source: { linter: '정적 분석', llm: 'AI 분석', test: '테스트', spec: 'YAML 스펙' },
+      lineRange: (startLine, endLine) =>
+        endLine && endLine !== startLine ? `${startLine}-${endLine}행` : `${startLine}행`,
+      jumpToLine: '편집기에서 해당 줄로 이동',
+      agreement: (count, total) => `${count}/${total} 샘플`,
+      agreementTitle: (count, total) => `샘플 ${total}개 중 ${count}개가 보고한 항목`,
+    },
+    rubric: {
+      title: '항목별 점수',
+      criteria: {
+        requiredFunctions: '필수 함수 구조',
+        safeEventAccess: '안전한 이벤트 접근',
+        alertQuality: '알림 제목·중복 제거',
+        performance: '성능',
+        tests: '단위 테스트',
+        errorHandling: '오류 처리',
+        documentation: '문서화',
+      },
+      weight: weight => `가중치 ${weight}%`,
+      fromTests: '테스트 통과율',
+    },
+    tests: {
+      passedCount: (passed, total) => `${passed}/${total} 통과`,
+      passed: '통과',
+      failed: '실패',
+      expectedActual: (expected, actual) => `기대값 ${expected} / 결과 ${actual}`,
+      errorLine: line => `${line}행: `,
+    },
+    legacy: {
+      title: '평가 결과',
+      analyzing: '코드를 분석하고 있습니다...',
+      empty: 'Python 코드를 입력하고 "검증"을 클릭하면 평가 결과가 표시됩니다.',
+      rules: '규칙',
+      quality: '품질',
+      overview: '개요',
+      syntax: '구문',
+      analysis: '분석',
+      syntaxCheck: '구문 검사',
+      noSyntaxErrors: '✓ 구문 오류가 없습니다',
+      syntaxErrorCount: count => `✗ 구문 오류 ${count}개 발견`,
+      qualityFeedback: '코드 품질 피드백',
+      syntaxPassed: '모든 구문 검사를 통과했습니다',
+      rulesFindings: 'Panther 규칙 발견 항목',
+      noIssues: '발견된 문제가 없습니다',
+      suggestions: '개선 제안',
+      noSuggestions: '모범 사례를 따르고 있습니다',
+    },
+  },
+  en: {
+    locale: 'en-US',
+    common: {
+      errorTitle: 'Error',
+      markdownError: 'Failed to render the markdown.',
+      inProgress: 'In progress',
+      done: 'Done',
+      syntaxTitle: 'Syntax check',
+      syntaxValid: 'Valid',
+      syntaxInvalid: 'Error',
+      noSyntaxErrors: 'No syntax errors',
+      syntaxErrorsFound: 'Syntax errors found',
+      errorList: 'Errors:',
+      complianceTitle: 'Rule compliance',
+      score: 'Score:',
+      findings: 'Findings:',
+      suggestions: 'Suggestions:',
+      testsTitle: 'Unit test results',
+      qualityTitle: 'Code quality',
+      qualityLoading: 'Loading the quality analysis...',
+      analysisTitle: 'Detailed analysis',
+      analysisLoading: 'Loading the analysis...',
+      completeTitle: 'Analysis complete',
+      summarySyntax: 'Syntax',
+      summaryCompliance: 'Compliance',
+      summaryQuality: 'Quality',
+      scoreRange: (min, max) => `range ${min}–${max}`,
+      scoreStddev: stddev => `stddev ${stddev}`,
+      sampleCount: (samples, requested) =>
+        samples === requested
+          ? `median of ${samples} samples`
+          : `median of ${samples} samples (${requested - samples} of ${requested} failed the result format)`,
+    },
+    structured: {
+      empty: 'Start a structured validation to save the result to the database',
+      progressTitle: 'Structured validation progress',
+      savedToDb: 'Saved to DB',
+      analyzing: 'Running the detailed analysis...',
+      processing: 'Processing...',
+      cachedBadge: 'Cached result',
+      cachedDescription: (cachedAt, promptVersion) =>
+        `Result saved${cachedAt ? ` at ${cachedAt}` : ''} for the same code and prompt version (${promptVersion})`,
+      revalidate: 'Validate again',
+    },
+    streaming: {
+      empty: 'Start a streaming analysis of the code',
+      progressTitle: 'Analysis progress',
+      fallbackMode: 'Standard mode',
+      stepTitles: {
+        syntax: 'Syntax check',
+        rules: 'Rule compliance',
+        quality: 'Code quality',
+        analysis: 'Detailed analysis',
+        complete: 'Complete',
+      },
+      stepDescriptions: {
+        syntax: 'Checking for Python syntax errors...',
+        rules: 'Analyzing Panther detection rule compliance...',
+        quality: 'Evaluating code quality and best practices...',
+        analysis: 'Running a comprehensive code analysis...',
+        complete: 'All analysis steps are complete.',
+      },
+      completeDescription: 'All analysis steps are complete. Use the results above to improve the code.',
+    },
+    progress: {
+      start: 'Starting the analysis...',
+      cache: 'Using the saved result for the same code...',
+      syntax: 'Checking the syntax...',
+      syntaxStopped: 'Analysis stopped because of syntax errors.',
+      lint: 'Running static analysis...',
+      tests: count => `Running ${count} unit test(s)...`,
+      rag: 'Building the RAG context...',
+      documents: count => `Found ${count} Panther rule document(s)...`,
+      examples: count => `Found ${count} similar code example(s)...`,
+      compliance: score => `Checking rule compliance... (estimated score: ${score})`,
+      rules: 'Analyzing Panther rule compliance...',
+      quality: 'Evaluating code quality...',
+      analysis: samples => samples > 1 ? `Running the detailed analysis ${samples} times and combining the results...` : 'Running the detailed analysis...',
+      ragAnalysis: samples => samples > 1 ? `Running the overall analysis ${samples} times and combining the results...` : 'Running the overall analysis...',
+      pack: count => `Validating ${count} rule(s)...`,
+      ruleValidated: path => `${path} validated`,
+      ruleFailed: path => `${path} failed`,
+    },
+    findings: {
+      severity: { error: 'Error', warning: 'Warning', info: 'Info' },
+      source: { linter: 'Static analysis', llm: 'AI analysis', test: 'Test', spec: 'YAML spec' },
+      lineRange: (startLine, endLine) =>
+        endLine && endLine !== startLine ? `Lines ${startLine}-${endLine}` : `Line ${startLine}`,
+      jumpToLine: 'Go to this line in the editor',
+      agreement: (count, total) => `${count}/${total} samples`,
+      agreementTitle: (count, total) => `Reported by ${count} of ${total} samples`,
+    },
+    rubric: {
+      title: 'Score breakdown',
+      criteria: {
+        requiredFunctions: 'Required functions',
+        safeEventAccess: 'Safe event access',
+        alertQuality: 'Alert title & dedup',
+        performance: 'Performance',
+        tests: 'Unit tests',
+        errorHandling: 'Error handling',
+        documentation: 'Documentation',
+      },
+      weight: weight => `weight ${weight}%`,
+      fromTests: 'test pass rate',
+    },
+    tests: {
+      passedCount: (passed, total) => `${passed}/${total} passed`,
+      passed: 'Passed',
+      failed: 'Failed',
+      expectedActual: (expected, actual) => `expected ${expected} / got ${actual}`,
+      errorLine: line => `Line ${line}: `,
+    },
+    legacy: {
+      title: 'Evaluation Results',
+      analyzing: 'Analyzing code...',
+      empty: 'Enter Python code and click "Validate" to see evaluation results.',
+      rules: 'Rules',
+      quality: 'Quality',
+      overview: 'Overview',
+      syntax: 'Syntax',
+      analysis: 'Analysis',
+      syntaxCheck: 'Syntax Check',
+      noSyntaxErrors: '✓ No syntax errors found',
+      syntaxErrorCount: count => `✗ ${count} syntax errors found`,
+      qualityFeedback: 'Code Quality Feedback',
+      syntaxPassed: 'All syntax checks passed',
+      rulesFindings: 'Panther Rules Findings',
+      noIssues: 'No issues found',
+      suggestions: 'Improvement Suggestions',
+      noSuggestions: 'Code follows best practices',
+    },
+  },
+}
+
+export function getEvaluationMessages(language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE): EvaluationMessages {
+  return EVALUATION_MESSAGES[language]
+}
\ No newline at end of file
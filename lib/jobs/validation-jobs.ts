@@ -0,0 +1,264 @@
+import { and, asc, eq, gt, inArray, max } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { analysisSteps, validationJobs, type AnalysisStep, type ValidationJob as ValidationJobRecord } from '@/lib/db/schema'
+import { runStructuredValidation } from '@/lib/agents/structured-validator'
+import { runRagValidation } from '@/lib/agents/rag-validator'
+import { getEvaluationMessages } from '@/lib/i18n/evaluation-messages'
+import {
+  CodeValidationRequestSchema,
+  EnhancedCodeValidationRequestSchema,
+  type CodeValidationRequest,
+  type EnhancedCodeValidationRequest,
+  type ValidationCacheInfo,
+  type ValidationJob,
+  type ValidationJobKind
+} from '@/lib/schemas/validation'
+
+// SSE로 전송되는 작업 이벤트 (analysis_steps.step_data에 그대로 저장)
+export type ValidationJobEvent =
+  | { type: 'progress', step: string, message: string }
+  | { type: 'complete', result: unknown, recordId: string, duration: number, cache?: ValidationCacheInfo }
+  | { type: 'error', error: string, step: string }
+
+export interface StoredJobEvent {
+  id: number // analysis_steps.sequence
+  event: ValidationJobEvent
+}
+
+// Bedrock 호출이 작업마다 발생하므로 동시에 실행할 작업 수를 제한
+const MAX_CONCURRENT_JOBS = Number(process.env.VALIDATION_JOB_CONCURRENCY || 2)
+
+interface WorkerState {
+  queue: string[]
+  running: number
+  recovery: Promise<void> | null
+}
+
+// Next.js 개발 모드의 모듈 재로딩에도 큐가 하나만 유지되도록 globalThis에 보관
+const globalForJobs = globalThis as unknown as { validationJobWorker?: WorkerState }
+const worker = globalForJobs.validationJobWorker ??= { queue: [], running: 0, recovery: null }
+
+export function isTerminalEvent(event: ValidationJobEvent) {
+  return event.type === 'complete' || event.type === 'error'
+}
+
+/**
+ * 작업 이벤트를 analysis_steps에 순서대로 기록
+ * 새 단계가 시작되면 직전 단계의 completedAt을 채웁니다.
+ */
+function createStepRecorder(jobId: string, lastSequence = 0) {
+  let sequence = lastSequence
+  let previousStepId: string | null = null
+  let currentStep = 'initializing'
+
+  return {
+    get currentStep() {
+      return currentStep
+    },
+    async append(event: ValidationJobEvent) {
+      const now = new Date()
+      const stepName = event.type === 'progress' ? event.step : event.type
+
+      if (previousStepId) {
+        await db.update(analysisSteps).set({ completedAt: now }).where(eq(analysisSteps.id, previousStepId))
+      }
+
+      const [step] = await db.insert(analysisSteps).values({
+        jobId,
+        sequence: ++sequence,
+        stepName,
+        startedAt: now,
+        completedAt: isTerminalEvent(event) ? now : null,
+        stepData: event,
+      }).returning({ id: analysisSteps.id })
+
+      previousStepId = step.id
+      if (event.type === 'progress') currentStep = event.step
+    },
+  }
+}
+
+async function runJob(job: ValidationJobRecord) {
+  const startTime = Date.now()
+  const recorder = createStepRecorder(job.id)
+
+  try {
+    const { language } = CodeValidationRequestSchema.pick({ language: true }).parse(job.request)
+    await recorder.append({ type: 'progress', step: 'initializing', message: getEvaluationMessages(language).progress.start })
+
+    const onProgress = (step: string, message: string) => recorder.append({ type: 'progress', step, message })
+    const { result, recordId, cache } = job.kind === 'rag'
+      ? await runRagValidation(EnhancedCodeValidationRequestSchema.parse(job.request), onProgress)
+      : await runStructuredValidation(CodeValidationRequestSchema.parse(job.request), onProgress)
+
+    // 완료 이벤트를 먼저 기록해야 상태를 본 클라이언트가 결과를 놓치지 않음
+    await recorder.append({ type: 'complete', result, recordId, duration: Date.now() - startTime, cache })
+    await db.update(validationJobs)
+      .set({ status: 'completed', validationId: recordId, completedAt: new Date() })
+      .where(eq(validationJobs.id, job.id))
+    await db.update(analysisSteps).set({ validationId: recordId }).where(eq(analysisSteps.jobId, job.id))
+  } catch (error) {
+    console.error(`Validation job error (${job.id}):`, error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    await recorder.append({ type: 'error', error: errorMessage, step: recorder.currentStep })
+    await db.update(validationJobs)
+      .set({ status: 'failed', error: errorMessage, completedAt: new Date() })
+      .where(eq(validationJobs.id, job.id))
+  }
+}
+
+function drainQueue() {
+  while (worker.running < MAX_CONCURRENT_JOBS && worker.queue.length > 0) {
+    const jobId = worker.queue.shift()!
+    worker.running++
+
+    claimJob(jobId)
+      .then(job => job ? runJob(job) : undefined)
+      .catch(error => console.error(`Validation job worker error (${jobId}):`, error))
+      .finally(() => {
+        worker.running--
+        drainQueue()
+      })
+  }
+}
+
+// queued 상태인 작업만 running으로 바꿔 같은 작업이 두 번 실행되지 않도록 함
+async function claimJob(jobId: string) {
+  const [job] = await db.update(validationJobs)
+    .set({ status: 'running', startedAt: new Date() })
+    .where(and(eq(validationJobs.id, jobId), eq(validationJobs.status, 'queued')))
+    .returning()
+
+  return job ?? null
+}
+
+/**
+ * 서버 재시작 전에 남은 작업을 정리
+ * 실행 중이던 작업은 실패로 기록하고 대기 중인 작업은 다시 큐에 넣습니다.
+ * 워커는 서버 프로세스 안에서 실행되므로 단일 인스턴스 배포를 가정합니다.
+ */
+async function recoverJobs() {
+  const pending = await db.select({ id: validationJobs.id, status: validationJobs.status })
+    .from(validationJobs)
+    .where(inArray(validationJobs.status, ['queued', 'running']))
+    .orderBy(asc(validationJobs.createdAt))
+
+  for (const job of pending) {
+    if (job.status === 'queued') {
+      worker.queue.push(job.id)
+      continue
+    }
+
+    const [{ lastSequence }] = await db.select({ lastSequence: max(analysisSteps.sequence) })
+      .from(analysisSteps)
+      .where(eq(analysisSteps.jobId, job.id))
+    const errorMessage = '서버가 재시작되어 작업이 중단되었습니다. 다시 검증해주세요.'
+
+    await createStepRecorder(job.id, lastSequence ?? 0).append({ type: 'error', error: errorMessage, step: 'analysis' })
+    await db.update(validationJobs)
+      .set({ status: 'failed', error: errorMessage, completedAt: new Date() })
+      .where(eq(validationJobs.id, job.id))
+  }
+
+  drainQueue()
+}
+
+function ensureRecovered() {
+  worker.recovery ??= recoverJobs().catch(error => {
+    console.error('Validation job recovery error:', error)
+    worker.recovery = null
+  })
+  return worker.recovery
+}
+
+/**
+ * 검증 작업을 생성하고 워커 큐에 추가
+ */
+export async function enqueueValidationJob(
+  kind: ValidationJobKind,
+  request: CodeValidationRequest | EnhancedCodeValidationRequest
+) {
+  await ensureRecovered()
+
+  const [job] = await db.insert(validationJobs).values({ kind, request }).returning()
+  worker.queue.push(job.id)
+  drainQueue()
+
+  return job
+}
+
+function toIsoString(date: Date | null) {
+  return date ? date.toISOString() : null
+}
+
+function toStoredEvent(step: Pick<AnalysisStep, 'sequence' | 'stepData'>): StoredJobEvent {
+  return { id: step.sequence, event: step.stepData as ValidationJobEvent }
+}
+
+/**
+ * 작업 상태, 진행 단계, 완료된 경우 결과를 조회
+ */
+export async function getValidationJob(jobId: string): Promise<ValidationJob | null> {
+  if (!z.string().uuid().safeParse(jobId).success) return null
+  await ensureRecovered()
+
+  const [job] = await db.select().from(validationJobs).where(eq(validationJobs.id, jobId))
+  if (!job) return null
+
+  const steps = await db.select()
+    .from(analysisSteps)
+    .where(eq(analysisSteps.jobId, jobId))
+    .orderBy(asc(analysisSteps.sequence))
+
+  const events = steps.map(toStoredEvent)
+  const completion = events.find(({ event }) => event.type === 'complete')?.event
+
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    recordId: job.validationId,
+    error: job.error,
+    steps: steps.map(step => {
+      const event = step.stepData as ValidationJobEvent
+      return {
+        sequence: step.sequence,
+        step: step.stepName,
+        message: event.type === 'progress' ? event.message : undefined,
+        startedAt: step.startedAt.toISOString(),
+        completedAt: toIsoString(step.completedAt),
+      }
+    }),
+    result: completion?.type === 'complete' ? completion.result as ValidationJob['result'] : null,
+    duration: completion?.type === 'complete' ? completion.duration : null,
+    cache: completion?.type === 'complete' ? completion.cache ?? null : null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: toIsoString(job.startedAt),
+    completedAt: toIsoString(job.completedAt),
+  }
+}
+
+/**
+ * 작업 상태만 조회 (작업이 없으면 null)
+ */
+export async function getValidationJobStatus(jobId: string) {
+  if (!z.string().uuid().safeParse(jobId).success) return null
+  await ensureRecovered()
+
+  const [job] = await db.select({ status: validationJobs.status }).from(validationJobs).where(eq(validationJobs.id, jobId))
+  return job?.status ?? null
+}
+
+/**
+ * 지정한 이벤트 ID 이후에 기록된 작업 이벤트를 조회 (SSE 재연결용)
+ */
+export async function listJobEvents(jobId: string, afterId = 0): Promise<StoredJobEvent[]> {
+  const steps = await db.select({ sequence: analysisSteps.sequence, stepData: analysisSteps.stepData })
+    .from(analysisSteps)
+    .where(and(eq(analysisSteps.jobId, jobId), gt(analysisSteps.sequence, afterId)))
+    .orderBy(asc(analysisSteps.sequence))
+
+  return steps.map(toStoredEvent)
+}
\ No newline at end of file
@@ -2,9 +2,13 @@ import { remark } from 'remark'
 import remarkParse from 'remark-parse'
 import { toString } from 'mdast-util-to-string'
 import type { Root, Heading, Paragraph, Code } from 'mdast'
-import { TitanEmbeddingClient } from '@/lib/embeddings/titan-client'
+import { getEmbeddingProvider, type EmbeddingProvider } from '@/lib/embeddings'
+import { EmbeddingDimensionError } from '@/lib/embeddings/config'
+import { eq, inArray } from 'drizzle-orm'
 import { db } from '@/lib/db'
+import { assertEmbeddingColumns } from '@/lib/db/embeddings'
 import { knowledgeDocuments, type NewKnowledgeDocument } from '@/lib/db/schema'
+import { withBedrockPriority } from '@/lib/bedrock/limiter'
 
 export interface DocumentChunk {
   title: string
@@ -21,11 +25,11 @@ export interface ProcessedDocument {
 }
 
 export class DocumentProcessor {
-  private embeddingClient: TitanEmbeddingClient
+  private embeddingClient: EmbeddingProvider
   private markdownProcessor: ReturnType<typeof remark>
 
   constructor() {
-    this.embeddingClient = new TitanEmbeddingClient()
+    this.embeddingClient = getEmbeddingProvider()
     this.markdownProcessor = remark().use(remarkParse)
   }
 
@@ -171,8 +175,15 @@ export class DocumentProcessor {
 
   /**
    * 문서 청크들을 데이터베이스에 저장
+   * 임베딩 호출은 batch 우선순위로 실행되어 대화형 검증보다 뒤에 처리됩니다.
    */
-  async storeDocuments(chunks: DocumentChunk[]): Promise<string[]> {
+  storeDocuments(chunks: DocumentChunk[]): Promise<string[]> {
+    return withBedrockPriority('batch', () => this.storeChunks(chunks))
+  }
+
+  private async storeChunks(chunks: DocumentChunk[]): Promise<string[]> {
+    // 컬럼 차원이 임베딩 설정과 다르면 청크마다 실패하기 전에 중단
+    await assertEmbeddingColumns()
     const storedIds: string[] = []
 
     for (const chunk of chunks) {
@@ -183,24 +194,20 @@ export class DocumentProcessor {
         // 임베딩 생성
         const embedding = await this.embeddingClient.generateEmbedding(processedContent)
 
-        // Temporary fix: Pad 1024 dimensions to 1536 to match database expectation
-        const paddedEmbedding = [...embedding, ...new Array(512).fill(0)]
-
         // 데이터베이스에 저장 - pgvector는 배열을 직접 받습니다
         const [stored] = await db.insert(knowledgeDocuments).values({
           title: chunk.title,
           content: processedContent,
           section: chunk.section,
           documentType: chunk.documentType,
-          embedding: paddedEmbedding,
+          embedding,
+          embeddingModel: this.embeddingClient.modelId,
           metadata: chunk.metadata,
         }).returning({ id: knowledgeDocuments.id })
 
         storedIds.push(stored.id)
-
-        // 레이트 리밋 방지
-        await new Promise(resolve => setTimeout(resolve, 200))
       } catch (error) {
+        if (error instanceof EmbeddingDimensionError) throw error
         console.error(`Failed to store document chunk: ${chunk.title}`, error)
         // 개별 청크 실패 시 계속 진행
       }
@@ -244,15 +251,18 @@ export class DocumentProcessor {
   /**
    * 기존 문서 업데이트 (재임베딩)
    */
-  async updateDocumentEmbeddings(documentIds?: string[]): Promise<number> {
-    try {
-      let query = db.select().from(knowledgeDocuments)
+  updateDocumentEmbeddings(documentIds?: string[]): Promise<number> {
+    return withBedrockPriority('batch', () => this.reembedDocuments(documentIds))
+  }
 
-      if (documentIds) {
-        query = query.where(knowledgeDocuments.id.in(documentIds))
-      }
+  private async reembedDocuments(documentIds?: string[]): Promise<number> {
+    try {
+      await assertEmbeddingColumns()
 
-      const documents = await query
+      const documents = await db
+        .select({ id: knowledgeDocuments.id, content: knowledgeDocuments.content })
+        .from(knowledgeDocuments)
+        .where(documentIds ? inArray(knowledgeDocuments.id, documentIds) : undefined)
       let updatedCount = 0
 
       for (const doc of documents) {
@@ -260,13 +270,10 @@ export class DocumentProcessor {
           const embedding = await this.embeddingClient.generateEmbedding(doc.content)
 
           await db.update(knowledgeDocuments)
-            .set({ embedding })
-            .where(knowledgeDocuments.id.eq(doc.id))
+            .set({ embedding, embeddingModel: this.embeddingClient.modelId })
+            .where(eq(knowledgeDocuments.id, doc.id))
 
           updatedCount++
-
-          // 레이트 리밋 방지
-          await new Promise(resolve => setTimeout(resolve, 200))
         } catch (error) {
           console.error(`Failed to update embedding for document ${doc.id}:`, error)
         }
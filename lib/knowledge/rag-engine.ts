@@ -1,7 +1,23 @@
-import { TitanEmbeddingClient } from '@/lib/embeddings/titan-client'
+import { getEmbeddingProvider, type EmbeddingProvider } from '@/lib/embeddings'
+import { FixtureMissError } from '@/lib/fixtures/store'
 import { db } from '@/lib/db'
+import { assertEmbeddingColumns } from '@/lib/db/embeddings'
 import { knowledgeDocuments, codeExamples, type KnowledgeDocument, type CodeExample } from '@/lib/db/schema'
-import { sql } from 'drizzle-orm'
+import { sql, type Column, type SQL } from 'drizzle-orm'
+import { estimateComplianceScore, toFindings, type LintFinding } from '@/lib/analysis/linter'
+import { formatFinding } from '@/lib/analysis/findings'
+import { RESPONSE_LANGUAGE_NAMES, VALIDATION_TOOL } from '@/lib/agents/validation-tool'
+import { DEFAULT_VALIDATION_LANGUAGE, type ValidationLanguage } from '@/lib/schemas/validation'
+import { renderPrompt } from '@/lib/prompts/registry'
+import {
+  extractSearchTerms,
+  getHybridSearchConfig,
+  reciprocalRankFusion,
+  type HybridSearchConfig,
+  type RetrievalInfo,
+  type RetrievalMethod
+} from '@/lib/knowledge/retrieval'
+import { createReranker, getRerankConfig, type RerankConfig, type Reranker } from '@/lib/knowledge/reranker'
 
 export interface SearchResult {
   id: string
@@ -11,6 +27,8 @@ export interface SearchResult {
   documentType: string
   similarity: number
   metadata?: Record<string, any>
+  retrieval?: RetrievalInfo // 하이브리드 검색으로 찾은 경우 RRF 점수와 방식별 순위
+  rerankScore?: number // 재순위화 단계의 관련도 (0-1)
 }
 
 export interface ExampleSearchResult {
@@ -22,6 +40,7 @@ export interface ExampleSearchResult {
   description?: string
   similarity: number
   tags?: string[]
+  retrieval?: RetrievalInfo
 }
 
 export interface RAGContext {
@@ -32,6 +51,7 @@ export interface RAGContext {
     documentsFound: number
     examplesFound: number
     queryProcessingTime: number
+    reranker: string | null // 재순위화에 사용한 모델 (사용하지 않았거나 실패하면 null)
   }
   complianceContext?: {
     missingRequirements: string[]
@@ -40,15 +60,196 @@ export interface RAGContext {
   }
 }
 
+// RAG 프롬프트의 참고 자료 제목과 라벨 (검증 요청의 language에 맞춤)
+interface ReferenceLabels {
+  officialRules: string
+  otherDocs: string
+  examples: string
+  relevance: (percent: string) => string
+  keyRequirements: string
+  exampleTitle: (index: number, title: string, qualityScore: number, percent: string) => string
+  description: string
+  category: string
+  code: string
+  bestPractice: (practice: string) => string
+}
+
+const REFERENCE_LABELS: Record<ValidationLanguage, ReferenceLabels> = {
+  ko: {
+    officialRules: '## 🔴 공식 Panther 규칙 가이드라인:',
+    otherDocs: '## 📘 추가 참고 문서:',
+    examples: '## 유사한 코드 예제 참고:',
+    relevance: percent => `관련도: ${percent}%`,
+    keyRequirements: '핵심 요구사항',
+    exampleTitle: (index, title, qualityScore, percent) => `예제 ${index}: ${title} (품질점수: ${qualityScore}/100, 유사도: ${percent}%)`,
+    description: '설명',
+    category: '카테고리',
+    code: '코드',
+    bestPractice: practice => `모범 사례: ${practice}`,
+  },
+  en: {
+    officialRules: '## 🔴 Official Panther rule guidelines:',
+    otherDocs: '## 📘 Additional references:',
+    examples: '## Similar code examples:',
+    relevance: percent => `relevance: ${percent}%`,
+    keyRequirements: 'Key requirements',
+    exampleTitle: (index, title, qualityScore, percent) => `Example ${index}: ${title} (quality score: ${qualityScore}/100, similarity: ${percent}%)`,
+    description: 'Description',
+    category: 'Category',
+    code: 'Code',
+    bestPractice: practice => `Best practice: ${practice}`,
+  },
+}
+
+// 하이브리드 검색에서 함께 조회하는 문서 컬럼
+const documentColumns = {
+  id: knowledgeDocuments.id,
+  title: knowledgeDocuments.title,
+  content: knowledgeDocuments.content,
+  section: knowledgeDocuments.section,
+  documentType: knowledgeDocuments.documentType,
+  metadata: knowledgeDocuments.metadata,
+}
+
+const exampleColumns = {
+  id: codeExamples.id,
+  title: codeExamples.title,
+  codeContent: codeExamples.codeContent,
+  qualityScore: codeExamples.qualityScore,
+  category: codeExamples.category,
+  description: codeExamples.description,
+  tags: codeExamples.tags,
+}
+
+// 0-1 범위의 코사인 유사도 (임베딩이 없거나 반대 방향이면 0) - relevanceScore 등 0-1 점수로 그대로 사용
+function cosineSimilarity(embedding: Column, queryEmbedding: number[]): SQL<number> {
+  return sql<number>`greatest(coalesce(1 - (${embedding} <=> ${queryEmbedding}), 0), 0)`
+}
+
+// Panther 규칙 섹션과 rule 타입 문서의 벡터 검색 순위 가중치 (similarity에는 곱하지 않음)
+const authorityWeight = sql<number>`
+  CASE
+    WHEN ${knowledgeDocuments.section} ILIKE '%Panther Rule%' AND ${knowledgeDocuments.documentType} = 'rule' THEN 1.3
+    WHEN ${knowledgeDocuments.section} ILIKE '%Writing Python Detections%' THEN 1.2
+    WHEN ${knowledgeDocuments.documentType} = 'rule' THEN 1.1
+    ELSE 1.0
+  END
+`
+
+// 검색어마다 구문 검색(phraseto_tsquery)을 만들어 OR로 연결 - deep_walk는 'deep' <-> 'walk'로 문서와 같은 방식으로 나뉨
+function toTsQuery(terms: string[]): SQL {
+  return sql`(${sql.join(terms.map(term => sql`phraseto_tsquery('simple', ${term})`), sql` || `)})`
+}
+
+// BM25처럼 문서 길이로 정규화(1)하고 점수를 0-1로 포화(32)시킨 전문 검색 점수
+function lexicalRank(searchVector: Column, tsQuery: SQL): SQL<number> {
+  return sql<number>`ts_rank_cd(${searchVector}, ${tsQuery}, 33)`
+}
+
+// searchByPantherFunctions의 검색어 - 코드에 나온 Panther 함수만 검색 (없으면 전체)
+const PANTHER_FUNCTION_TERMS: Array<{ name: string, term: string }> = [
+  { name: 'rule', term: 'rule(event' },
+  { name: 'severity', term: 'severity(event' },
+  { name: 'title', term: 'title(event' },
+  { name: 'dedup', term: 'dedup(event' },
+  { name: 'runbook', term: 'runbook(event' },
+  { name: 'alert_context', term: 'alert_context(event' },
+  { name: 'deep_get', term: 'deep_get' },
+  { name: 'deep_walk', term: 'deep_walk' },
+  { name: 'event.get', term: 'event.get' },
+  { name: 'event.udm', term: 'event.udm' },
+]
+
+function toSearchResult(row: {
+  id: string
+  title: string
+  content: string
+  section: string | null
+  documentType: string
+  metadata: unknown
+  similarity: number
+}): SearchResult {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    section: row.section || undefined,
+    documentType: row.documentType,
+    similarity: row.similarity,
+    metadata: (row.metadata as SearchResult['metadata'] | null) || undefined,
+  }
+}
+
+function toExampleSearchResult(row: {
+  id: string
+  title: string
+  codeContent: string
+  qualityScore: number
+  category: string | null
+  description: string | null
+  tags: string[] | null
+  similarity: number
+}): ExampleSearchResult {
+  return {
+    id: row.id,
+    title: row.title,
+    codeContent: row.codeContent,
+    qualityScore: row.qualityScore,
+    category: row.category || undefined,
+    description: row.description || undefined,
+    similarity: row.similarity,
+    tags: row.tags || undefined,
+  }
+}
+
 export class RAGEngine {
-  private embeddingClient: TitanEmbeddingClient
+  private embeddingClient: EmbeddingProvider
+  private searchConfig: HybridSearchConfig
+  private rerankConfig: RerankConfig
+  private reranker: Reranker | null
+
+  constructor(
+    searchConfig: HybridSearchConfig = getHybridSearchConfig(),
+    rerankConfig: RerankConfig = getRerankConfig()
+  ) {
+    this.embeddingClient = getEmbeddingProvider()
+    this.searchConfig = searchConfig
+    this.rerankConfig = rerankConfig
+    this.reranker = createReranker(rerankConfig)
+  }
 
-  constructor() {
-    this.embeddingClient = new TitanEmbeddingClient()
+  /**
+   * 가중치가 0보다 큰 검색 방식만 실행하고 RRF로 합쳐 상위 topK개 반환
+   */
+  private async fuseSearches<T extends { id: string }>(
+    searches: Record<RetrievalMethod, () => Promise<T[]>>,
+    topK: number
+  ): Promise<T[]> {
+    const methods = (Object.keys(searches) as RetrievalMethod[]).filter(method => this.searchConfig.weights[method] > 0)
+    const lists = await Promise.all(methods.map(async method => ({ method, results: await searches[method]() })))
+    return reciprocalRankFusion(lists, this.searchConfig).slice(0, topK)
+  }
+
+  /**
+   * 문서 전문 검색 - 후보 순위는 전문 검색 점수, similarity는 코사인 유사도
+   */
+  private async searchDocumentsLexical(terms: string[], queryEmbedding: number[], limit: number): Promise<SearchResult[]> {
+    if (terms.length === 0) return []
+    const tsQuery = toTsQuery(terms)
+
+    const results = await db
+      .select({ ...documentColumns, similarity: cosineSimilarity(knowledgeDocuments.embedding, queryEmbedding) })
+      .from(knowledgeDocuments)
+      .where(sql`${knowledgeDocuments.searchVector} @@ ${tsQuery}`)
+      .orderBy(sql`${lexicalRank(knowledgeDocuments.searchVector, tsQuery)} DESC`)
+      .limit(limit)
+
+    return results.map(toSearchResult)
   }
 
   /**
-   * Panther 공식 규칙 문서 우선 검색
+   * Panther 공식 규칙 문서 우선 검색 (벡터 검색과 전문 검색을 RRF로 합침)
+   * minSimilarity는 벡터 검색 후보에만 적용되며, 전문 검색은 식별자가 일치하는 문서를 유사도와 관계없이 후보로 포함합니다.
    */
   async searchPantherRules(query: string, topK: number = 5, minSimilarity: number = 0.75): Promise<SearchResult[]> {
     try {
@@ -56,53 +257,28 @@ export class RAGEngine {
 
       // 쿼리 임베딩 생성
       const queryEmbedding = await this.embeddingClient.generateEmbedding(
-        this.embeddingClient.preprocessText(query)
+        this.embeddingClient.preprocessText(query),
+        'query'
       )
-
-      // Panther Rule 섹션과 rule 타입 문서를 우선 검색
-      const results = await db
-        .select({
-          id: knowledgeDocuments.id,
-          title: knowledgeDocuments.title,
-          content: knowledgeDocuments.content,
-          section: knowledgeDocuments.section,
-          documentType: knowledgeDocuments.documentType,
-          metadata: knowledgeDocuments.metadata,
-          similarity: sql<number>`1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})`,
-          // 가중치: Panther Rule 섹션과 rule 타입에 높은 점수
-          weightedScore: sql<number>`
-            CASE
-              WHEN ${knowledgeDocuments.section} ILIKE '%Panther Rule%' AND ${knowledgeDocuments.documentType} = 'rule' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.3
-              WHEN ${knowledgeDocuments.section} ILIKE '%Writing Python Detections%' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.2
-              WHEN ${knowledgeDocuments.documentType} = 'rule' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.1
-              ELSE (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding}))
-            END
-          `
-        })
-        .from(knowledgeDocuments)
-        .where(sql`${knowledgeDocuments.embedding} <=> ${queryEmbedding} < ${1 - minSimilarity}`)
-        .orderBy(sql`
-          CASE
-            WHEN ${knowledgeDocuments.section} ILIKE '%Panther Rule%' AND ${knowledgeDocuments.documentType} = 'rule' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.3
-            WHEN ${knowledgeDocuments.section} ILIKE '%Writing Python Detections%' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.2
-            WHEN ${knowledgeDocuments.documentType} = 'rule' THEN (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})) * 1.1
-            ELSE (1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding}))
-          END DESC
-        `)
-        .limit(topK)
+      const similarity = cosineSimilarity(knowledgeDocuments.embedding, queryEmbedding)
+      const { candidates } = this.searchConfig
+
+      const results = await this.fuseSearches<SearchResult>({
+        // 순위 가중치: Panther Rule 섹션과 rule 타입을 앞에 둠 (RRF에는 순위만 반영)
+        vector: async () => (await db
+          .select({ ...documentColumns, similarity })
+          .from(knowledgeDocuments)
+          .where(sql`${knowledgeDocuments.embedding} <=> ${queryEmbedding} < ${1 - minSimilarity}`)
+          .orderBy(sql`${similarity} * ${authorityWeight} DESC`)
+          .limit(candidates)
+        ).map(toSearchResult),
+        lexical: () => this.searchDocumentsLexical(extractSearchTerms(query), queryEmbedding, candidates),
+      }, topK)
 
       const searchTime = Date.now() - startTime
       console.log(`Panther rule search completed in ${searchTime}ms, found ${results.length} results`)
 
-      return results.map(result => ({
-        id: result.id,
-        title: result.title,
-        content: result.content,
-        section: result.section || undefined,
-        documentType: result.documentType,
-        similarity: result.weightedScore, // 가중치가 적용된 점수 사용
-        metadata: result.metadata || undefined,
-      }))
+      return results
     } catch (error) {
       console.error('Error searching Panther rules:', error)
       throw new Error(`Panther rule search failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -118,7 +294,8 @@ export class RAGEngine {
 
       // 쿼리 임베딩 생성
       const queryEmbedding = await this.embeddingClient.generateEmbedding(
-        this.embeddingClient.preprocessText(query)
+        this.embeddingClient.preprocessText(query),
+        'query'
       )
 
       // pgVector 코사인 유사도 검색
@@ -156,7 +333,7 @@ export class RAGEngine {
   }
 
   /**
-   * 유사한 코드 예제 검색
+   * 유사한 코드 예제 검색 (벡터 검색과 전문 검색을 RRF로 합침)
    */
   async searchSimilarExamples(code: string, topK: number = 3, minSimilarity: number = 0.65): Promise<ExampleSearchResult[]> {
     try {
@@ -164,39 +341,38 @@ export class RAGEngine {
 
       // 코드 임베딩 생성
       const codeEmbedding = await this.embeddingClient.generateEmbedding(
-        this.embeddingClient.preprocessText(code)
+        this.embeddingClient.preprocessText(code),
+        'query'
       )
-
-      // 유사 예제 검색
-      const results = await db
-        .select({
-          id: codeExamples.id,
-          title: codeExamples.title,
-          codeContent: codeExamples.codeContent,
-          qualityScore: codeExamples.qualityScore,
-          category: codeExamples.category,
-          description: codeExamples.description,
-          tags: codeExamples.tags,
-          similarity: sql<number>`1 - (${codeExamples.embedding} <=> ${codeEmbedding})`,
-        })
-        .from(codeExamples)
-        .where(sql`${codeExamples.embedding} <=> ${codeEmbedding} < ${1 - minSimilarity}`)
-        .orderBy(sql`${codeExamples.embedding} <=> ${codeEmbedding}`)
-        .limit(topK)
+      const similarity = cosineSimilarity(codeExamples.embedding, codeEmbedding)
+      const { candidates } = this.searchConfig
+      const terms = extractSearchTerms(code)
+
+      const results = await this.fuseSearches<ExampleSearchResult>({
+        vector: async () => (await db
+          .select({ ...exampleColumns, similarity })
+          .from(codeExamples)
+          .where(sql`${codeExamples.embedding} <=> ${codeEmbedding} < ${1 - minSimilarity}`)
+          .orderBy(sql`${codeExamples.embedding} <=> ${codeEmbedding}`)
+          .limit(candidates)
+        ).map(toExampleSearchResult),
+        lexical: async () => {
+          if (terms.length === 0) return []
+          const tsQuery = toTsQuery(terms)
+          return (await db
+            .select({ ...exampleColumns, similarity })
+            .from(codeExamples)
+            .where(sql`${codeExamples.searchVector} @@ ${tsQuery}`)
+            .orderBy(sql`${lexicalRank(codeExamples.searchVector, tsQuery)} DESC`)
+            .limit(candidates)
+          ).map(toExampleSearchResult)
+        },
+      }, topK)
 
       const searchTime = Date.now() - startTime
       console.log(`Example search completed in ${searchTime}ms, found ${results.length} results`)
 
-      return results.map(result => ({
-        id: result.id,
-        title: result.title,
-        codeContent: result.codeContent,
-        qualityScore: result.qualityScore,
-        category: result.category || undefined,
-        description: result.description || undefined,
-        similarity: result.similarity,
-        tags: result.tags || undefined,
-      }))
+      return results
     } catch (error) {
       console.error('Error searching similar examples:', error)
       throw new Error(`Example search failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -204,50 +380,34 @@ export class RAGEngine {
   }
 
   /**
-   * 키워드 기반 Panther 함수 검색
+   * Panther 함수 기반 검색 - 코드에 나온 Panther 함수 이름으로 전문 검색하고 벡터 검색과 합침
    */
   async searchByPantherFunctions(query: string, topK: number = 3): Promise<SearchResult[]> {
     try {
       const queryEmbedding = await this.embeddingClient.generateEmbedding(
-        this.embeddingClient.preprocessText(query)
+        this.embeddingClient.preprocessText(query),
+        'query'
       )
-
-      // Panther 특화 키워드가 포함된 문서 검색
-      const results = await db
-        .select({
-          id: knowledgeDocuments.id,
-          title: knowledgeDocuments.title,
-          content: knowledgeDocuments.content,
-          section: knowledgeDocuments.section,
-          documentType: knowledgeDocuments.documentType,
-          metadata: knowledgeDocuments.metadata,
-          similarity: sql<number>`1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})`,
-        })
-        .from(knowledgeDocuments)
-        .where(sql`(
-          ${knowledgeDocuments.content} ILIKE '%rule(%' OR
-          ${knowledgeDocuments.content} ILIKE '%severity(%' OR
-          ${knowledgeDocuments.content} ILIKE '%title(%' OR
-          ${knowledgeDocuments.content} ILIKE '%dedup(%' OR
-          ${knowledgeDocuments.content} ILIKE '%runbook(%' OR
-          ${knowledgeDocuments.content} ILIKE '%deep_get%' OR
-          ${knowledgeDocuments.content} ILIKE '%deep_walk%' OR
-          ${knowledgeDocuments.content} ILIKE '%event.get%' OR
-          ${knowledgeDocuments.content} ILIKE '%event.udm%'
-        ) AND ${knowledgeDocuments.embedding} <=> ${queryEmbedding} < 0.5`)
-        .orderBy(sql`1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding}) DESC`)
-        .limit(topK)
-
-      return results.map(result => ({
-        id: result.id,
-        title: result.title,
-        content: result.content,
-        section: result.section || undefined,
-        documentType: result.documentType,
-        similarity: result.similarity,
-        metadata: result.metadata || undefined,
-      }))
+      const similarity = sql<number>`1 - (${knowledgeDocuments.embedding} <=> ${queryEmbedding})`
+      const { candidates } = this.searchConfig
+
+      const usedFunctions = PANTHER_FUNCTION_TERMS.filter(({ name }) => query.includes(name))
+      const terms = (usedFunctions.length > 0 ? usedFunctions : PANTHER_FUNCTION_TERMS).map(({ term }) => term)
+      const tsQuery = toTsQuery(terms)
+
+      // 두 방식 모두 Panther 함수가 나오는 문서만 후보로 사용 (벡터 검색은 유사도 순, 전문 검색은 전문 검색 점수 순)
+      return await this.fuseSearches<SearchResult>({
+        vector: async () => (await db
+          .select({ ...documentColumns, similarity })
+          .from(knowledgeDocuments)
+          .where(sql`${knowledgeDocuments.searchVector} @@ ${tsQuery} AND ${knowledgeDocuments.embedding} <=> ${queryEmbedding} < 0.5`)
+          .orderBy(sql`${similarity} DESC`)
+          .limit(candidates)
+        ).map(toSearchResult),
+        lexical: () => this.searchDocumentsLexical(terms, queryEmbedding, candidates),
+      }, topK)
     } catch (error) {
+      if (error instanceof FixtureMissError) throw error
       console.error('Error searching by Panther functions:', error)
       return []
     }
@@ -256,27 +416,37 @@ export class RAGEngine {
   /**
    * 강화된 컨텍스트 생성 (Panther 규칙 우선)
    */
-  async buildEnhancedContext(code: string): Promise<RAGContext> {
+  async buildEnhancedContext(code: string, language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE): Promise<RAGContext> {
     const startTime = Date.now()
 
     try {
+      // 검색마다 차원 오류를 빈 결과로 숨기지 않도록 먼저 컬럼 차원을 확인
+      await assertEmbeddingColumns()
+
+      // 재순위화를 사용하면 후보를 넉넉히 모은 뒤 규칙 코드와 비교해 상위 topK개만 사용
+      const pool = this.reranker ? this.rerankConfig.poolSize : undefined
+
       // 병렬로 Panther 특화 검색 실행
       const [pantherRules, functionDocs, similarExamples] = await Promise.all([
-        this.searchPantherRules(code, 3, 0.75),
-        this.searchByPantherFunctions(code, 2),
+        this.searchPantherRules(code, pool ?? 3, 0.75),
+        this.searchByPantherFunctions(code, pool ?? 2),
         this.searchSimilarExamples(code, 3, 0.65),
       ])
 
       // Panther 규칙과 함수 문서를 결합하고 중복 제거
       const seenIds = new Set()
-      const relevantDocuments = [...pantherRules, ...functionDocs].filter(doc => {
+      const candidates = [...pantherRules, ...functionDocs].filter(doc => {
         if (seenIds.has(doc.id)) return false
         seenIds.add(doc.id)
         return true
-      }).slice(0, 5) // 최대 5개로 제한
+      })
+
+      const { documents: relevantDocuments, reranker } = pool
+        ? await this.rerankDocuments(code, candidates.slice(0, pool))
+        : { documents: candidates.slice(0, 5), reranker: null } // 최대 5개로 제한
 
       // 강화된 프롬프트 생성
-      const enhancedPrompt = this.buildPromptWithRAG(relevantDocuments, similarExamples)
+      const enhancedPrompt = this.buildPromptWithRAG(relevantDocuments, similarExamples, language)
 
       const processingTime = Date.now() - startTime
 
@@ -288,6 +458,7 @@ export class RAGEngine {
           documentsFound: relevantDocuments.length,
           examplesFound: similarExamples.length,
           queryProcessingTime: processingTime,
+          reranker,
         },
       }
     } catch (error) {
@@ -296,11 +467,41 @@ export class RAGEngine {
     }
   }
 
+  /**
+   * 후보 문서를 재순위화 모델의 관련도 순으로 정렬해 상위 topK개 반환
+   * 재순위화에 실패하면 검색 순서대로 topK개를 사용합니다.
+   */
+  private async rerankDocuments(
+    code: string,
+    candidates: SearchResult[]
+  ): Promise<{ documents: SearchResult[], reranker: string | null }> {
+    const { topK } = this.rerankConfig
+    if (!this.reranker || candidates.length === 0) return { documents: candidates.slice(0, topK), reranker: null }
+
+    try {
+      const scores = await this.reranker.score(code, candidates)
+      const documents = candidates
+        .map((doc, index) => ({ ...doc, rerankScore: scores[index] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, topK)
+      return { documents, reranker: this.reranker.name }
+    } catch (error) {
+      if (error instanceof FixtureMissError) throw error
+      console.warn('Reranking failed, using retrieval order:', error)
+      return { documents: candidates.slice(0, topK), reranker: null }
+    }
+  }
+
   /**
    * RAG 기반 강화 프롬프트 생성 (Panther 규칙 특화)
    */
-  private buildPromptWithRAG(documents: SearchResult[], examples: ExampleSearchResult[]): string {
-    let prompt = `당신은 Panther 탐지 규칙을 전문으로 하는 Python 코드 검증자입니다.\n\n`
+  private buildPromptWithRAG(
+    documents: SearchResult[],
+    examples: ExampleSearchResult[],
+    language: ValidationLanguage
+  ): string {
+    const labels = REFERENCE_LABELS[language]
+    let references = ''
 
     // Panther 공식 규칙 문서 정보 우선 추가
     const officialRules = documents.filter(doc =>
@@ -312,77 +513,46 @@ export class RAGEngine {
     const otherDocs = documents.filter(doc => !officialRules.includes(doc))
 
     if (officialRules.length > 0) {
-      prompt += `## 🔴 공식 Panther 규칙 가이드라인:\n\n`
+      references += `${labels.officialRules}\n\n`
       officialRules.forEach((doc, index) => {
-        prompt += `### ${index + 1}. ${doc.title}`
-        if (doc.section) prompt += ` - ${doc.section}`
-        prompt += ` (권위도: ${(doc.similarity * 100).toFixed(1)}%)\n`
+        references += `### ${index + 1}. ${doc.title}`
+        if (doc.section) references += ` - ${doc.section}`
+        references += ` (${labels.relevance((doc.similarity * 100).toFixed(1))})\n`
 
         // 공식 규칙에서 핵심 요구사항 추출
         const content = doc.content.slice(0, 1000)
-        prompt += `**핵심 요구사항**: ${content}${doc.content.length > 1000 ? '...' : ''}\n\n`
+        references += `**${labels.keyRequirements}**: ${content}${doc.content.length > 1000 ? '...' : ''}\n\n`
       })
     }
 
     if (otherDocs.length > 0) {
-      prompt += `## 📘 추가 참고 문서:\n\n`
+      references += `${labels.otherDocs}\n\n`
       otherDocs.forEach((doc, index) => {
-        prompt += `### ${index + 1}. ${doc.title}`
-        if (doc.section) prompt += ` - ${doc.section}`
-        prompt += ` (관련도: ${(doc.similarity * 100).toFixed(1)}%)\n`
-        prompt += `${doc.content.slice(0, 600)}${doc.content.length > 600 ? '...' : ''}\n\n`
+        references += `### ${index + 1}. ${doc.title}`
+        if (doc.section) references += ` - ${doc.section}`
+        references += ` (${labels.relevance((doc.similarity * 100).toFixed(1))})\n`
+        references += `${doc.content.slice(0, 600)}${doc.content.length > 600 ? '...' : ''}\n\n`
       })
     }
 
     // 유사 예제 추가
     if (examples.length > 0) {
-      prompt += `## 유사한 코드 예제 참고:\n\n`
+      references += `${labels.examples}\n\n`
       examples.forEach((example, index) => {
-        prompt += `### 예제 ${index + 1}: ${example.title} (품질점수: ${example.qualityScore}/100, 유사도: ${(example.similarity * 100).toFixed(1)}%)\n`
-        if (example.description) prompt += `**설명**: ${example.description}\n`
-        if (example.category) prompt += `**카테고리**: ${example.category}\n`
-        prompt += `**코드**:\n\`\`\`python\n${example.codeContent.slice(0, 600)}${example.codeContent.length > 600 ? '\n# ... (truncated)' : ''}\n\`\`\`\n\n`
+        references += `### ${labels.exampleTitle(index + 1, example.title, example.qualityScore, (example.similarity * 100).toFixed(1))}\n`
+        if (example.description) references += `**${labels.description}**: ${example.description}\n`
+        if (example.category) references += `**${labels.category}**: ${example.category}\n`
+        references += `**${labels.code}**:\n\`\`\`python\n${example.codeContent.slice(0, 600)}${example.codeContent.length > 600 ? '\n# ... (truncated)' : ''}\n\`\`\`\n\n`
       })
     }
 
-    // Panther 특화 평가 기준 추가
-    prompt += `## 🎯 Panther 규칙 준수성 평가 기준:\n\n`
-
-    if (officialRules.length > 0) {
-      prompt += `### 📋 공식 규칙 기반 체크리스트:\n`
-      prompt += `위의 공식 Panther 문서를 바탕으로 다음을 **필수적으로** 검증하세요:\n\n`
-
-      prompt += `1. **필수 함수 구조 (90점 만점)**:\n`
-      prompt += `   - \`rule(event)\` 함수 존재 및 올바른 반환값 (Boolean)\n`
-      prompt += `   - 필요시 \`severity()\`, \`title()\`, \`dedup()\`, \`runbook()\` 함수 구현\n`
-      prompt += `   - 함수 시그니처와 반환 타입의 정확성\n\n`
-
-      prompt += `2. **Panther 내장 함수 활용 (80점 만점)**:\n`
-      prompt += `   - \`event.get()\`, \`deep_get()\`, \`deep_walk()\` 적절한 사용\n`
-      prompt += `   - UDM(Unified Data Model) 필드 활용도\n`
-      prompt += `   - 안전한 데이터 접근 패턴\n\n`
-
-      prompt += `3. **보안 및 성능 (70점 만점)**:\n`
-      prompt += `   - 15초 내 실행 보장 (타임아웃 방지)\n`
-      prompt += `   - 외부 API 호출 금지 준수\n`
-      prompt += `   - 예외 처리 및 안전한 데이터 핸들링\n\n`
-    }
-
-    prompt += `### 🔍 추가 품질 평가:\n`
-    prompt += `- **코드 품질**: 유사 예제와 비교한 구현 수준\n`
-    prompt += `- **탐지 정확성**: False positive/negative 최소화\n`
-    prompt += `- **가독성**: 코드 명확성과 주석의 적절성\n`
-    prompt += `- **유지보수성**: 확장성과 수정 용이성\n\n`
-
-    prompt += `### ⚠️ 중요 지침:\n`
-    prompt += `- 공식 Panther 문서의 요구사항을 **최우선**으로 적용\n`
-    prompt += `- 규칙 준수성 점수는 공식 가이드라인 준수 정도에 따라 엄격하게 채점\n`
-    prompt += `- 참고 문서의 구체적인 예시와 패턴을 인용하여 개선 제안 제공\n`
-    prompt += `- 검증 불가능한 부분은 명시적으로 언급\n\n`
-
-    prompt += `**모든 응답은 한국어로 작성하고 JSON 형식만 반환하세요.**`
-
-    return prompt
+    // 평가 기준과 지침은 프롬프트 레지스트리의 rag-system 템플릿
+    return renderPrompt('rag-system', {
+      references,
+      officialChecklist: officialRules.length > 0 ? `${renderPrompt('rag-checklist')}\n\n` : '',
+      toolName: VALIDATION_TOOL.name,
+      languageName: RESPONSE_LANGUAGE_NAMES[language],
+    })
   }
 
   /**
@@ -449,44 +619,26 @@ export class RAGEngine {
   }
 
   /**
-   * 규칙 준수성 컨텍스트 구축
+   * 규칙 준수성 컨텍스트 구축 (정적 분석 결과 기반)
    */
-  buildRuleComplianceContext(code: string, documents: SearchResult[]): {
+  buildRuleComplianceContext(
+    lintFindings: LintFinding[],
+    documents: SearchResult[],
+    language: ValidationLanguage = DEFAULT_VALIDATION_LANGUAGE
+  ): {
     missingRequirements: string[]
     complianceScore: number
     suggestions: string[]
   } {
     const patterns = this.extractRulePatterns(documents)
-    const codeLines = code.toLowerCase()
-
-    const missingRequirements: string[] = []
-    let complianceScore = 100
-
-    // 필수 함수 검증
-    if (!codeLines.includes('def rule(')) {
-      missingRequirements.push('rule(event) 함수가 누락되었습니다')
-      complianceScore -= 30
-    }
-
-    // 공통 패턴 검증
-    if (!codeLines.includes('event.get(') && !codeLines.includes('deep_get(')) {
-      missingRequirements.push('안전한 이벤트 데이터 접근 방법이 필요합니다')
-      complianceScore -= 15
-    }
-
-    if (!codeLines.includes('return true') && !codeLines.includes('return false')) {
-      missingRequirements.push('명시적인 Boolean 반환값이 필요합니다')
-      complianceScore -= 20
-    }
 
     // 제안사항 생성
-    const suggestions = patterns.bestPractices.map(practice =>
-      `모범 사례: ${practice}`
-    )
+    const labels = REFERENCE_LABELS[language]
+    const suggestions = patterns.bestPractices.map(practice => labels.bestPractice(practice))
 
     return {
-      missingRequirements,
-      complianceScore: Math.max(0, complianceScore),
+      missingRequirements: toFindings(lintFindings).map(finding => formatFinding(finding, language)),
+      complianceScore: estimateComplianceScore(lintFindings),
       suggestions
     }
   }
@@ -547,7 +699,8 @@ export class RAGEngine {
       } = filters
 
       const queryEmbedding = await this.embeddingClient.generateEmbedding(
-        this.embeddingClient.preprocessText(query)
+        this.embeddingClient.preprocessText(query),
+        'query'
       )
 
       let whereConditions: any[] = []
@@ -630,6 +783,7 @@ export class RAGEngine {
         }
       }))
     } catch (error) {
+      if (error instanceof FixtureMissError) throw error
       console.error('Error in metadata filtering search:', error)
       return []
     }
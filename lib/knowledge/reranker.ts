@@ -0,0 +1,164 @@
+import { z } from 'zod'
+import { getLLMProvider, getLLMProviderForModel } from '@/lib/llm'
+import { invokeStructured, type StructuredTool } from '@/lib/llm/structured'
+import { renderPrompt } from '@/lib/prompts/registry'
+
+/**
+ * 검색 후보 재순위화 - 하이브리드 검색으로 모은 후보를 제출된 규칙 코드와 직접 비교해 다시 점수를 매김
+ * 로컬 재순위화 모델(HTTP) 또는 작은 Claude 모델 호출을 사용할 수 있습니다.
+ */
+
+export type RerankerName = 'none' | 'llm' | 'http'
+
+export interface RerankConfig {
+  reranker: RerankerName
+  poolSize: number // 재순위화할 후보 수
+  topK: number // 프롬프트에 넣을 문서 수
+  modelId?: string // llm 재순위화 모델 (없으면 검증과 같은 모델)
+  url?: string // http 재순위화 서버
+  timeoutMs: number // http 재순위화 요청 제한 시간 (넘으면 검색 순서를 사용)
+}
+
+export interface RerankCandidate {
+  id: string
+  title: string
+  content: string
+}
+
+/**
+ * 후보마다 0-1 관련도 점수를 반환 (candidates와 같은 순서)
+ */
+export interface Reranker {
+  readonly name: string
+  score(code: string, candidates: RerankCandidate[]): Promise<number[]>
+}
+
+// 재순위화에 보내는 문서 본문 길이
+const CANDIDATE_PREVIEW_LENGTH = 800
+
+const RERANKER_NAMES: RerankerName[] = ['none', 'llm', 'http']
+
+function envInteger(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+/**
+ * 환경 변수로 설정하는 재순위화 단계 (기본값은 사용하지 않음)
+ */
+export function getRerankConfig(): RerankConfig {
+  const name = (process.env.RAG_RERANKER || 'none').toLowerCase()
+  if (!RERANKER_NAMES.includes(name as RerankerName)) {
+    throw new Error(`Unknown RAG_RERANKER "${name}". Expected one of: ${RERANKER_NAMES.join(', ')}`)
+  }
+
+  return {
+    reranker: name as RerankerName,
+    poolSize: envInteger('RAG_RERANK_POOL', 30),
+    topK: envInteger('RAG_RERANK_TOP_K', 5),
+    modelId: process.env.RAG_RERANK_MODEL_ID || undefined,
+    url: process.env.RAG_RERANKER_URL || 'http://localhost:8080',
+    timeoutMs: envInteger('RAG_RERANK_TIMEOUT_MS', 5000),
+  }
+}
+
+function preview(candidate: RerankCandidate) {
+  const content = candidate.content.slice(0, CANDIDATE_PREVIEW_LENGTH)
+  return `${candidate.title}\n${content}${candidate.content.length > CANDIDATE_PREVIEW_LENGTH ? '...' : ''}`
+}
+
+const RerankOutputSchema = z.object({
+  scores: z.array(z.object({
+    index: z.number().int().min(1).describe('문서 번호'),
+    score: z.number().min(0).max(10).describe('규칙 코드 검증에 대한 관련도 (0-10)'),
+  })),
+})
+
+const RERANK_TOOL: StructuredTool<z.infer<typeof RerankOutputSchema>> = {
+  name: 'submit_relevance',
+  description: '후보 문서마다 규칙 코드 검증에 대한 관련도 점수를 제출합니다.',
+  schema: RerankOutputSchema,
+}
+
+/**
+ * 모델에 후보 목록을 한 번에 보내 관련도를 매기게 함 - 점수가 빠진 문서는 0점
+ */
+export class LLMReranker implements Reranker {
+  readonly name: string
+
+  constructor(private modelId?: string) {
+    this.name = `llm:${modelId ?? getLLMProvider().modelId}`
+  }
+
+  async score(code: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const provider = this.modelId ? getLLMProviderForModel(this.modelId) : getLLMProvider()
+    const documents = candidates.map((candidate, index) => `[${index + 1}] ${preview(candidate)}`).join('\n\n')
+
+    const outcome = await invokeStructured({
+      messages: [{
+        role: 'user',
+        content: renderPrompt('rerank-documents', { toolName: RERANK_TOOL.name, code, documents }),
+      }],
+      temperature: 0,
+      max_tokens: 2048,
+    }, RERANK_TOOL, provider)
+    if (!outcome.success) throw new Error(`Rerank response did not match the schema: ${outcome.error}`)
+
+    const scores = new Array<number>(candidates.length).fill(0)
+    outcome.data.scores.forEach(({ index, score }) => {
+      if (index <= candidates.length) scores[index - 1] = score / 10
+    })
+    return scores
+  }
+}
+
+/**
+ * 로컬 cross-encoder 서버의 /rerank 호출 (text-embeddings-inference 형식: { index, score }[])
+ */
+export class HttpReranker implements Reranker {
+  readonly name: string
+
+  constructor(private url: string, private timeoutMs: number) {
+    this.url = url.replace(/\/+$/, '')
+    this.name = `http:${this.url}`
+  }
+
+  async score(code: string, candidates: RerankCandidate[]): Promise<number[]> {
+    let body: Array<{ index: number, score: number }>
+    try {
+      // 응답 본문을 읽는 동안에도 제한 시간을 적용 (멈춘 서버가 RAG 검증 전체를 붙잡지 않도록)
+      const response = await fetch(`${this.url}/rerank`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ query: code, texts: candidates.map(preview), truncate: true }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      })
+      if (!response.ok) {
+        throw new Error(`Reranker request failed (${response.status}): ${await response.text()}`)
+      }
+      body = await response.json()
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Reranker request timed out after ${this.timeoutMs}ms`)
+      }
+      throw error
+    }
+
+    const scores = new Array<number>(candidates.length).fill(0)
+    body.forEach(({ index, score }) => {
+      if (index < candidates.length) scores[index] = Math.min(1, Math.max(0, score))
+    })
+    return scores
+  }
+}
+
+export function createReranker(config: RerankConfig): Reranker | null {
+  switch (config.reranker) {
+    case 'llm':
+      return new LLMReranker(config.modelId)
+    case 'http':
+      return new HttpReranker(config.url ?? 'http://localhost:8080', config.timeoutMs)
+    default:
+      return null
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * 하이브리드 검색 - pgvector 코사인 유사도 검색과 Postgres 전문 검색(tsvector) 결과를 RRF로 합침
+ * 벡터 검색이 놓치는 deep_walk, AWS.CloudTrail 같은 정확한 식별자는 전문 검색이 찾습니다.
+ */
+
+export type RetrievalMethod = 'vector' | 'lexical'
+
+export interface HybridSearchConfig {
+  weights: Record<RetrievalMethod, number> // 검색 방식별 RRF 가중치 (0이면 해당 방식을 사용하지 않음)
+  rrfK: number // RRF 상수 - 클수록 상위 순위의 영향이 줄어듦
+  candidates: number // 방식별로 합치기 전에 가져오는 후보 수
+}
+
+export interface RetrievalInfo {
+  score: number // RRF 점수
+  ranks: Partial<Record<RetrievalMethod, number>> // 방식별 순위 (1부터, 찾지 못한 방식은 없음)
+}
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * 환경 변수로 조정할 수 있는 하이브리드 검색 설정
+ */
+export function getHybridSearchConfig(): HybridSearchConfig {
+  return {
+    weights: {
+      vector: envNumber('RAG_VECTOR_WEIGHT', 1),
+      lexical: envNumber('RAG_LEXICAL_WEIGHT', 1),
+    },
+    rrfK: envNumber('RAG_RRF_K', 60),
+    candidates: Math.max(1, Math.round(envNumber('RAG_SEARCH_CANDIDATES', 20))),
+  }
+}
+
+export interface RankedList<T> {
+  method: RetrievalMethod
+  results: T[] // 순위 순
+}
+
+/**
+ * 가중 Reciprocal Rank Fusion - 점수는 방식별 weight / (rrfK + 순위)의 합
+ * 여러 방식에서 찾은 항목은 처음 나온 목록의 값을 사용합니다.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: RankedList<T>[],
+  config: HybridSearchConfig
+): Array<T & { retrieval: RetrievalInfo }> {
+  const fused = new Map<string, { item: T, retrieval: RetrievalInfo }>()
+
+  for (const { method, results } of lists) {
+    const weight = config.weights[method]
+    if (weight <= 0) continue
+
+    results.forEach((item, index) => {
+      const rank = index + 1
+      const entry = fused.get(item.id) ?? { item, retrieval: { score: 0, ranks: {} } }
+      entry.retrieval.score += weight / (config.rrfK + rank)
+      entry.retrieval.ranks[method] = rank
+      fused.set(item.id, entry)
+    })
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.retrieval.score - a.retrieval.score)
+    .map(({ item, retrieval }) => ({ ...item, retrieval }))
+}
+
+// 전문 검색어에서 제외하는 Python 키워드와 흔한 이름
+const STOP_TERMS = new Set([
+  'and', 'def', 'del', 'elif', 'else', 'except', 'false', 'for', 'from', 'global', 'import', 'lambda',
+  'none', 'not', 'pass', 'raise', 'return', 'self', 'true', 'try', 'while', 'with', 'yield', 'event',
+])
+
+const IDENTIFIER_PATTERN = /[\p{L}_][\p{L}\p{N}_]*(?:\.[\p{L}_][\p{L}\p{N}_]*)*/gu
+
+/**
+ * 검색 대상 코드나 질의에서 전문 검색어 추출
+ * 밑줄·점이 들어간 식별자(deep_walk, AWS.CloudTrail)를 앞에 두고, 점으로 이어진 이름은 마지막 이름도 따로 검색합니다.
+ */
+export function extractSearchTerms(text: string, maxTerms = 32): string[] {
+  const terms = new Set<string>()
+
+  for (const [match] of text.matchAll(IDENTIFIER_PATTERN)) {
+    const candidates = match.includes('.') ? [match, match.slice(match.lastIndexOf('.') + 1)] : [match]
+    candidates.forEach(term => {
+      if (term.length >= 3 && !STOP_TERMS.has(term.toLowerCase())) terms.add(term)
+    })
+  }
+
+  const isIdentifier = (term: string) => /[_.]/.test(term)
+  return [...terms]
+    .sort((a, b) => Number(isIdentifier(b)) - Number(isIdentifier(a)))
+    .slice(0, maxTerms)
+}
\ No newline at end of file
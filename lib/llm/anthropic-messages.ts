@@ -0,0 +1,71 @@
+import type { TokenUsage } from '@/lib/usage/tracker'
+import type { LLMTool } from './types'
+
+// Bedrock과 Anthropic API가 공유하는 Messages API 형식 처리
+
+interface ContentBlock {
+  type: string
+  text?: string
+  input?: unknown
+}
+
+interface MessagesUsage {
+  input_tokens?: number
+  output_tokens?: number
+}
+
+interface StreamEvent {
+  type?: string
+  delta?: { type?: string, text?: string, partial_json?: string }
+  message?: { usage?: MessagesUsage }
+  usage?: MessagesUsage
+}
+
+export function toToolParams(tool?: LLMTool) {
+  if (!tool) return {}
+
+  return {
+    tools: [{ name: tool.name, description: tool.description, input_schema: tool.inputSchema }],
+    tool_choice: { type: 'tool', name: tool.name },
+  }
+}
+
+export function readText(body: { content?: ContentBlock[] }) {
+  return (body.content ?? [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text ?? '')
+    .join('')
+}
+
+// 도구를 호출하지 않은 응답은 텍스트를 반환해 스키마 검증에서 걸러지도록 함
+export function readToolInput(body: { content?: ContentBlock[] }): unknown {
+  const toolUse = body.content?.find(block => block.type === 'tool_use')
+  return toolUse ? toolUse.input : readText(body)
+}
+
+/**
+ * 스트림 이벤트에서 텍스트 또는 도구 입력 JSON 조각을 추출
+ */
+export function readStreamDelta(event: StreamEvent, kind: 'text' | 'tool'): string | undefined {
+  if (event.type !== 'content_block_delta' || !event.delta) return undefined
+  return kind === 'text' ? event.delta.text : event.delta.partial_json
+}
+
+export function readUsage(body: { usage?: MessagesUsage }): TokenUsage {
+  return {
+    inputTokens: body.usage?.input_tokens ?? 0,
+    outputTokens: body.usage?.output_tokens ?? 0,
+  }
+}
+
+/**
+ * 스트림 사용량 누적 - 입력 토큰은 message_start, 출력 토큰은 message_delta에 포함
+ */
+export function addStreamUsage(usage: TokenUsage, event: StreamEvent) {
+  if (event.type === 'message_start') {
+    usage.inputTokens += event.message?.usage?.input_tokens ?? 0
+    usage.outputTokens += event.message?.usage?.output_tokens ?? 0
+  } else if (event.type === 'message_delta') {
+    usage.outputTokens += event.usage?.output_tokens ?? 0
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type LLMProvider, type LLMRequest, type LLMTool } from './types'
+import { recordLLMUsage } from '@/lib/usage/tracker'
+import { addStreamUsage, readStreamDelta, readText, readToolInput, readUsage, toToolParams } from './anthropic-messages'
+import { readErrorBody, readSseData } from './sse'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+/**
+ * Anthropic API를 직접 호출 (ANTHROPIC_API_KEY)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  readonly modelId: string
+  private baseUrl: string
+
+  constructor(
+    modelId = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+    baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+  ) {
+    this.modelId = modelId
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  private async post(request: LLMRequest, options: { stream: boolean, tool?: LLMTool }) {
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new Error('Anthropic provider requires ANTHROPIC_API_KEY environment variable.')
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.modelId,
+        messages: request.messages,
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        ...(request.system && { system: request.system }),
+        ...(options.stream && { stream: true }),
+        ...toToolParams(options.tool),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error (${response.status}): ${await readErrorBody(response)}`)
+    }
+    return response
+  }
+
+  private async send(request: LLMRequest, tool?: LLMTool) {
+    const response = await this.post(request, { stream: false, tool })
+    const body = await response.json()
+
+    recordLLMUsage(this.modelId, readUsage(body))
+    return body
+  }
+
+  async invoke(request: LLMRequest): Promise<string> {
+    return readText(await this.send(request))
+  }
+
+  async invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown> {
+    return readToolInput(await this.send(request, tool))
+  }
+
+  stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(request, 'text')
+  }
+
+  streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(request, 'tool', tool)
+  }
+
+  private async *streamDeltas(request: LLMRequest, kind: 'text' | 'tool', tool?: LLMTool): AsyncGenerator<string, void, unknown> {
+    const response = await this.post(request, { stream: true, tool })
+    if (!response.body) {
+      throw new Error('No response body received from Anthropic API')
+    }
+
+    const usage = { inputTokens: 0, outputTokens: 0 }
+
+    for await (const data of readSseData(response.body)) {
+      const event = JSON.parse(data)
+      if (event.type === 'error') {
+        throw new Error(`Anthropic API stream error: ${event.error?.message ?? data}`)
+      }
+
+      addStreamUsage(usage, event)
+      const delta = readStreamDelta(event, kind)
+      if (delta) yield delta
+    }
+
+    recordLLMUsage(this.modelId, usage)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { getFixtureMode, readFixture, replayFixture, withFixture, writeFixture } from '@/lib/fixtures/store'
+import { RUBRIC_MAX_POINTS, type LLMRubric } from '@/lib/schemas/validation'
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type LLMProvider, type LLMRequest, type LLMTool } from './types'
+
+/**
+ * fixture 키로 쓰는 요청 내용 - 모델이 달라도 같은 프롬프트면 같은 fixture를 사용
+ */
+function toFixtureRequest(request: LLMRequest, tool?: LLMTool) {
+  return {
+    system: request.system ?? null,
+    messages: request.messages.map(({ role, content }) => ({ role, content })),
+    max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    ...(tool && { tool: { name: tool.name, inputSchema: tool.inputSchema } }),
+  }
+}
+
+// 스트리밍 경로도 검증할 수 있도록 줄 단위로 나눠 전달
+async function* streamText(text: string): AsyncGenerator<string, void, unknown> {
+  for (const line of text.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+    yield line
+  }
+}
+
+// 도구 입력은 객체로 저장하고, 스트리밍할 때는 JSON 텍스트로 전달
+function toToolText(input: unknown) {
+  return typeof input === 'string' ? input : JSON.stringify(input, null, 2)
+}
+
+function fromToolText(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+const OFFLINE_RUBRIC_ENTRY = {
+  points: RUBRIC_MAX_POINTS / 2,
+  rationale: '오프라인 모드에서는 LLM이 채점하지 않아 중간 점수를 사용합니다.',
+}
+
+// fixture가 없을 때 반환하는 고정 응답 (검증 결과 형식, 채점 기준의 모든 항목을 중간 점수로 채움)
+const OFFLINE_OUTPUT = {
+  rubric: {
+    requiredFunctions: OFFLINE_RUBRIC_ENTRY,
+    safeEventAccess: OFFLINE_RUBRIC_ENTRY,
+    alertQuality: OFFLINE_RUBRIC_ENTRY,
+    performance: OFFLINE_RUBRIC_ENTRY,
+    tests: OFFLINE_RUBRIC_ENTRY,
+    errorHandling: OFFLINE_RUBRIC_ENTRY,
+    documentation: OFFLINE_RUBRIC_ENTRY,
+  } satisfies LLMRubric,
+  ruleCompliance: {
+    score: 50,
+    findings: [],
+    suggestions: ['오프라인 모드에서는 LLM 분석 결과가 생성되지 않습니다.'],
+  },
+  codeQuality: {
+    score: 50,
+    feedback: '오프라인 모드 (LLM_PROVIDER=fixture) 응답입니다.',
+  },
+  detailedAnalysis: '이 결과는 LLM을 호출하지 않고 생성된 고정 응답입니다. 정적 분석, 스펙 검사, 테스트 결과만 실제 값입니다.',
+}
+
+/**
+ * 네트워크 없이 동작하는 결정적 provider
+ * 기록된 fixture가 있으면 그 응답을 재생하고, 없으면 고정된 검증 결과를 반환합니다.
+ * FIXTURE_MODE=replay에서는 fixture가 없으면 실패합니다.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const
+  readonly modelId = 'fixture'
+
+  private async lookup<T>(fixtureRequest: unknown, fallback: T): Promise<T> {
+    if (getFixtureMode() === 'replay') return replayFixture<T>('llm', fixtureRequest)
+    return (await readFixture<T>('llm', fixtureRequest)) ?? fallback
+  }
+
+  invoke(request: LLMRequest): Promise<string> {
+    return this.lookup(toFixtureRequest(request), JSON.stringify(OFFLINE_OUTPUT, null, 2))
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    yield* streamText(await this.invoke(request))
+  }
+
+  invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown> {
+    return this.lookup<unknown>(toFixtureRequest(request, tool), OFFLINE_OUTPUT)
+  }
+
+  async *streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+    yield* streamText(toToolText(await this.invokeTool(request, tool)))
+  }
+}
+
+/**
+ * 실제 provider 앞에서 FIXTURE_MODE에 따라 응답을 기록하거나 재생
+ * 재생 모드에서는 실제 provider를 호출하지 않으므로 자격 증명이 필요 없습니다.
+ * 스트림 응답은 전체 텍스트로 기록하므로 같은 요청의 invoke와 fixture를 공유합니다.
+ */
+export class RecordReplayProvider implements LLMProvider {
+  constructor(private provider: LLMProvider) {}
+
+  get name() {
+    return this.provider.name
+  }
+
+  get modelId() {
+    return this.provider.modelId
+  }
+
+  invoke(request: LLMRequest): Promise<string> {
+    return withFixture('llm', toFixtureRequest(request), () => this.provider.invoke(request))
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const fixtureRequest = toFixtureRequest(request)
+    const mode = getFixtureMode()
+
+    if (mode === 'replay') {
+      yield* streamText(await replayFixture<string>('llm', fixtureRequest))
+      return
+    }
+
+    let text = ''
+    for await (const chunk of this.provider.stream(request)) {
+      text += chunk
+      yield chunk
+    }
+    if (mode === 'record') await writeFixture('llm', fixtureRequest, text)
+  }
+
+  invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown> {
+    return withFixture('llm', toFixtureRequest(request, tool), () => this.provider.invokeTool(request, tool))
+  }
+
+  async *streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+    const fixtureRequest = toFixtureRequest(request, tool)
+    const mode = getFixtureMode()
+
+    if (mode === 'replay') {
+      yield* streamText(toToolText(await replayFixture<unknown>('llm', fixtureRequest)))
+      return
+    }
+
+    let text = ''
+    for await (const chunk of this.provider.streamTool(request, tool)) {
+      text += chunk
+      yield chunk
+    }
+    if (mode === 'record') await writeFixture('llm', fixtureRequest, fromToolText(text))
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { BedrockProvider } from '@/lib/bedrock/client'
+import { AnthropicProvider } from './anthropic'
+import { getFixtureMode } from '@/lib/fixtures/store'
+import { FixtureProvider, RecordReplayProvider } from './fixture'
+import { OpenAICompatibleProvider } from './openai-compatible'
+import type { LLMProvider, LLMProviderName, LLMRequest, LLMTool } from './types'
+
+export type { LLMMessage, LLMProvider, LLMProviderName, LLMRequest, LLMTool } from './types'
+
+// modelId가 없으면 provider별 환경 변수의 모델 사용
+const PROVIDERS: Record<LLMProviderName, (modelId?: string) => LLMProvider> = {
+  bedrock: modelId => new BedrockProvider(modelId),
+  anthropic: modelId => new AnthropicProvider(modelId),
+  openai: modelId => new OpenAICompatibleProvider(modelId),
+  fixture: () => new FixtureProvider(),
+}
+
+let provider: LLMProvider | null = null
+const modelProviders = new Map<string, LLMProvider>()
+
+function createProvider(modelId?: string): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'bedrock').toLowerCase()
+  if (!(name in PROVIDERS)) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`)
+  }
+
+  const selected = PROVIDERS[name as LLMProviderName](modelId)
+  return selected.name !== 'fixture' && getFixtureMode() !== 'off'
+    ? new RecordReplayProvider(selected)
+    : selected
+}
+
+/**
+ * LLM_PROVIDER 설정에 따른 provider (기본값 bedrock)
+ * 자격 증명은 provider를 만들 때가 아니라 첫 호출 시점에 확인합니다.
+ * FIXTURE_MODE가 record/replay이면 응답을 기록하거나 재생하는 provider로 감쌉니다.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createProvider()
+  return provider
+}
+
+/**
+ * 같은 LLM_PROVIDER로 다른 모델을 호출하는 provider (문서 재순위화처럼 작은 모델로 충분한 호출용)
+ */
+export function getLLMProviderForModel(modelId: string): LLMProvider {
+  let modelProvider = modelProviders.get(modelId)
+  if (!modelProvider) {
+    modelProvider = createProvider(modelId)
+    modelProviders.set(modelId, modelProvider)
+  }
+  return modelProvider
+}
+
+/**
+ * 테스트 등에서 provider를 직접 지정 (null이면 설정에서 다시 선택)
+ */
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next
+  modelProviders.clear()
+}
+
+export function invokeLLM(request: LLMRequest): Promise<string> {
+  return getLLMProvider().invoke(request)
+}
+
+export function streamLLM(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+  return getLLMProvider().stream(request)
+}
+
+export function streamLLMTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+  return getLLMProvider().streamTool(request, tool)
+}
\ No newline at end of file
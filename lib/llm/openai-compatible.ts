@@ -0,0 +1,130 @@
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type LLMProvider, type LLMRequest, type LLMTool } from './types'
+import { recordLLMUsage, type TokenUsage } from '@/lib/usage/tracker'
+import { readErrorBody, readSseData } from './sse'
+
+interface ToolCall {
+  function?: { arguments?: string }
+}
+
+function readUsage(body: { usage?: { prompt_tokens?: number, completion_tokens?: number } | null }): TokenUsage {
+  return {
+    inputTokens: body.usage?.prompt_tokens ?? 0,
+    outputTokens: body.usage?.completion_tokens ?? 0,
+  }
+}
+
+/**
+ * OpenAI 호환 Chat Completions API 호출 (Ollama, vLLM, LM Studio 등 로컬 서버)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const
+  readonly modelId: string
+  private baseUrl: string
+
+  constructor(
+    modelId = process.env.OPENAI_MODEL || '',
+    baseUrl = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1'
+  ) {
+    this.modelId = modelId
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  private async post(request: LLMRequest, options: { stream: boolean, tool?: LLMTool }) {
+    if (!this.modelId) {
+      throw new Error('OpenAI-compatible provider requires OPENAI_MODEL environment variable.')
+    }
+
+    // 시스템 프롬프트는 messages의 첫 항목으로 전달
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages
+    const { tool } = options
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(process.env.OPENAI_API_KEY && { authorization: `Bearer ${process.env.OPENAI_API_KEY}` }),
+      },
+      body: JSON.stringify({
+        model: this.modelId,
+        messages,
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        stream: options.stream,
+        // 스트림 마지막 청크에 사용량 포함
+        ...(options.stream && { stream_options: { include_usage: true } }),
+        ...(tool && {
+          tools: [{
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+          }],
+          tool_choice: { type: 'function', function: { name: tool.name } },
+        }),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error (${response.status}): ${await readErrorBody(response)}`)
+    }
+    return response
+  }
+
+  private async send(request: LLMRequest, tool?: LLMTool) {
+    const response = await this.post(request, { stream: false, tool })
+    const body = await response.json()
+
+    recordLLMUsage(this.modelId, readUsage(body))
+    return body
+  }
+
+  async invoke(request: LLMRequest): Promise<string> {
+    const body = await this.send(request)
+    return body.choices?.[0]?.message?.content ?? ''
+  }
+
+  // 함수 인자는 JSON 문자열이므로 파싱에 실패하면 문자열 그대로 반환
+  async invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown> {
+    const message = (await this.send(request, tool)).choices?.[0]?.message
+    const args = (message?.tool_calls as ToolCall[] | undefined)?.[0]?.function?.arguments
+    if (args === undefined) return message?.content ?? ''
+
+    try {
+      return JSON.parse(args)
+    } catch {
+      return args
+    }
+  }
+
+  stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(request, 'text')
+  }
+
+  streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown> {
+    return this.streamDeltas(request, 'tool', tool)
+  }
+
+  private async *streamDeltas(request: LLMRequest, kind: 'text' | 'tool', tool?: LLMTool): AsyncGenerator<string, void, unknown> {
+    const response = await this.post(request, { stream: true, tool })
+    if (!response.body) {
+      throw new Error('No response body received from OpenAI-compatible API')
+    }
+
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+
+    for await (const data of readSseData(response.body)) {
+      if (data === '[DONE]') break
+
+      const chunk = JSON.parse(data)
+      if (chunk.usage) usage = readUsage(chunk)
+
+      const delta = chunk.choices?.[0]?.delta
+      const text = kind === 'text'
+        ? delta?.content
+        : (delta?.tool_calls as ToolCall[] | undefined)?.[0]?.function?.arguments
+      if (text) yield text
+    }
+
+    recordLLMUsage(this.modelId, usage)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+export type TopLevelJsonEvent =
+  | { type: 'key', key: string } // 속성 값이 도착하기 시작함
+  | { type: 'value', key: string, value: unknown } // 속성 값이 완성됨 (JSON이 아니면 원본 텍스트)
+
+/**
+ * 스트리밍 중인 JSON 객체를 조각 단위로 받아 최상위 속성이 완성될 때마다 알려주는 리더
+ * 도구 입력 스트림에서 속성별로 먼저 도착한 결과를 바로 전달하는 데 사용합니다.
+ */
+export function createTopLevelJsonReader() {
+  let text = ''
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let keyStart = -1
+  let valueStart = -1
+  let currentKey: string | null = null
+
+  function completeValue(end: number, events: TopLevelJsonEvent[]) {
+    if (currentKey === null || valueStart < 0) return
+
+    const raw = text.slice(valueStart, end).trim()
+    let value: unknown = raw
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      // 잘못된 값은 원본 텍스트로 전달해 스키마 검증에서 걸러지도록 함
+    }
+
+    events.push({ type: 'value', key: currentKey, value })
+    currentKey = null
+    valueStart = -1
+  }
+
+  return {
+    push(chunk: string): TopLevelJsonEvent[] {
+      const events: TopLevelJsonEvent[] = []
+      const offset = text.length
+      text += chunk
+
+      for (let i = offset; i < text.length; i++) {
+        const char = text[i]
+
+        if (inString) {
+          if (escaped) {
+            escaped = false
+          } else if (char === '\\') {
+            escaped = true
+          } else if (char === '"') {
+            inString = false
+            if (keyStart >= 0) {
+              currentKey = JSON.parse(text.slice(keyStart, i + 1))
+              keyStart = -1
+            }
+          }
+          continue
+        }
+
+        if (char === '"') {
+          inString = true
+          if (depth === 1 && currentKey === null) keyStart = i
+        } else if (char === ':' && depth === 1 && currentKey !== null) {
+          valueStart = i + 1
+          events.push({ type: 'key', key: currentKey })
+        } else if (char === ',' && depth === 1) {
+          completeValue(i, events)
+        } else if (char === '{' || char === '[') {
+          depth++
+        } else if (char === '}' || char === ']') {
+          if (depth === 1) completeValue(i, events)
+          depth--
+        }
+      }
+
+      return events
+    },
+    get text() {
+      return text
+    },
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+/**
+ * HTTP 응답 본문의 SSE `data:` 줄을 순서대로 읽음
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim()
+      }
+    }
+
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export async function readErrorBody(response: Response) {
+  const text = await response.text().catch(() => '')
+  return text.slice(0, 500) || response.statusText
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import { getLLMProvider } from '@/lib/llm'
+import type { LLMProvider, LLMRequest, LLMTool } from './types'
+
+/**
+ * Zod 스키마로 응답 형식을 정의한 도구
+ */
+export interface StructuredTool<T> {
+  name: string
+  description: string
+  schema: z.ZodType<T>
+}
+
+export type StructuredOutcome<T> =
+  | { success: true, data: T, repaired: boolean }
+  | { success: false, error: string, input: unknown }
+
+/**
+ * 스키마에서 도구 정의 생성 - 기본값이 있는 필드는 생략 가능하도록 입력 기준으로 변환
+ */
+export function toLLMTool<T>(tool: StructuredTool<T>): LLMTool {
+  const inputSchema: Record<string, unknown> = z.toJSONSchema(tool.schema, { io: 'input', unrepresentable: 'any' })
+  delete inputSchema.$schema
+  return { name: tool.name, description: tool.description, inputSchema }
+}
+
+function describeInput(input: unknown) {
+  if (typeof input === 'string') return input.trim() || '(빈 응답)'
+  return JSON.stringify(input, null, 2)
+}
+
+/**
+ * 검증 오류를 돌려보내 한 번 더 도구를 호출하게 함
+ */
+export async function repairStructured<T>(
+  request: LLMRequest,
+  tool: StructuredTool<T>,
+  input: unknown,
+  error: z.ZodError,
+  provider: LLMProvider = getLLMProvider()
+): Promise<StructuredOutcome<T>> {
+  const repairRequest: LLMRequest = {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: describeInput(input) },
+      {
+        role: 'user',
+        content: `위 응답이 ${tool.name} 도구의 입력 스키마를 만족하지 않습니다. 다음 오류를 고쳐 ${tool.name} 도구를 다시 호출하세요.\n\n${z.prettifyError(error)}`,
+      },
+    ],
+  }
+
+  const repairedInput = await provider.invokeTool(repairRequest, toLLMTool(tool))
+  const repaired = tool.schema.safeParse(repairedInput)
+  if (repaired.success) return { success: true, data: repaired.data, repaired: true }
+
+  console.warn(`Structured output repair failed (${tool.name}):`, z.prettifyError(repaired.error))
+  return { success: false, error: z.prettifyError(repaired.error), input: repairedInput }
+}
+
+/**
+ * 도구 호출로 구조화된 응답을 받아 스키마로 검증
+ * 형식이 맞지 않으면 한 번 복구를 요청하고, 그래도 실패하면 예외 대신 success: false를 반환합니다.
+ * provider 호출 자체의 오류(네트워크, 인증 등)는 그대로 전달됩니다.
+ */
+export async function invokeStructured<T>(
+  request: LLMRequest,
+  tool: StructuredTool<T>,
+  provider: LLMProvider = getLLMProvider()
+): Promise<StructuredOutcome<T>> {
+  const input = await provider.invokeTool(request, toLLMTool(tool))
+  const parsed = tool.schema.safeParse(input)
+  if (parsed.success) return { success: true, data: parsed.data, repaired: false }
+
+  return repairStructured(request, tool, input, parsed.error, provider)
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+export interface LLMMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  max_tokens?: number
+  temperature?: number
+  system?: string
+}
+
+/**
+ * 모델이 호출하도록 강제하는 도구 - 입력 스키마가 곧 응답 형식
+ */
+export interface LLMTool {
+  name: string
+  description: string
+  inputSchema: Record<string, unknown> // JSON Schema
+}
+
+export type LLMProviderName = "bedrock" | "anthropic" | "openai" | "fixture"
+
+/**
+ * 검증 파이프라인이 사용하는 LLM 호출 인터페이스
+ * 구현체는 생성 시 자격 증명을 확인하지 않고 첫 호출 시점에 확인합니다.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly modelId: string
+  invoke(request: LLMRequest): Promise<string>
+  stream(request: LLMRequest): AsyncGenerator<string, void, unknown>
+  // 도구 입력을 그대로 반환 (스키마 검증 전이므로 unknown, 도구를 호출하지 않았으면 응답 텍스트)
+  invokeTool(request: LLMRequest, tool: LLMTool): Promise<unknown>
+  // 도구 입력 JSON 텍스트 조각을 순서대로 전달
+  streamTool(request: LLMRequest, tool: LLMTool): AsyncGenerator<string, void, unknown>
+}
+
+export const DEFAULT_MAX_TOKENS = 4096
+export const DEFAULT_TEMPERATURE = 0.7
\ No newline at end of file
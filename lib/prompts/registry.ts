@@ -0,0 +1,92 @@
+import { PROMPTS } from './templates'
+
+/**
+ * 이름과 버전이 있는 프롬프트 템플릿
+ * {{name}}은 렌더링 시 전달한 변수로, {{>name}}은 다른 프롬프트의 현재 버전으로 치환됩니다.
+ * 기존 버전은 수정하지 말고 새 버전을 추가하세요 - 저장된 검증 기록과 캐시 키가 버전을 참조합니다.
+ */
+export interface PromptVersion {
+  version: number
+  createdAt: string // YYYY-MM-DD
+  changelog: string
+  template: string
+}
+
+export interface PromptDefinition {
+  name: string
+  description: string
+  variables: string[]
+  versions: PromptVersion[] // 오래된 버전부터
+}
+
+export interface PromptSummary extends PromptDefinition {
+  currentVersion: number
+  includes: string[] // 현재 버전이 포함하는 다른 프롬프트
+}
+
+export type PromptVariables = Record<string, string | number>
+
+const VARIABLE_PATTERN = /\{\{(>?)\s*([\w-]+)\s*\}\}/g
+
+export class PromptNotFoundError extends Error {
+  constructor(name: string, version?: number) {
+    super(version === undefined ? `Unknown prompt "${name}"` : `Unknown prompt version "${name}@${version}"`)
+    this.name = 'PromptNotFoundError'
+  }
+}
+
+function findDefinition(name: string) {
+  const definition = PROMPTS.find(prompt => prompt.name === name)
+  if (!definition) throw new PromptNotFoundError(name)
+  return definition
+}
+
+/**
+ * 프롬프트 버전 조회 (버전을 지정하지 않으면 현재 버전)
+ */
+export function getPrompt(name: string, version?: number): PromptVersion {
+  const { versions } = findDefinition(name)
+  const prompt = version === undefined ? versions.at(-1) : versions.find(entry => entry.version === version)
+  if (!prompt) throw new PromptNotFoundError(name, version)
+  return prompt
+}
+
+function listIncludes(template: string) {
+  return [...template.matchAll(VARIABLE_PATTERN)].filter(match => match[1]).map(match => match[2])
+}
+
+/**
+ * 현재 버전의 프롬프트를 변수로 렌더링 - 템플릿에 있는 변수가 빠지면 예외
+ */
+export function renderPrompt(name: string, variables: PromptVariables = {}): string {
+  // 변수 값은 다시 치환하지 않도록 한 번에 치환
+  return getPrompt(name).template.replace(VARIABLE_PATTERN, (_, include: string, key: string) => {
+    if (include) return renderPrompt(key, variables)
+    if (!(key in variables)) throw new Error(`Missing variable "${key}" for prompt "${name}"`)
+    return String(variables[key])
+  })
+}
+
+/**
+ * 검증에 사용한 프롬프트 버전 - 포함된 프롬프트까지 "이름@버전"으로 나열
+ * 검증 기록에 저장되고 결과 캐시 키에 포함됩니다.
+ */
+export function promptVersionOf(...names: string[]): string {
+  const versions = new Map<string, number>()
+  const visit = (name: string) => {
+    if (versions.has(name)) return
+    const prompt = getPrompt(name)
+    versions.set(name, prompt.version)
+    listIncludes(prompt.template).forEach(visit)
+  }
+  names.forEach(visit)
+
+  return [...versions].map(([name, version]) => `${name}@${version}`).join(',')
+}
+
+export function listPrompts(): PromptSummary[] {
+  return PROMPTS.map(definition => {
+    const current = definition.versions.at(-1)!
+    return { ...definition, currentVersion: current.version, includes: listIncludes(current.template) }
+  })
+}
\ No newline at end of file
@@ -0,0 +1,394 @@
+import type { PromptDefinition } from './registry'
+
+// 프롬프트 정의 - 변경할 때는 기존 버전을 그대로 두고 versions 끝에 새 버전을 추가
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'panther-guidelines',
+    description: 'Panther 탐지 규칙 가이드라인과 평가 기준 (다른 시스템 프롬프트에 포함)',
+    variables: [],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '검증기별로 복사되어 있던 가이드라인을 하나로 통합',
+        template: `## Panther 탐지 규칙 가이드라인:
+1. rule(event) 함수가 있어야 하며 의심 활동 시 True를 반환해야 함
+2. 선택적 알림 함수들: severity(), title(), dedup(), runbook()
+3. 내장 이벤트 객체 함수 사용: get(), deep_get(), deep_walk()
+4. 탐지 내에서 외부 API 요청 금지
+5. 15초 내 실행 완료
+6. 가능한 경우 통합 데이터 모델(UDM) 필드 사용
+7. 중첩되고 복잡한 이벤트 구조 안전 처리
+8. 포괄적인 단위 테스트 포함
+9. 알림에서 명확하고 실행 가능한 컨텍스트 제공
+
+## 평가 기준:
+- 탐지 로직의 정확성과 대상 지정
+- 성능과 효율성
+- 코드 가독성과 유지보수성
+- 적절한 오류 처리
+- 문서화와 주석
+- 보안 모범 사례`,
+      },
+    ],
+  },
+  {
+    name: 'panther-reviewer',
+    description: 'Panther 규칙 검토자 역할과 가이드라인 (코드 개선 요청의 시스템 프롬프트)',
+    variables: [],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '최초 버전',
+        template: `당신은 Panther 탐지 규칙을 전문으로 하는 Python 코드 검증자입니다.
+
+다음 기준으로 코드를 평가하세요:
+
+{{>panther-guidelines}}`,
+      },
+    ],
+  },
+  {
+    name: 'response-language',
+    description: '결과 텍스트를 작성할 언어 지시 (검증 요청의 language 옵션)',
+    variables: ['languageName'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '한국어로 고정되어 있던 응답 언어를 변수로 분리',
+        template: `Write every text field of the result (findings, suggestions, feedback, detailedAnalysis) in {{languageName}}.`,
+      },
+    ],
+  },
+  {
+    name: 'scoring-rubric',
+    description: '채점 기준 항목 설명 - 모델은 항목별 점수만 매기고 최종 점수는 가중치로 서버에서 계산 (lib/analysis/rubric)',
+    variables: [],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '최초 버전',
+        template: `## 채점 기준 (rubric):
+아래 항목을 각각 0-10점으로 채점하고 rationale에 근거를 적으세요. 총점은 서버가 항목별 점수로 계산하므로 제출하지 않습니다.
+
+규칙 준수성:
+- requiredFunctions: rule(event)가 있고 bool을 반환하는지, severity()/title()/dedup()/runbook() 등 선택 함수의 시그니처와 반환 타입이 올바른지
+- safeEventAccess: event.get(), deep_get(), deep_walk(), UDM 필드로 누락되거나 중첩된 필드를 안전하게 다루는지
+- alertQuality: title()이 구체적이고 실행 가능한 컨텍스트를 주는지, dedup()이 같은 활동을 적절히 묶는지 (함수가 없으면 기본 동작이 적절한지)
+- performance: 외부 API·네트워크 호출 없이 15초 내에 끝나는지, 불필요한 반복과 연산이 없는지
+
+코드 품질:
+- tests: 탐지되는 경우와 탐지되지 않는 경우를 모두 다루는 단위 테스트가 있는지 (테스트 실행 결과가 있으면 서버가 통과율로 채점)
+- errorHandling: 필드 누락, 예상과 다른 타입·값에서도 예외 없이 동작하는지
+- documentation: docstring, 주석, 명확한 이름으로 탐지 의도를 알 수 있는지
+
+점수 기준: 10 = 문제 없음, 7-9 = 사소한 개선점, 4-6 = 눈에 띄는 문제, 1-3 = 심각한 문제, 0 = 해당 요소가 없거나 완전히 잘못됨`,
+      },
+    ],
+  },
+  {
+    name: 'validation-system',
+    description: '검증 시스템 프롬프트 (구조화된 검증, RAG 비활성화 검증, 스트리밍 검증, /api/validate)',
+    variables: ['toolName', 'languageName'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '구조화된 검증의 한국어 시스템 프롬프트를 기준으로 통합',
+        template: `{{>panther-reviewer}}
+
+모든 응답은 한국어로 작성하고 결과는 {{toolName}} 도구로 제출하세요.`,
+      },
+      {
+        version: 2,
+        createdAt: '2026-10-19',
+        changelog: '응답 언어를 response-language 프롬프트로 지정',
+        template: `{{>panther-reviewer}}
+
+{{>response-language}}
+결과는 {{toolName}} 도구로 제출하세요.`,
+      },
+      {
+        version: 3,
+        createdAt: '2026-10-19',
+        changelog: '점수 대신 scoring-rubric 항목별 점수를 제출',
+        template: `{{>panther-reviewer}}
+
+{{>scoring-rubric}}
+
+{{>response-language}}
+결과는 {{toolName}} 도구로 제출하세요.`,
+      },
+    ],
+  },
+  {
+    name: 'validation-user',
+    description: '검증 요청 사용자 프롬프트 - 줄 번호가 붙은 코드와 정적 분석·스펙·테스트 요약',
+    variables: ['toolName', 'code', 'lintSummary', 'specSummary', 'testSummary'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '구조화된 검증의 사용자 프롬프트',
+        template: `다음 Python 탐지 규칙 코드를 분석하고 {{toolName}} 도구로 결과를 제출하세요.
+
+분석할 코드 (각 줄 앞의 번호는 startLine/endLine 기준이며 코드의 일부가 아님):
+\`\`\`python
+{{code}}
+\`\`\`
+
+이 코드는 이미 Python 파서 검사를 통과했으므로 구문 오류는 보고하지 마세요.
+
+{{lintSummary}}
+
+{{specSummary}}
+
+{{testSummary}}
+
+findings의 startLine/endLine은 위 코드의 줄 번호를 사용하세요.`,
+      },
+      {
+        version: 2,
+        createdAt: '2026-10-19',
+        changelog: '스트리밍 검증과 함께 쓰도록 결과 작성 순서 지시 추가',
+        template: `다음 Python 탐지 규칙 코드를 분석하고 {{toolName}} 도구로 결과를 제출하세요.
+
+분석할 코드 (각 줄 앞의 번호는 startLine/endLine 기준이며 코드의 일부가 아님):
+\`\`\`python
+{{code}}
+\`\`\`
+
+이 코드는 이미 Python 파서 검사를 통과했으므로 구문 오류는 보고하지 마세요.
+
+{{lintSummary}}
+
+{{specSummary}}
+
+{{testSummary}}
+
+findings의 startLine/endLine은 위 코드의 줄 번호를 사용하세요.
+결과는 ruleCompliance, codeQuality, detailedAnalysis 순서로 작성하세요.`,
+      },
+      {
+        version: 3,
+        createdAt: '2026-10-19',
+        changelog: '점수를 계산할 수 있도록 rubric을 가장 먼저 작성',
+        template: `다음 Python 탐지 규칙 코드를 분석하고 {{toolName}} 도구로 결과를 제출하세요.
+
+분석할 코드 (각 줄 앞의 번호는 startLine/endLine 기준이며 코드의 일부가 아님):
+\`\`\`python
+{{code}}
+\`\`\`
+
+이 코드는 이미 Python 파서 검사를 통과했으므로 구문 오류는 보고하지 마세요.
+
+{{lintSummary}}
+
+{{specSummary}}
+
+{{testSummary}}
+
+findings의 startLine/endLine은 위 코드의 줄 번호를 사용하세요.
+결과는 rubric, ruleCompliance, codeQuality, detailedAnalysis 순서로 작성하세요.`,
+      },
+    ],
+  },
+  {
+    name: 'rag-system',
+    description: 'RAG 검증 시스템 프롬프트 - 검색된 문서·예제 참고 자료와 평가 기준',
+    variables: ['references', 'officialChecklist', 'toolName', 'languageName'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: 'RAGEngine.buildPromptWithRAG의 지시문을 템플릿으로 분리',
+        template: `당신은 Panther 탐지 규칙을 전문으로 하는 Python 코드 검증자입니다.
+
+{{references}}## 🎯 Panther 규칙 준수성 평가 기준:
+
+{{officialChecklist}}### 🔍 추가 품질 평가:
+- **코드 품질**: 유사 예제와 비교한 구현 수준
+- **탐지 정확성**: False positive/negative 최소화
+- **가독성**: 코드 명확성과 주석의 적절성
+- **유지보수성**: 확장성과 수정 용이성
+
+### ⚠️ 중요 지침:
+- 공식 Panther 문서의 요구사항을 **최우선**으로 적용
+- 규칙 준수성 점수는 공식 가이드라인 준수 정도에 따라 엄격하게 채점
+- 참고 문서의 구체적인 예시와 패턴을 인용하여 개선 제안 제공
+- 검증 불가능한 부분은 명시적으로 언급
+
+**모든 응답은 한국어로 작성하고 결과는 {{toolName}} 도구로 제출하세요.**`,
+      },
+      {
+        version: 2,
+        createdAt: '2026-10-19',
+        changelog: '응답 언어를 response-language 프롬프트로 지정',
+        template: `당신은 Panther 탐지 규칙을 전문으로 하는 Python 코드 검증자입니다.
+
+{{references}}## 🎯 Panther 규칙 준수성 평가 기준:
+
+{{officialChecklist}}### 🔍 추가 품질 평가:
+- **코드 품질**: 유사 예제와 비교한 구현 수준
+- **탐지 정확성**: False positive/negative 최소화
+- **가독성**: 코드 명확성과 주석의 적절성
+- **유지보수성**: 확장성과 수정 용이성
+
+### ⚠️ 중요 지침:
+- 공식 Panther 문서의 요구사항을 **최우선**으로 적용
+- 규칙 준수성 점수는 공식 가이드라인 준수 정도에 따라 엄격하게 채점
+- 참고 문서의 구체적인 예시와 패턴을 인용하여 개선 제안 제공
+- 검증 불가능한 부분은 명시적으로 언급
+
+{{>response-language}}
+**결과는 {{toolName}} 도구로 제출하세요.**`,
+      },
+      {
+        version: 3,
+        createdAt: '2026-10-19',
+        changelog: '점수 대신 scoring-rubric 항목별 점수를 제출',
+        template: `당신은 Panther 탐지 규칙을 전문으로 하는 Python 코드 검증자입니다.
+
+{{references}}## 🎯 Panther 규칙 준수성 평가 기준:
+
+{{officialChecklist}}### 🔍 추가 품질 평가:
+- **코드 품질**: 유사 예제와 비교한 구현 수준
+- **탐지 정확성**: False positive/negative 최소화
+- **가독성**: 코드 명확성과 주석의 적절성
+- **유지보수성**: 확장성과 수정 용이성
+
+{{>scoring-rubric}}
+
+### ⚠️ 중요 지침:
+- 공식 Panther 문서의 요구사항을 **최우선**으로 적용
+- 규칙 준수성 항목은 공식 가이드라인 준수 정도에 따라 엄격하게 채점
+- 참고 문서의 구체적인 예시와 패턴을 인용하여 개선 제안 제공
+- 검증 불가능한 부분은 명시적으로 언급
+
+{{>response-language}}
+**결과는 {{toolName}} 도구로 제출하세요.**`,
+      },
+    ],
+  },
+  {
+    name: 'rag-checklist',
+    description: '공식 Panther 규칙 문서가 검색된 경우 RAG 시스템 프롬프트에 추가하는 체크리스트',
+    variables: [],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: 'RAGEngine.buildPromptWithRAG의 체크리스트를 템플릿으로 분리',
+        template: `### 📋 공식 규칙 기반 체크리스트:
+위의 공식 Panther 문서를 바탕으로 다음을 **필수적으로** 검증하세요:
+
+1. **필수 함수 구조 (90점 만점)**:
+   - \`rule(event)\` 함수 존재 및 올바른 반환값 (Boolean)
+   - 필요시 \`severity()\`, \`title()\`, \`dedup()\`, \`runbook()\` 함수 구현
+   - 함수 시그니처와 반환 타입의 정확성
+
+2. **Panther 내장 함수 활용 (80점 만점)**:
+   - \`event.get()\`, \`deep_get()\`, \`deep_walk()\` 적절한 사용
+   - UDM(Unified Data Model) 필드 활용도
+   - 안전한 데이터 접근 패턴
+
+3. **보안 및 성능 (70점 만점)**:
+   - 15초 내 실행 보장 (타임아웃 방지)
+   - 외부 API 호출 금지 준수
+   - 예외 처리 및 안전한 데이터 핸들링`,
+      },
+      {
+        version: 2,
+        createdAt: '2026-10-19',
+        changelog: '출력에 없던 항목별 만점 표기를 빼고 scoring-rubric 항목과 연결',
+        template: `### 📋 공식 규칙 기반 체크리스트:
+위의 공식 Panther 문서를 바탕으로 다음을 **필수적으로** 검증하세요:
+
+1. **필수 함수 구조 (requiredFunctions, alertQuality)**:
+   - \`rule(event)\` 함수 존재 및 올바른 반환값 (Boolean)
+   - 필요시 \`severity()\`, \`title()\`, \`dedup()\`, \`runbook()\` 함수 구현
+   - 함수 시그니처와 반환 타입의 정확성
+
+2. **Panther 내장 함수 활용 (safeEventAccess)**:
+   - \`event.get()\`, \`deep_get()\`, \`deep_walk()\` 적절한 사용
+   - UDM(Unified Data Model) 필드 활용도
+   - 안전한 데이터 접근 패턴
+
+3. **보안 및 성능 (performance, errorHandling)**:
+   - 15초 내 실행 보장 (타임아웃 방지)
+   - 외부 API 호출 금지 준수
+   - 예외 처리 및 안전한 데이터 핸들링`,
+      },
+    ],
+  },
+  {
+    name: 'rerank-documents',
+    description: 'RAG 검색 후보 재순위화 요청 (RAG_RERANKER=llm)',
+    variables: ['toolName', 'code', 'documents'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: '최초 버전',
+        template: `다음 Panther 탐지 규칙 코드를 검증할 때 각 후보 문서가 얼마나 도움이 되는지 0-10점으로 평가하고 {{toolName}} 도구로 제출하세요.
+
+- 코드가 실제로 사용하는 함수, 로그 유형, 필드, 탐지 패턴을 다루는 문서일수록 높은 점수를 주세요.
+- 일반적인 설명만 있거나 코드와 관련 없는 문서는 낮은 점수를 주세요.
+- 모든 문서 번호에 점수를 매기세요.
+
+규칙 코드:
+\`\`\`python
+{{code}}
+\`\`\`
+
+후보 문서:
+
+{{documents}}`,
+      },
+    ],
+  },
+  {
+    name: 'improve-code',
+    description: '검증 피드백을 바탕으로 개선된 규칙 코드를 요청하는 사용자 프롬프트',
+    variables: ['code', 'findings', 'suggestions', 'languageName'],
+    versions: [
+      {
+        version: 1,
+        createdAt: '2026-10-19',
+        changelog: 'python-validator.ts의 개선 코드 요청을 템플릿으로 분리',
+        template: `Based on the following feedback, generate an improved version of this Python detection rule:
+
+Original Code:
+\`\`\`python
+{{code}}
+\`\`\`
+
+Feedback:
+- Findings: {{findings}}
+- Suggestions: {{suggestions}}
+
+Generate only the improved code without any explanation. If you include any comments in the code, please write them in Korean language.`,
+      },
+      {
+        version: 2,
+        createdAt: '2026-10-19',
+        changelog: '코드 주석 언어를 languageName 변수로 지정',
+        template: `Based on the following feedback, generate an improved version of this Python detection rule:
+
+Original Code:
+\`\`\`python
+{{code}}
+\`\`\`
+
+Feedback:
+- Findings: {{findings}}
+- Suggestions: {{suggestions}}
+
+Generate only the improved code without any explanation. If you include any comments in the code, please write them in {{languageName}}.`,
+      },
+    ],
+  },
+]
\ No newline at end of file
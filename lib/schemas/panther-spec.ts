@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+// Panther 규칙 YAML 스펙 (panther-analysis 저장소의 rule/scheduled_rule 형식)
+// 알 수 없는 필드는 파싱에서 제거하고 lib/analysis/spec.ts가 따로 경고합니다 (필드 하나로 스펙 전체를 버리지 않도록).
+export const PANTHER_SEVERITIES = ['Info', 'Low', 'Medium', 'High', 'Critical'] as const
+
+export const PantherSeveritySchema = z.enum(PANTHER_SEVERITIES)
+
+export const PantherSpecTestSchema = z.object({
+  Name: z.string().min(1),
+  ExpectedResult: z.boolean(),
+  Log: z.record(z.string(), z.unknown()),
+  Mocks: z.array(z.object({
+    objectName: z.string(),
+    returnValue: z.unknown(),
+  })).optional(),
+})
+
+export const PantherRuleSpecSchema = z.object({
+  AnalysisType: z.enum(['rule', 'scheduled_rule']),
+  Filename: z.string().regex(/\.py$/, 'Filename은 .py 파일이어야 합니다').optional(),
+  RuleID: z.string().min(1),
+  DisplayName: z.string().optional(),
+  Enabled: z.boolean(),
+  LogTypes: z.array(z.string().min(1)).min(1).optional(),
+  ScheduledQueries: z.array(z.string().min(1)).min(1).optional(),
+  Severity: PantherSeveritySchema,
+  Description: z.string().optional(),
+  DedupPeriodMinutes: z.number().int().min(0).max(1440).optional(),
+  Threshold: z.number().int().min(1).optional(),
+  Reports: z.record(z.string(), z.array(z.string())).optional(),
+  Reference: z.string().optional(),
+  Runbook: z.string().optional(),
+  SummaryAttributes: z.array(z.string()).optional(),
+  Tags: z.array(z.string()).optional(),
+  OutputIds: z.array(z.string()).optional(),
+  CreateAlert: z.boolean().optional(),
+  InlineFilters: z.array(z.unknown()).optional(),
+  Tests: z.array(PantherSpecTestSchema).optional(),
+}).superRefine((spec, ctx) => {
+  // 스트리밍 규칙은 LogTypes, 예약 규칙은 ScheduledQueries가 필수
+  if (spec.AnalysisType === 'rule' && !spec.LogTypes) {
+    ctx.addIssue({ code: 'custom', path: ['LogTypes'], message: 'AnalysisType이 rule이면 LogTypes가 필요합니다' })
+  }
+  if (spec.AnalysisType === 'scheduled_rule' && !spec.ScheduledQueries) {
+    ctx.addIssue({ code: 'custom', path: ['ScheduledQueries'], message: 'AnalysisType이 scheduled_rule이면 ScheduledQueries가 필요합니다' })
+  }
+})
+
+export type PantherSeverity = z.infer<typeof PantherSeveritySchema>
+export type PantherSpecTest = z.infer<typeof PantherSpecTestSchema>
+export type PantherRuleSpec = z.infer<typeof PantherRuleSpecSchema>
\ No newline at end of file
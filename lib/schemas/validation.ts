@@ -1,5 +1,138 @@
 import { z } from 'zod'
 
+// 발견 항목 스키마
+export const FindingSeveritySchema = z.enum(['error', 'warning', 'info'])
+export const FindingCategorySchema = z.enum([
+  'syntax',
+  'compliance',
+  'security',
+  'performance',
+  'quality',
+  'testing',
+  'documentation',
+])
+export const FindingSourceSchema = z.enum(['llm', 'linter', 'test', 'spec'])
+
+// 검증 결과 언어 - 모델 응답, 정적 분석 메시지, 결과 화면에 적용
+export const ValidationLanguageSchema = z.enum(['ko', 'en'])
+export const DEFAULT_VALIDATION_LANGUAGE = 'ko'
+
+export const FindingSchema = z.object({
+  id: z.string(),
+  message: z.string(),
+  severity: FindingSeveritySchema,
+  category: FindingCategorySchema,
+  startLine: z.number().int().min(1).optional(),
+  endLine: z.number().int().min(1).optional(),
+  suggestedReplacement: z.string().optional(),
+  source: FindingSourceSchema,
+  ruleCode: z.string().optional(), // 정적 분석 규칙 코드 (PNRxxx) 또는 스펙 검사 코드 (PNSxxx)
+  agreement: z.number().int().min(1).optional(), // 여러 샘플로 검증한 경우 이 항목을 보고한 샘플 수
+})
+
+// LLM이 반환하는 발견 항목 (id/source는 서버에서 부여, 잘못된 값은 기본값으로 보정)
+export const LLMFindingSchema = z.object({
+  message: z.string().describe('발견된 문제점 (요청한 응답 언어)'),
+  severity: FindingSeveritySchema.catch('warning'),
+  category: FindingCategorySchema.catch('quality'),
+  startLine: z.number().int().min(1).optional().catch(undefined).describe('문제가 시작되는 줄 번호'),
+  endLine: z.number().int().min(1).optional().catch(undefined).describe('문제가 끝나는 줄 번호'),
+  suggestedReplacement: z.string().optional().catch(undefined).describe('해당 줄 범위를 대체할 수정 코드'),
+})
+
+// 여러 샘플의 발견 항목을 병합한 결과 (도구 스키마에는 포함하지 않음)
+export const MergedLLMFindingSchema = LLMFindingSchema.extend({
+  agreement: z.number().int().min(1).optional(),
+})
+
+// 테스트 중 규칙 모듈의 함수·변수를 대체하는 값 (Panther 규칙 YAML의 Mocks 항목)
+export const RuleTestMockSchema = z.object({
+  objectName: z.string().min(1, '모킹할 이름은 필수입니다'),
+  returnValue: z.unknown(),
+})
+
+// 규칙 단위 테스트 케이스 (Panther 규칙 YAML의 Tests 항목과 동일한 구조)
+export const RuleTestCaseSchema = z.object({
+  name: z.string().min(1, '테스트 이름은 필수입니다'),
+  expectedResult: z.boolean(),
+  log: z.record(z.string(), z.unknown()),
+  mocks: z.array(RuleTestMockSchema).optional(),
+})
+
+// 테스트 케이스별 실행 결과
+export const RuleTestResultSchema = z.object({
+  name: z.string(),
+  passed: z.boolean(),
+  expectedResult: z.boolean(),
+  actualResult: z.boolean().nullable(), // rule() 실행 실패 시 null
+  title: z.string().optional(),
+  severity: z.string().optional(),
+  dedup: z.string().optional(),
+  alertContext: z.record(z.string(), z.unknown()).optional(),
+  error: z.string().optional(),
+  errorLine: z.number().int().min(1).optional(),
+  durationMs: z.number(),
+})
+
+// 테스트 실행 요약 (error는 모듈 로드 실패·타임아웃 등 전체 실행 실패,
+// skipped는 샌드박스가 없어 코드를 실행하지 않은 경우의 안내 - 이때 results는 비어 있음)
+export const TestRunSummarySchema = z.object({
+  total: z.number().int().min(0),
+  passed: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  results: z.array(RuleTestResultSchema),
+  error: z.string().optional(),
+  skipped: z.string().optional(),
+})
+
+// 자기 일관성 검증 - 성공한 샘플들의 점수 분포
+export const MAX_VALIDATION_SAMPLES = 7
+
+export const ScoreStatsSchema = z.object({
+  median: z.number(),
+  min: z.number(),
+  max: z.number(),
+  stddev: z.number(), // 모표준편차
+})
+
+export const ScoreConsistencySchema = z.object({
+  samples: z.number().int().min(1), // 점수 계산에 사용한 샘플 수 (형식 오류로 실패한 샘플 제외)
+  requested: z.number().int().min(1),
+  ruleCompliance: ScoreStatsSchema,
+  codeQuality: ScoreStatsSchema,
+})
+
+// 채점 기준 - 모델은 항목별 점수만 제출하고 최종 점수는 가중치로 서버에서 계산 (lib/analysis/rubric)
+export const RUBRIC_MAX_POINTS = 10
+
+const LLMCriterionScoreSchema = z.object({
+  points: z.number().min(0).max(RUBRIC_MAX_POINTS).describe(`항목 점수 (0-${RUBRIC_MAX_POINTS})`),
+  rationale: z.string().describe('점수 근거 (요청한 응답 언어)'),
+})
+
+export const LLMRubricSchema = z.object({
+  requiredFunctions: LLMCriterionScoreSchema.describe('필수 함수 구조: rule(event)와 선택 알림 함수의 시그니처·반환값'),
+  safeEventAccess: LLMCriterionScoreSchema.describe('안전한 이벤트 접근: get(), deep_get(), deep_walk(), UDM 필드 사용'),
+  alertQuality: LLMCriterionScoreSchema.describe('알림 품질: title()과 dedup()의 명확성과 적절한 그룹화'),
+  performance: LLMCriterionScoreSchema.describe('성능: 외부 호출 없이 15초 내 실행, 불필요한 연산 없음'),
+  tests: LLMCriterionScoreSchema.describe('테스트: 탐지·비탐지 경우를 모두 다루는 단위 테스트'),
+  errorHandling: LLMCriterionScoreSchema.describe('오류 처리: 누락·예상 밖 값에서도 예외 없이 동작'),
+  documentation: LLMCriterionScoreSchema.describe('문서화: docstring, 주석, 명확한 이름'),
+})
+
+export const RubricCriterionSchema = LLMRubricSchema.keyof()
+export const RubricScoreGroupSchema = z.enum(['ruleCompliance', 'codeQuality'])
+
+// 결과에 포함되는 항목별 점수 (source가 test면 단위 테스트 통과율로 계산한 점수)
+export const RubricScoreSchema = z.object({
+  criterion: RubricCriterionSchema,
+  group: RubricScoreGroupSchema,
+  weight: z.number().min(0),
+  points: z.number().min(0).max(RUBRIC_MAX_POINTS),
+  rationale: z.string(),
+  source: z.enum(['llm', 'test']),
+})
+
 // 기본 검증 결과 스키마
 export const ValidationResultSchema = z.object({
   syntaxCheck: z.object({
@@ -8,7 +141,7 @@ export const ValidationResultSchema = z.object({
   }),
   ruleCompliance: z.object({
     score: z.number().min(0).max(100),
-    findings: z.array(z.string()),
+    findings: z.array(FindingSchema),
     suggestions: z.array(z.string()),
   }),
   codeQuality: z.object({
@@ -16,12 +149,84 @@ export const ValidationResultSchema = z.object({
     feedback: z.string(),
   }),
   detailedAnalysis: z.string(),
+  testResults: TestRunSummarySchema.optional(), // 테스트 케이스가 주어진 경우에만 포함
+  consistency: ScoreConsistencySchema.optional(), // 여러 샘플로 검증한 경우에만 포함
+  rubric: z.array(RubricScoreSchema).optional(), // 항목별 점수 (정적 분석 기반 대체 결과와 구문 오류 결과에는 없음)
+})
+
+// LLM이 검증 도구로 제출하는 분석 결과 (점수, 구문 검사, 테스트 결과는 서버에서 채움)
+export const LLMValidationOutputSchema = z.object({
+  rubric: LLMRubricSchema,
+  ruleCompliance: z.object({
+    findings: z.array(LLMFindingSchema),
+    suggestions: z.array(z.string()).describe('개선 제안사항 (요청한 응답 언어)'),
+  }),
+  codeQuality: z.object({
+    feedback: z.string().describe('상세한 피드백 (마크다운 형식, 요청한 응답 언어)'),
+  }),
+  detailedAnalysis: z.string().describe('포괄적인 분석 내용 (마크다운 형식, 요청한 응답 언어)'),
+})
+
+// 결과 캐시 정보 - hit이면 같은 키로 저장된 기존 검증 기록을 반환한 것
+export const ValidationCacheInfoSchema = z.object({
+  hit: z.boolean(),
+  key: z.string(),
+  modelId: z.string(),
+  promptVersion: z.string(),
+  knowledgeBaseVersion: z.string(),
+  cachedAt: z.string().nullable(), // 캐시된 기록의 생성 시각 (hit이 아니면 null)
+})
+
+// 규칙 팩 일괄 검증 - 규칙별 결과
+export const PackRuleResultSchema = z.object({
+  path: z.string(), // rules/ 기준 .py 경로
+  specPath: z.string().optional(),
+  ruleId: z.string().optional(),
+  code: z.string(),
+  status: z.enum(['validated', 'failed']),
+  result: ValidationResultSchema.optional(),
+  recordId: z.string().uuid().optional(),
+  cached: z.boolean().optional(), // 캐시된 검증 기록을 재사용한 경우 true
+  error: z.string().optional(),
+  durationMs: z.number(),
+})
+
+// global_helpers 모듈별 정적 검사 결과 (helper 코드는 실행하지 않음)
+export const PackHelperCheckSchema = z.object({
+  name: z.string(), // 모듈명 (global_helpers/ 기준 파일명)
+  findings: z.array(FindingSchema),
+})
+
+// 규칙 팩 전체 집계
+export const PackSummarySchema = z.object({
+  totalRules: z.number().int().min(0),
+  validatedRules: z.number().int().min(0),
+  failedRules: z.number().int().min(0),
+  syntaxErrorRules: z.number().int().min(0),
+  averageRuleComplianceScore: z.number().nullable(),
+  averageCodeQualityScore: z.number().nullable(),
+  testsPassed: z.number().int().min(0),
+  testsTotal: z.number().int().min(0),
+  findingCounts: z.object({
+    error: z.number().int().min(0),
+    warning: z.number().int().min(0),
+    info: z.number().int().min(0),
+  }),
+})
+
+export const PackValidationResultSchema = z.object({
+  rules: z.array(PackRuleResultSchema),
+  summary: PackSummarySchema,
+  helpers: z.array(z.string()),
+  helperChecks: z.array(PackHelperCheckSchema),
+  dataModels: z.array(z.string()),
+  skipped: z.array(z.object({ path: z.string(), reason: z.string() })),
 })
 
 // 진행 상태 스키마
 export const ProgressStepSchema = z.object({
   type: z.literal('progress'),
-  step: z.enum(['initializing', 'syntax', 'rules', 'quality', 'analysis']),
+  step: z.enum(['initializing', 'syntax', 'lint', 'tests', 'rules', 'quality', 'analysis']),
   message: z.string(),
 })
 
@@ -31,6 +236,7 @@ export const CompleteResultSchema = z.object({
   result: ValidationResultSchema,
   recordId: z.string().uuid(),
   duration: z.number().optional(),
+  cache: ValidationCacheInfoSchema.optional(),
 })
 
 // 에러 스키마
@@ -48,7 +254,38 @@ export const StreamingResponseSchema = z.discriminatedUnion('type', [
 ])
 
 // TypeScript 타입 추출
+export type FindingSeverity = z.infer<typeof FindingSeveritySchema>
+export type FindingCategory = z.infer<typeof FindingCategorySchema>
+export type FindingSource = z.infer<typeof FindingSourceSchema>
+export type ValidationLanguage = z.infer<typeof ValidationLanguageSchema>
+export type Finding = z.infer<typeof FindingSchema>
+export type LLMFinding = z.infer<typeof LLMFindingSchema>
+export type MergedLLMFinding = z.infer<typeof MergedLLMFindingSchema>
+export type RuleTestMock = z.infer<typeof RuleTestMockSchema>
+export type RuleTestCase = z.infer<typeof RuleTestCaseSchema>
+export type RuleTestResult = z.infer<typeof RuleTestResultSchema>
+export type TestRunSummary = z.infer<typeof TestRunSummarySchema>
+export type PackRuleResult = z.infer<typeof PackRuleResultSchema>
+export type PackHelperCheck = z.infer<typeof PackHelperCheckSchema>
+export type PackSummary = z.infer<typeof PackSummarySchema>
+export type PackValidationResult = z.infer<typeof PackValidationResultSchema>
+export type ScoreStats = z.infer<typeof ScoreStatsSchema>
+export type ScoreConsistency = z.infer<typeof ScoreConsistencySchema>
+export type LLMRubric = z.infer<typeof LLMRubricSchema>
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>
+export type RubricScoreGroup = z.infer<typeof RubricScoreGroupSchema>
+export type RubricScore = z.infer<typeof RubricScoreSchema>
 export type ValidationResult = z.infer<typeof ValidationResultSchema>
+export type ValidationCacheInfo = z.infer<typeof ValidationCacheInfoSchema>
+export type LLMValidationOutput = z.infer<typeof LLMValidationOutputSchema>
+
+// 항목별 점수로 최종 점수를 계산한 분석 결과 (정적 분석 기반 대체 결과에는 rubric이 없음)
+export type ScoredValidationOutput = {
+  ruleCompliance: LLMValidationOutput['ruleCompliance'] & { score: number, findings: MergedLLMFinding[] }
+  codeQuality: LLMValidationOutput['codeQuality'] & { score: number }
+  detailedAnalysis: string
+  rubric?: RubricScore[]
+}
 export type ProgressStep = z.infer<typeof ProgressStepSchema>
 export type CompleteResult = z.infer<typeof CompleteResultSchema>
 export type ErrorResult = z.infer<typeof ErrorResultSchema>
@@ -59,29 +296,77 @@ export const CodeValidationRequestSchema = z.object({
   code: z.string().min(1, '코드는 필수입니다'),
   action: z.enum(['validate', 'improve']).default('validate'),
   userId: z.string().uuid().optional(),
+  tests: z.array(RuleTestCaseSchema).max(50).default([]), // 샌드박스에서 실행할 테스트 이벤트
+  spec: z.string().max(100000).optional(), // Panther 규칙 YAML 스펙 (.yml 내용)
+  ruleId: z.string().trim().min(1).max(200).optional(), // 버전 이력을 묶을 규칙 ID (없으면 스펙의 RuleID)
+  force: z.boolean().default(false), // true면 캐시된 결과를 무시하고 다시 검증
+  language: ValidationLanguageSchema.default(DEFAULT_VALIDATION_LANGUAGE), // 결과 언어
+  samples: z.number().int().min(1).max(MAX_VALIDATION_SAMPLES).default(1), // 1보다 크면 병렬로 여러 번 평가해 점수 분포를 보고
 })
 
 export type CodeValidationRequest = z.infer<typeof CodeValidationRequestSchema>
 
-// 검증 히스토리 조회용 스키마
+// 검증 히스토리 조회용 스키마 (쿼리 문자열로 전달되므로 숫자는 변환해서 검증)
 export const ValidationHistoryQuerySchema = z.object({
   userId: z.string().uuid().optional(),
-  limit: z.number().min(1).max(100).default(10),
-  offset: z.number().min(0).default(0),
-  minScore: z.number().min(0).max(100).optional(),
-  maxScore: z.number().min(0).max(100).optional(),
+  ruleId: z.string().max(200).optional(), // 규칙 ID (YAML RuleID 또는 사용자 지정)
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  minScore: z.coerce.number().min(0).max(100).optional(), // 규칙 준수성 점수 기준
+  maxScore: z.coerce.number().min(0).max(100).optional(),
   dateFrom: z.string().datetime().optional(),
   dateTo: z.string().datetime().optional(),
+}).refine(query => query.minScore === undefined || query.maxScore === undefined || query.minScore <= query.maxScore, {
+  message: 'minScore는 maxScore보다 클 수 없습니다',
+  path: ['minScore'],
 })
 
 export type ValidationHistoryQuery = z.infer<typeof ValidationHistoryQuerySchema>
 
+// 관리자 사용량 통계 조회 기간 (최근 N일)
+export const UsageStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+})
+
+// 비동기 검증 작업 스키마
+export const ValidationJobKindSchema = z.enum(['structured', 'rag'])
+export const ValidationJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed'])
+
+export const ValidationJobStepSchema = z.object({
+  sequence: z.number(),
+  step: z.string(),
+  message: z.string().optional(),
+  startedAt: z.string(),
+  completedAt: z.string().nullable(),
+})
+
+export const ValidationJobSchema = z.object({
+  id: z.string().uuid(),
+  kind: ValidationJobKindSchema,
+  status: ValidationJobStatusSchema,
+  recordId: z.string().uuid().nullable(),
+  error: z.string().nullable(),
+  steps: z.array(ValidationJobStepSchema),
+  result: ValidationResultSchema.nullable(), // RAG 작업은 EnhancedValidationResult
+  duration: z.number().nullable(),
+  cache: ValidationCacheInfoSchema.nullable(),
+  createdAt: z.string(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+})
+
+export type ValidationJobKind = z.infer<typeof ValidationJobKindSchema>
+export type ValidationJobStatus = z.infer<typeof ValidationJobStatusSchema>
+export type ValidationJobStep = z.infer<typeof ValidationJobStepSchema>
+export type ValidationJob = z.infer<typeof ValidationJobSchema>
+
 // RAG 강화 검증 결과 스키마
 export const DocumentReferenceSchema = z.object({
   id: z.string(),
   title: z.string(),
   section: z.string().optional(),
   relevanceScore: z.number().min(0).max(1),
+  rerankScore: z.number().min(0).max(1).optional(), // 재순위화 단계의 관련도
   content: z.string(),
   documentType: z.string(),
 })
@@ -101,25 +386,10 @@ export const RAGMetadataSchema = z.object({
   examplesFound: z.number(),
   queryProcessingTime: z.number(),
   ragEnabled: z.boolean(),
+  reranker: z.string().nullable().optional(), // 재순위화에 사용한 모델
 })
 
-export const EnhancedValidationResultSchema = z.object({
-  // 기존 검증 결과
-  syntaxCheck: z.object({
-    isValid: z.boolean(),
-    errors: z.array(z.string()).default([]),
-  }),
-  ruleCompliance: z.object({
-    score: z.number().min(0).max(100),
-    findings: z.array(z.string()),
-    suggestions: z.array(z.string()),
-  }),
-  codeQuality: z.object({
-    score: z.number().min(0).max(100),
-    feedback: z.string(),
-  }),
-  detailedAnalysis: z.string(),
-
+export const EnhancedValidationResultSchema = ValidationResultSchema.extend({
   // RAG 강화 정보
   documentReferences: z.array(DocumentReferenceSchema).default([]),
   similarExamples: z.array(ExampleReferenceSchema).default([]),
@@ -142,6 +412,12 @@ export const EnhancedCodeValidationRequestSchema = z.object({
   code: z.string().min(1, '코드는 필수입니다'),
   action: z.enum(['validate', 'improve']).default('validate'),
   userId: z.string().uuid().optional(),
+  tests: z.array(RuleTestCaseSchema).max(50).default([]), // 샌드박스에서 실행할 테스트 이벤트
+  spec: z.string().max(100000).optional(), // Panther 규칙 YAML 스펙 (.yml 내용)
+  ruleId: z.string().trim().min(1).max(200).optional(), // 버전 이력을 묶을 규칙 ID (없으면 스펙의 RuleID)
+  force: z.boolean().default(false), // true면 캐시된 결과를 무시하고 다시 검증
+  language: ValidationLanguageSchema.default(DEFAULT_VALIDATION_LANGUAGE), // 결과 언어
+  samples: z.number().int().min(1).max(MAX_VALIDATION_SAMPLES).default(1), // 1보다 크면 병렬로 여러 번 평가해 점수 분포를 보고
   ragEnabled: z.boolean().default(true), // RAG 활성화 여부
   includeExamples: z.boolean().default(true), // 예제 포함 여부
   maxDocuments: z.number().min(1).max(10).default(5), // 최대 참고 문서 수
@@ -153,4 +429,51 @@ export type DocumentReference = z.infer<typeof DocumentReferenceSchema>
 export type ExampleReference = z.infer<typeof ExampleReferenceSchema>
 export type RAGMetadata = z.infer<typeof RAGMetadataSchema>
 export type EnhancedValidationResult = z.infer<typeof EnhancedValidationResultSchema>
-export type EnhancedCodeValidationRequest = z.infer<typeof EnhancedCodeValidationRequestSchema>
\ No newline at end of file
+export type EnhancedCodeValidationRequest = z.infer<typeof EnhancedCodeValidationRequestSchema>
+
+// 레거시 호환 뷰 - findings를 문자열 배열로 다루던 기존 클라이언트/레코드용
+export type LegacyValidationResult = Omit<ValidationResult, 'ruleCompliance'> & {
+  ruleCompliance: Omit<ValidationResult['ruleCompliance'], 'findings'> & {
+    findings: string[]
+  }
+}
+
+/**
+ * LLM 응답의 findings를 Finding[]로 변환 (id/source는 항상 서버에서 부여)
+ */
+export function parseLLMFindings(raw: unknown): Finding[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((item, index): Finding[] => {
+    const id = `llm-${index + 1}`
+
+    if (typeof item === 'string') {
+      return [{ id, message: item, severity: 'warning', category: 'compliance', source: 'llm' }]
+    }
+
+    const llmFinding = MergedLLMFindingSchema.safeParse(item)
+    return llmFinding.success ? [{ ...llmFinding.data, id, source: 'llm' }] : []
+  })
+}
+
+/**
+ * 저장된 레코드의 findings 정규화 - 레거시 string[]과 Finding[]를 모두 허용
+ */
+export function normalizeFindings(raw: unknown): Finding[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((item, index): Finding[] => {
+    if (typeof item === 'string') {
+      return [{
+        id: `legacy-${index + 1}`,
+        message: item,
+        severity: 'warning',
+        category: 'compliance',
+        source: 'llm',
+      }]
+    }
+
+    const finding = FindingSchema.safeParse(item)
+    return finding.success ? [finding.data] : []
+  })
+}
\ No newline at end of file
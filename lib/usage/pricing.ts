@@ -0,0 +1,58 @@
+/**
+ * 모델별 가격표 (USD / 100만 토큰)
+ * LLM_PRICE_TABLE 환경 변수(JSON)로 항목을 추가하거나 덮어쓸 수 있습니다.
+ * 예: {"claude-3-5-sonnet": {"input": 3, "output": 15}, "titan-embed-text-v2": {"input": 0.02}}
+ */
+export interface ModelPrice {
+  input: number
+  output?: number
+}
+
+// 키가 모델 ID에 포함되면 적용 (가장 긴 키 우선)
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'titan-embed-text-v2': { input: 0.02 },
+  'cohere.embed': { input: 0.1 },
+  'Xenova/': { input: 0 }, // transformers.js 로컬 임베딩
+}
+
+let priceTable: Array<[string, ModelPrice]> | null = null
+const warnedModels = new Set<string>()
+
+function getPriceTable() {
+  if (priceTable) return priceTable
+
+  let overrides: Record<string, ModelPrice> = {}
+  if (process.env.LLM_PRICE_TABLE) {
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICE_TABLE)
+    } catch (error) {
+      console.error('Invalid LLM_PRICE_TABLE, using default prices:', error)
+    }
+  }
+
+  priceTable = Object.entries({ ...DEFAULT_PRICES, ...overrides }).sort(([a], [b]) => b.length - a.length)
+  return priceTable
+}
+
+export function getModelPrice(modelId: string): ModelPrice | null {
+  const entry = getPriceTable().find(([key]) => modelId.includes(key))
+  if (!entry && modelId !== 'fixture' && !warnedModels.has(modelId)) {
+    warnedModels.add(modelId)
+    console.warn(`No price configured for model ${modelId}; its cost is counted as 0. Set LLM_PRICE_TABLE to add it.`)
+  }
+  return entry ? entry[1] : null
+}
+
+export function estimateCost(modelId: string, inputTokens: number, outputTokens = 0) {
+  const price = getModelPrice(modelId)
+  if (!price) return 0
+  return (inputTokens * price.input + outputTokens * (price.output ?? 0)) / 1_000_000
+}
\ No newline at end of file
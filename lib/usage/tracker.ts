@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { estimateCost } from './pricing'
+
+/**
+ * 검증 한 건에서 사용한 LLM 토큰, 임베딩 호출, 예상 비용
+ */
+export interface ValidationUsage {
+  llmCalls: number
+  inputTokens: number
+  outputTokens: number
+  embeddingCalls: number
+  embeddingTokens: number
+  estimatedCostUsd: number
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+const usageStorage = new AsyncLocalStorage<ValidationUsage>()
+
+export function emptyUsage(): ValidationUsage {
+  return { llmCalls: 0, inputTokens: 0, outputTokens: 0, embeddingCalls: 0, embeddingTokens: 0, estimatedCostUsd: 0 }
+}
+
+/**
+ * fn 안에서 발생한 모든 LLM·임베딩 호출의 사용량을 집계
+ * provider 호출부에서 record* 함수로 기록하므로 호출 경로마다 사용량을 넘길 필요가 없습니다.
+ */
+export function trackUsage<T>(fn: () => Promise<T>): Promise<T> {
+  return usageStorage.run(emptyUsage(), fn)
+}
+
+// 집계 중이 아니면 null
+export function getUsage(): ValidationUsage | null {
+  const usage = usageStorage.getStore()
+  return usage ? { ...usage } : null
+}
+
+export function recordLLMUsage(modelId: string, usage: TokenUsage) {
+  const current = usageStorage.getStore()
+  if (!current) return
+
+  current.llmCalls++
+  current.inputTokens += usage.inputTokens
+  current.outputTokens += usage.outputTokens
+  current.estimatedCostUsd += estimateCost(modelId, usage.inputTokens, usage.outputTokens)
+}
+
+export function recordEmbeddingUsage(modelId: string, inputTokens: number) {
+  const current = usageStorage.getStore()
+  if (!current) return
+
+  current.embeddingCalls++
+  current.embeddingTokens += inputTokens
+  current.estimatedCostUsd += estimateCost(modelId, inputTokens)
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // 로컬 임베딩(ONNX 런타임 네이티브 바이너리)은 번들하지 않고 node_modules에서 불러옴
+  serverExternalPackages: ["@huggingface/transformers"],
 };
 
 export default nextConfig;
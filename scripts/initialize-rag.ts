@@ -16,7 +16,7 @@ import fs from 'fs/promises'
 import { DocumentProcessor } from '@/lib/knowledge/document-processor'
 import { db } from '@/lib/db'
 import { codeExamples } from '@/lib/db/schema'
-import { TitanEmbeddingClient } from '@/lib/embeddings/titan-client'
+import { getEmbeddingProvider } from '@/lib/embeddings'
 
 // 샘플 코드 예제들
 const sampleCodeExamples = [
@@ -159,7 +159,7 @@ async function initializeRAGSystem() {
     console.log('📚 Panther 문서를 처리하고 있습니다...')
 
     const documentProcessor = new DocumentProcessor()
-    const embeddingClient = new TitanEmbeddingClient()
+    const embeddingClient = getEmbeddingProvider()
 
     // 샘플 문서 읽기
     const documentPath = path.join(process.cwd(), 'lib/knowledge/sample-panther-rules.md')
@@ -189,14 +189,12 @@ async function initializeRAGSystem() {
           category: example.category,
           description: example.description,
           embedding: embedding,
+          embeddingModel: embeddingClient.modelId,
           tags: example.tags,
         })
 
         exampleCount++
         console.log(`  ✓ ${example.title} 저장 완료`)
-
-        // 레이트 리밋 방지
-        await new Promise(resolve => setTimeout(resolve, 200))
       } catch (error) {
         console.error(`  ✗ ${example.title} 저장 실패:`, error)
       }
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+
+// 환경 변수 로드
+import { config } from 'dotenv'
+import path from 'path'
+
+// .env.local 파일 로드
+config({ path: path.join(process.cwd(), '.env.local') })
+
+/**
+ * 임베딩 재구성 스크립트
+ * embedding 컬럼 차원이 EMBEDDING_DIMENSIONS와 다르면 컬럼과 HNSW 인덱스를 다시 만들고,
+ * 임베딩이 없거나 다른 모델로 만든 문서와 예제를 현재 임베딩 설정으로 다시 임베딩합니다.
+ *
+ * 사용법: pnpm run db:reembed [--all] [--rebuild]
+ *   --all      현재 모델로 만든 행도 모두 다시 임베딩
+ *   --rebuild  차원이 같아도 컬럼과 인덱스를 다시 만듦
+ */
+
+import { closeConnection } from '@/lib/db'
+import {
+  countOtherModelEmbeddings,
+  getEmbeddingColumnDimensions,
+  getEmbeddingModelUsage,
+  rebuildEmbeddingColumns
+} from '@/lib/db/embeddings'
+import { getEmbeddingConfig } from '@/lib/embeddings/config'
+import { reembedAll } from '@/lib/embeddings/reembed'
+
+async function reembed() {
+  const args = process.argv.slice(2)
+  const all = args.includes('--all')
+  const rebuild = args.includes('--rebuild')
+  const embeddingConfig = getEmbeddingConfig()
+
+  try {
+    console.log(`🔧 임베딩 설정: ${embeddingConfig.provider} / ${embeddingConfig.modelId} (${embeddingConfig.dimensions}차원)`)
+
+    const columns = await getEmbeddingColumnDimensions()
+    Object.entries(columns).forEach(([table, dimensions]) => {
+      console.log(`   - ${table}.embedding: vector(${dimensions ?? ''})`)
+    })
+
+    const mismatched = Object.values(columns).some(dimensions => dimensions !== embeddingConfig.dimensions)
+    if (!mismatched) {
+      const usage = await getEmbeddingModelUsage()
+      Object.entries(usage).forEach(([table, tableUsage]) => {
+        const others = countOtherModelEmbeddings(tableUsage, embeddingConfig.modelId)
+        console.log(`   - ${table}: ${JSON.stringify(tableUsage.models)}, 임베딩 없음 ${tableUsage.missing}개, 다른 모델 ${others}개`)
+      })
+    }
+
+    if (mismatched || rebuild) {
+      console.log(`🧱 embedding 컬럼을 vector(${embeddingConfig.dimensions})로 다시 만들고 HNSW 인덱스를 재생성합니다...`)
+      await rebuildEmbeddingColumns(embeddingConfig.dimensions)
+      console.log('✅ 컬럼과 인덱스를 다시 만들었습니다. 기존 임베딩은 모두 지워졌습니다.')
+    }
+
+    console.log(all || mismatched || rebuild ? '📚 모든 행을 다시 임베딩합니다...' : '📚 임베딩이 없거나 다른 모델로 만든 행을 임베딩합니다...')
+    const results = await reembedAll({
+      all,
+      onProgress: (table, done, total) => {
+        if (done % 10 === 0 || done === total) console.log(`   ${table}: ${done}/${total}`)
+      },
+    })
+
+    results.forEach(({ table, embedded, failed }) => {
+      console.log(`✅ ${table}: ${embedded}개 임베딩${failed > 0 ? `, ${failed}개 실패` : ''}`)
+    })
+
+    const failed = results.reduce((sum, result) => sum + result.failed, 0)
+    if (failed > 0) {
+      console.log('\n실패한 행은 임베딩이 없는 상태로 남습니다. 다시 실행하면 이어서 처리합니다.')
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ 임베딩 재구성 중 오류 발생:', error)
+    process.exitCode = 1
+  } finally {
+    await closeConnection()
+  }
+}
+
+reembed()
\ No newline at end of file